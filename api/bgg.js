@@ -1,6 +1,537 @@
+const BGG_BASE_URL = 'https://boardgamegeek.com';
+
+// Cookies set by this proxy
+// The BGG session is HttpOnly so scripts can never read it; the CSRF token and
+// username are readable so the app can echo the token and show who is logged in
+const SESSION_COOKIE = 'bgg_session';
+const CSRF_COOKIE = 'bgg_csrf';
+const USER_COOKIE = 'bgg_user';
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60; // 30 days, matching BGG's own login
+
+const MAX_PLAYERS = 30;
+
+/*
+ * Read path allowlist
+ * Only these XMLAPI2 endpoints and parameters can be reached with our API token.
+ * Each parameter maps to the format its value must match.
+ */
+const FLAG = /^[01]$/;
+const INTEGER = /^\d{1,6}$/;
+const DECIMAL = /^\d{1,2}(\.\d{1,2})?$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const USERNAME = /^[\p{L}\p{N}_ .-]{1,64}$/u;
+const ID_LIST = /^\d{1,9}(,\d{1,9}){0,19}$/; // BGG serves at most 20 things per request
+const THING_TYPE = /^(boardgame|boardgameexpansion|boardgameaccessory|rpgitem|rpgissue|videogame)$/;
+const THING_TYPES = /^(boardgame|boardgameexpansion|boardgameaccessory|rpgitem|rpgissue|videogame)(,(boardgame|boardgameexpansion|boardgameaccessory|rpgitem|rpgissue|videogame)){0,5}$/;
+
+const ENDPOINTS = {
+  user: {
+    required: ['name'],
+    params: {
+      name: USERNAME,
+      buddies: FLAG,
+      guilds: FLAG,
+      hot: FLAG,
+      top: FLAG,
+      domain: /^(boardgame|rpg|videogame)$/,
+      page: INTEGER,
+    },
+  },
+  collection: {
+    required: ['username'],
+    params: {
+      username: USERNAME,
+      version: FLAG,
+      subtype: THING_TYPE,
+      excludesubtype: THING_TYPE,
+      id: ID_LIST,
+      brief: FLAG,
+      stats: FLAG,
+      own: FLAG,
+      rated: FLAG,
+      played: FLAG,
+      comment: FLAG,
+      trade: FLAG,
+      want: FLAG,
+      wishlist: FLAG,
+      wishlistpriority: /^[1-5]$/,
+      preordered: FLAG,
+      wanttoplay: FLAG,
+      wanttobuy: FLAG,
+      prevowned: FLAG,
+      hasparts: FLAG,
+      wantparts: FLAG,
+      minrating: DECIMAL,
+      rating: DECIMAL,
+      minbggrating: DECIMAL,
+      bggrating: DECIMAL,
+      minplays: INTEGER,
+      maxplays: INTEGER,
+      showprivate: FLAG,
+      collid: INTEGER,
+      modifiedsince: DATE,
+    },
+  },
+  thing: {
+    required: ['id'],
+    params: {
+      id: ID_LIST,
+      type: THING_TYPES,
+      versions: FLAG,
+      videos: FLAG,
+      stats: FLAG,
+      marketplace: FLAG,
+      comments: FLAG,
+      ratingcomments: FLAG,
+      page: INTEGER,
+      pagesize: INTEGER,
+    },
+  },
+  plays: {
+    // Plays are looked up by user, by item, or both
+    requiredOneOf: ['username', 'id'],
+    params: {
+      username: USERNAME,
+      id: /^\d{1,9}$/,
+      type: /^(thing|family)$/,
+      mindate: DATE,
+      maxdate: DATE,
+      subtype: THING_TYPE,
+      page: INTEGER,
+    },
+  },
+  search: {
+    required: ['query'],
+    params: {
+      query: /^[^\u0000-\u001f]{1,200}$/,
+      type: THING_TYPES,
+      exact: FLAG,
+    },
+  },
+  hot: {
+    params: {
+      type: /^(boardgame|rpg|videogame|boardgameperson|rpgperson|boardgamecompany|rpgcompany|videogamecompany)$/,
+    },
+  },
+};
+
+// How long a successful read is cached per endpoint, in seconds
+const CACHE_TTLS = {
+  collection: 10 * 60,
+  plays: 10 * 60,
+  thing: 24 * 60 * 60,
+  user: 24 * 60 * 60,
+};
+const DEFAULT_CACHE_TTL = 5 * 60;
+
+// Endpoints the CDN may cache across users. Everything else is per user (or
+// changes when a play is logged), and invalidateUserCache can't reach the CDN.
+const SHARED_CACHE_ENDPOINTS = new Set(['thing']);
+const MAX_CACHE_ENTRIES = 500;
+
+// Minimum gap between outbound requests, to stay under BGG's rate limit
+const REQUEST_SPACING_MS = Number(process.env.BGG_REQUEST_SPACING_MS) || 1000;
+
+// Retry-After (seconds) sent when BGG asks us to wait without saying for how long
+const DEFAULT_RETRY_AFTER = {
+  202: 2,
+  429: 5,
+};
+
+/**
+ * Parse the request's Cookie header into an object
+ */
+function parseCookies(header = '') {
+  return Object.fromEntries(
+    header
+      .split(';')
+      .map((part) => part.trim())
+      .filter(Boolean)
+      .flatMap((part) => {
+        const index = part.indexOf('=');
+        try {
+          return [[part.slice(0, index), decodeURIComponent(part.slice(index + 1))]];
+        } catch {
+          // Another site's cookie with a stray '%' mustn't break our requests
+          return [];
+        }
+      })
+  );
+}
+
+function serializeCookie(name, value, { httpOnly = false, maxAge = SESSION_MAX_AGE } = {}) {
+  return [
+    `${name}=${encodeURIComponent(value)}`,
+    'Path=/',
+    `Max-Age=${maxAge}`,
+    'SameSite=Strict',
+    'Secure',
+    httpOnly ? 'HttpOnly' : null,
+  ]
+    .filter(Boolean)
+    .join('; ');
+}
+
+/**
+ * Reject cross-site writes: the Origin (when sent) must match our host,
+ * and the custom header forces a CORS preflight for cross-origin scripts
+ */
+function isSameOriginRequest(req) {
+  const origin = req.headers.origin;
+  if (origin) {
+    try {
+      if (new URL(origin).host !== req.headers.host) return false;
+    } catch {
+      return false;
+    }
+  }
+  return req.headers['x-requested-with'] === 'CardboardMaid';
+}
+
+/**
+ * Double-submit check: the token header must match the token cookie
+ */
+function hasValidCsrfToken(req, cookies) {
+  const token = req.headers['x-csrf-token'];
+  return Boolean(token) && Boolean(cookies[CSRF_COOKIE]) && token === cookies[CSRF_COOKIE];
+}
+
+/**
+ * Log in to BGG with the user's credentials and keep the resulting BGG
+ * cookies in our HttpOnly session cookie. The password is not stored.
+ */
+async function handleLogin(req, res) {
+  const { username, password } = req.body || {};
+  if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+    return res.status(400).json({ error: 'Username and password are required' });
+  }
+
+  const response = await fetch(`${BGG_BASE_URL}/login/api/v1`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ credentials: { username, password } }),
+  });
+
+  if (!response.ok) {
+    const status = response.status === 401 || response.status === 400 ? 401 : 502;
+    return res.status(status).json({
+      error: status === 401 ? 'Invalid BoardGameGeek username or password' : 'BoardGameGeek login failed',
+    });
+  }
+
+  // Keep only the name=value part of each BGG cookie
+  const bggCookies = response.headers
+    .getSetCookie()
+    .map((cookie) => cookie.split(';')[0])
+    .filter((cookie) => !cookie.endsWith('=deleted'))
+    .join('; ');
+
+  if (!bggCookies) {
+    return res.status(502).json({ error: 'BoardGameGeek did not return a session' });
+  }
+
+  res.setHeader('Set-Cookie', [
+    serializeCookie(SESSION_COOKIE, bggCookies, { httpOnly: true }),
+    serializeCookie(CSRF_COOKIE, crypto.randomUUID()),
+    serializeCookie(USER_COOKIE, username),
+  ]);
+  return res.status(200).json({ username });
+}
+
+function handleLogout(req, res) {
+  res.setHeader('Set-Cookie', [
+    serializeCookie(SESSION_COOKIE, '', { httpOnly: true, maxAge: 0 }),
+    serializeCookie(CSRF_COOKIE, '', { maxAge: 0 }),
+    serializeCookie(USER_COOKIE, '', { maxAge: 0 }),
+  ]);
+  return res.status(200).json({ success: true });
+}
+
+/**
+ * Validate the play sent by the app and build BGG's geekplay.php payload from it
+ * Returns an error message string for invalid input
+ */
+function buildPlayPayload(body) {
+  const { gameId, date, length, quantity, comments, players } = body || {};
+
+  if (!/^\d+$/.test(String(gameId))) return 'Invalid game id';
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(String(date))) return 'Invalid play date';
+  if (length !== undefined && (!Number.isInteger(length) || length < 0 || length > 100000)) {
+    return 'Invalid play length';
+  }
+  if (quantity !== undefined && (!Number.isInteger(quantity) || quantity < 1 || quantity > 100)) {
+    return 'Invalid quantity';
+  }
+  if (comments !== undefined && (typeof comments !== 'string' || comments.length > 5000)) {
+    return 'Invalid comments';
+  }
+  if (!Array.isArray(players) || players.length > MAX_PLAYERS) return 'Invalid players';
+
+  const bggPlayers = [];
+  for (const player of players) {
+    const name = typeof player?.name === 'string' ? player.name.trim() : '';
+    const username = typeof player?.username === 'string' ? player.username.trim() : '';
+    if (!name && !username) return 'Every player needs a name or username';
+    if (name.length > 100 || username.length > 100) return 'Invalid player name';
+    if (player.score !== undefined && String(player.score).length > 20) return 'Invalid score';
+
+    bggPlayers.push({
+      name,
+      username,
+      score: player.score !== undefined ? String(player.score) : '',
+      win: player.win === true,
+      new: player.new === true,
+      selected: false,
+      repeat: true,
+    });
+  }
+
+  return {
+    action: 'save',
+    ajax: 1,
+    objecttype: 'thing',
+    objectid: String(gameId),
+    playdate: date,
+    length: length ?? 0,
+    quantity: String(quantity ?? 1),
+    comments: comments ?? '',
+    players: bggPlayers,
+  };
+}
+
+async function handleLogPlay(req, res, cookies) {
+  const session = cookies[SESSION_COOKIE];
+  if (!session) {
+    return res.status(401).json({ error: 'Log in to BoardGameGeek to log plays' });
+  }
+
+  const payload = buildPlayPayload(req.body);
+  if (typeof payload === 'string') {
+    return res.status(400).json({ error: payload });
+  }
+
+  const response = await fetch(`${BGG_BASE_URL}/geekplay.php`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Cookie: session,
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const result = await response.json().catch(() => null);
+
+  if (!response.ok || !result || result.error || !result.playid) {
+    // BGG answers an expired session with an error message rather than a 401
+    const status = response.status >= 500 ? 502 : 401;
+    return res.status(status).json({
+      error: result?.error || 'BoardGameGeek did not accept the play',
+    });
+  }
+
+  const username = cookies[USER_COOKIE];
+  if (username) invalidateUserCache(username);
+
+  return res.status(200).json({ playId: String(result.playid), numPlays: result.numplays });
+}
+
+/**
+ * Write path: play logging and the BGG session it needs
+ * POST /api/bgg?action=login|logout|logplay
+ */
+async function handlePost(req, res) {
+  if (!isSameOriginRequest(req)) {
+    return res.status(403).json({ error: 'Cross-site request rejected' });
+  }
+
+  const cookies = parseCookies(req.headers.cookie);
+  const { action } = req.query;
+
+  // Login starts a session, so there is no CSRF token to check yet
+  if (action !== 'login' && !hasValidCsrfToken(req, cookies)) {
+    return res.status(403).json({ error: 'Invalid CSRF token' });
+  }
+
+  try {
+    switch (action) {
+      case 'login':
+        return await handleLogin(req, res);
+      case 'logout':
+        return handleLogout(req, res);
+      case 'logplay':
+        return await handleLogPlay(req, res, cookies);
+      default:
+        return res.status(400).json({ error: 'Unknown action' });
+    }
+  } catch (error) {
+    console.error('BGG API proxy error:', error);
+    return res.status(500).json({ error: 'Failed to reach BoardGameGeek' });
+  }
+}
+
+/**
+ * Check a read against the allowlist
+ * Returns null when it's allowed, otherwise a structured error for the 400 response
+ */
+function validateReadRequest(endpoint, queryParams) {
+  if (typeof endpoint !== 'string' || !Object.hasOwn(ENDPOINTS, endpoint)) {
+    return {
+      code: 'unknown_endpoint',
+      message: `Unsupported endpoint, expected one of: ${Object.keys(ENDPOINTS).join(', ')}`,
+      param: 'endpoint',
+    };
+  }
+
+  const schema = ENDPOINTS[endpoint];
+
+  for (const [param, value] of Object.entries(queryParams)) {
+    if (!Object.hasOwn(schema.params, param)) {
+      return { code: 'unknown_parameter', message: `Parameter "${param}" is not allowed for ${endpoint}`, param };
+    }
+    // A repeated parameter arrives as an array
+    if (typeof value !== 'string') {
+      return { code: 'invalid_parameter', message: `Parameter "${param}" must be given once`, param };
+    }
+    if (!schema.params[param].test(value)) {
+      return { code: 'invalid_parameter', message: `Parameter "${param}" has an invalid value`, param };
+    }
+  }
+
+  const missing = (schema.required || []).find((param) => !queryParams[param]);
+  if (missing) {
+    return { code: 'missing_parameter', message: `Parameter "${missing}" is required for ${endpoint}`, param: missing };
+  }
+
+  if (schema.requiredOneOf && !schema.requiredOneOf.some((param) => queryParams[param])) {
+    return {
+      code: 'missing_parameter',
+      message: `One of ${schema.requiredOneOf.map((param) => `"${param}"`).join(', ')} is required for ${endpoint}`,
+      param: schema.requiredOneOf[0],
+    };
+  }
+
+  return null;
+}
+
+/*
+ * Read path cache
+ * Kept in memory, so it lives as long as the function instance does; the
+ * Cache-Control header also lets the CDN cache shared responses across instances.
+ */
+const responseCache = new Map(); // key -> { status, body, expiresAt }
+const inflightRequests = new Map(); // key -> Promise of an upstream response
+let outboundQueue = Promise.resolve();
+let lastRequestAt = 0;
+
+/**
+ * Cache key for a read: the endpoint and its parameters in a stable order
+ */
+function getCacheKey(endpoint, queryParams) {
+  const params = new URLSearchParams(queryParams);
+  params.sort();
+  return `${endpoint}?${params.toString()}`;
+}
+
+function readCache(key) {
+  const entry = responseCache.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    responseCache.delete(key);
+    return null;
+  }
+  return entry;
+}
+
+function writeCache(key, entry) {
+  // Maps iterate in insertion order, so the first key is the oldest
+  if (responseCache.size >= MAX_CACHE_ENTRIES) {
+    responseCache.delete(responseCache.keys().next().value);
+  }
+  responseCache.set(key, entry);
+}
+
+/**
+ * Drop a user's cached plays and collection after they log a play
+ */
+function invalidateUserCache(username) {
+  const name = username.toLowerCase();
+  for (const key of responseCache.keys()) {
+    const [endpoint, query] = key.split('?');
+    if (
+      (endpoint === 'plays' || endpoint === 'collection') &&
+      new URLSearchParams(query).get('username')?.toLowerCase() === name
+    ) {
+      responseCache.delete(key);
+    }
+  }
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run outbound requests one at a time, at least REQUEST_SPACING_MS apart
+ */
+function enqueueRequest(task) {
+  const run = outboundQueue.then(async () => {
+    const wait = lastRequestAt + REQUEST_SPACING_MS - Date.now();
+    if (wait > 0) await sleep(wait);
+    lastRequestAt = Date.now();
+    return task();
+  });
+  // Keep the queue going when a request fails
+  outboundQueue = run.catch(() => undefined);
+  return run;
+}
+
+async function fetchFromBgg(url) {
+  const response = await fetch(url, {
+    headers: {
+      'Authorization': `Bearer ${process.env.BGG_API_TOKEN}`,
+    },
+  });
+
+  return {
+    status: response.status,
+    body: await response.text(),
+    retryAfter: response.headers.get('retry-after'),
+  };
+}
+
+/**
+ * Fetch a read from BGG, sharing one upstream request between identical concurrent reads
+ */
+function fetchCollapsed(key, url) {
+  const inflight = inflightRequests.get(key);
+  if (inflight) return inflight;
+
+  const request = enqueueRequest(() => fetchFromBgg(url)).finally(() => {
+    inflightRequests.delete(key);
+  });
+  inflightRequests.set(key, request);
+  return request;
+}
+
+/**
+ * Cache-Control for a successful read (see SHARED_CACHE_ENDPOINTS)
+ */
+function cacheControl(endpoint, maxAge) {
+  return SHARED_CACHE_ENDPOINTS.has(endpoint) ? `public, s-maxage=${maxAge}` : 'private, no-store';
+}
+
+function sendXml(res, status, body) {
+  res.status(status);
+  res.setHeader('Content-Type', 'application/xml');
+  res.send(body);
+}
+
 export default async function handler(req, res) {
-  // Only allow GET requests
+  if (req.method === 'POST') {
+    return handlePost(req, res);
+  }
+
+  // Only allow GET requests on the read path
   if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET, POST');
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
@@ -8,13 +539,30 @@ export default async function handler(req, res) {
   const { endpoint, ...queryParams } = req.query;
 
   if (!endpoint) {
-    return res.status(400).json({ error: 'Missing endpoint parameter' });
+    return res.status(400).json({
+      error: { code: 'missing_parameter', message: 'Missing endpoint parameter', param: 'endpoint' },
+    });
+  }
+
+  const validationError = validateReadRequest(endpoint, queryParams);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+
+  const ttl = CACHE_TTLS[endpoint] ?? DEFAULT_CACHE_TTL;
+  const key = getCacheKey(endpoint, queryParams);
+
+  const cached = readCache(key);
+  if (cached) {
+    res.setHeader('X-Cache', 'HIT');
+    res.setHeader('Cache-Control', cacheControl(endpoint, Math.ceil((cached.expiresAt - Date.now()) / 1000)));
+    return sendXml(res, cached.status, cached.body);
   }
 
   // Construct BGG API URL
   // The endpoint parameter contains the path (e.g., "collection")
   // All other query parameters should be passed to BGG
-  let url = `https://boardgamegeek.com/xmlapi2/${endpoint}`;
+  let url = `${BGG_BASE_URL}/xmlapi2/${endpoint}`;
 
   // Build query string from all other parameters
   const queryString = new URLSearchParams(queryParams).toString();
@@ -22,23 +570,23 @@ export default async function handler(req, res) {
     url += `?${queryString}`;
   }
 
-  console.log('BGG Proxy URL:', url); // Debug logging
-
   try {
-    const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${process.env.BGG_API_TOKEN}`,
-      },
-    });
+    const { status, body, retryAfter } = await fetchCollapsed(key, url);
 
-    const data = await response.text();
+    res.setHeader('X-Cache', 'MISS');
 
-    console.log('BGG Response Status:', response.status); // Debug logging
+    if (status === 200) {
+      writeCache(key, { status, body, expiresAt: Date.now() + ttl * 1000 });
+      res.setHeader('Cache-Control', cacheControl(endpoint, ttl));
+    } else {
+      // 202 (collection being prepared) and 429 (rate limited) tell the app when to retry
+      if (status === 202 || status === 429) {
+        res.setHeader('Retry-After', retryAfter || String(DEFAULT_RETRY_AFTER[status]));
+      }
+      res.setHeader('Cache-Control', 'no-store');
+    }
 
-    // Forward the status code and content type
-    res.status(response.status);
-    res.setHeader('Content-Type', 'application/xml');
-    res.send(data);
+    sendXml(res, status, body);
   } catch (error) {
     console.error('BGG API proxy error:', error);
     res.status(500).json({ error: 'Failed to fetch from BGG API' });
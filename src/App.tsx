@@ -2,18 +2,49 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/ThemeProvider";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { OfflineBanner } from "@/components/OfflineBanner";
+import { QueryClient } from "@tanstack/react-query";
+import { PersistQueryClientProvider } from "@tanstack/react-query-persist-client";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { Analytics } from "@vercel/analytics/react";
 import Welcome from "./pages/Welcome";
 import Collection from "./pages/Collection";
 import GameDetail from "./pages/GameDetail";
+import GameNight from "./pages/GameNight";
+import Plays from "./pages/Plays";
+import Players from "./pages/Players";
+import Search from "./pages/Search";
+import Discover from "./pages/Discover";
+import Stats from "./pages/Stats";
 import NotFound from "./pages/NotFound";
+import {
+  createIndexedDbPersister,
+  shouldPersistQuery,
+  CACHE_SCHEMA_VERSION,
+  MAX_CACHE_TTL,
+} from "@/lib/query-persister";
 
-const queryClient = new QueryClient();
+// "offlineFirst" lets queries reach the service worker's cache instead of pausing while offline
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      networkMode: "offlineFirst",
+    },
+  },
+});
+
+// Persist BGG data to IndexedDB so reloads render instantly and revalidate in the background
+const persistOptions = {
+  persister: createIndexedDbPersister(),
+  maxAge: MAX_CACHE_TTL,
+  buster: String(CACHE_SCHEMA_VERSION),
+  dehydrateOptions: {
+    shouldDehydrateQuery: shouldPersistQuery,
+  },
+};
 
 const App = () => (
-  <QueryClientProvider client={queryClient}>
+  <PersistQueryClientProvider client={queryClient} persistOptions={persistOptions}>
     <ThemeProvider attribute="class" defaultTheme="dark" enableSystem>
       <TooltipProvider>
         <Toaster />
@@ -23,13 +54,20 @@ const App = () => (
             <Route path="/" element={<Welcome />} />
             <Route path="/collection/:username?" element={<Collection />} />
             <Route path="/game/:id" element={<GameDetail />} />
+            <Route path="/game-night/:usernames?" element={<GameNight />} />
+            <Route path="/plays/:username?" element={<Plays />} />
+            <Route path="/players/:username?" element={<Players />} />
+            <Route path="/stats/:username?" element={<Stats />} />
+            <Route path="/search" element={<Search />} />
+            <Route path="/discover" element={<Discover />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
+          <OfflineBanner />
         </BrowserRouter>
         <Analytics />
       </TooltipProvider>
     </ThemeProvider>
-  </QueryClientProvider>
+  </PersistQueryClientProvider>
 );
 
 export default App;
@@ -0,0 +1,314 @@
+import { useState } from "react";
+import { FilterState, MatchMode, PlayedFilter, StatusFlag } from "@/types/game";
+import { DEFAULT_FILTERS, toggleFilterValue, type FilterOptions } from "@/lib/game-filters";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Minus, Plus, X } from "lucide-react";
+
+interface AdvancedFiltersProps {
+  filters: FilterState;
+  onFiltersChange: (filters: FilterState) => void;
+  options: FilterOptions;
+}
+
+const MIN_WEIGHT = 1;
+const MAX_WEIGHT = 5;
+const MAX_RATING = 9;
+
+const statusFlagOptions: { value: StatusFlag; label: string }[] = [
+  { value: "owned", label: "Owned" },
+  { value: "preordered", label: "Preordered" },
+  { value: "forTrade", label: "For trade" },
+  { value: "want", label: "Want in trade" },
+  { value: "wantToPlay", label: "Want to play" },
+  { value: "wantToBuy", label: "Want to buy" },
+  { value: "wishlist", label: "Wishlist" },
+  { value: "previouslyOwned", label: "Previously owned" },
+];
+
+const playedOptions: { value: Exclude<PlayedFilter, "any">; label: string }[] = [
+  { value: "played", label: "Played" },
+  { value: "unplayed", label: "Never played" },
+];
+
+const chipClass = (active: boolean, tone: "include" | "exclude" = "include") => {
+  if (!active) return "bg-muted text-foreground hover:bg-muted/80";
+  return tone === "include"
+    ? "bg-primary text-primary-foreground"
+    : "bg-destructive text-destructive-foreground line-through";
+};
+
+const SectionLabel = ({ children }: { children: React.ReactNode }) => (
+  <label className="text-sm font-medium text-muted-foreground">{children}</label>
+);
+
+/**
+ * Chips that cycle between neutral, included and excluded on click
+ */
+const IncludeExcludeChips = ({
+  values,
+  included,
+  excluded,
+  onChange,
+  placeholder,
+}: {
+  values: string[];
+  included: string[];
+  excluded: string[];
+  onChange: (included: string[], excluded: string[]) => void;
+  placeholder: string;
+}) => {
+  const [search, setSearch] = useState("");
+  const query = search.toLowerCase();
+  // Selected values stay visible while searching
+  const visible = values.filter(
+    (value) => included.includes(value) || excluded.includes(value) || value.toLowerCase().includes(query)
+  );
+
+  const cycle = (value: string) => {
+    if (included.includes(value)) {
+      onChange(toggleFilterValue(included, value), [...excluded, value]);
+    } else if (excluded.includes(value)) {
+      onChange(included, toggleFilterValue(excluded, value));
+    } else {
+      onChange([...included, value], excluded);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Input
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+        placeholder={placeholder}
+        className="h-8 bg-muted/50"
+      />
+      <div className="flex flex-wrap gap-1.5 max-h-36 overflow-y-auto">
+        {visible.map((value) => {
+          const isIncluded = included.includes(value);
+          const isExcluded = excluded.includes(value);
+          return (
+            <button
+              key={value}
+              type="button"
+              onClick={() => cycle(value)}
+              className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${chipClass(
+                isIncluded || isExcluded,
+                isExcluded ? "exclude" : "include"
+              )}`}
+              title={isIncluded ? "Required (click to exclude)" : isExcluded ? "Excluded (click to clear)" : "Click to require"}
+            >
+              {isIncluded && <Plus className="w-3 h-3" />}
+              {isExcluded && <Minus className="w-3 h-3" />}
+              {value}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export function AdvancedFilters({ filters, onFiltersChange, options }: AdvancedFiltersProps) {
+  const update = (changes: Partial<FilterState>) => {
+    onFiltersChange({ ...filters, ...changes });
+  };
+
+  const parseYear = (value: string) => {
+    const year = parseInt(value, 10);
+    return Number.isNaN(year) ? null : year;
+  };
+
+  const weightRange = [filters.minWeight ?? MIN_WEIGHT, filters.maxWeight ?? MAX_WEIGHT];
+
+  // Keep the filters from the header sentence, reset everything else
+  const handleClear = () => {
+    const { playerCount, playerCountMode, minPlaytime, maxPlaytime, includeExpansions, searchQuery } = filters;
+    onFiltersChange({
+      ...DEFAULT_FILTERS,
+      playerCount,
+      playerCountMode,
+      minPlaytime,
+      maxPlaytime,
+      includeExpansions,
+      searchQuery,
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Categories */}
+      {options.categories.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <SectionLabel>Categories</SectionLabel>
+            <div className="flex rounded-full bg-muted p-0.5 text-xs">
+              {(["any", "all"] as MatchMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => update({ categoryMode: mode })}
+                  className={`px-2.5 py-0.5 rounded-full transition-colors ${
+                    filters.categoryMode === mode ? "bg-card text-foreground shadow-sm" : "text-muted-foreground"
+                  }`}
+                >
+                  {mode === "any" ? "Any of" : "All of"}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-1.5 max-h-36 overflow-y-auto">
+            {options.categories.map((category) => (
+              <button
+                key={category}
+                type="button"
+                onClick={() => update({ categories: toggleFilterValue(filters.categories, category) })}
+                className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${chipClass(
+                  filters.categories.includes(category)
+                )}`}
+              >
+                {category}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Mechanics */}
+      {options.mechanics.length > 0 && (
+        <div className="space-y-2">
+          <SectionLabel>Mechanics</SectionLabel>
+          <IncludeExcludeChips
+            values={options.mechanics}
+            included={filters.includeMechanics}
+            excluded={filters.excludeMechanics}
+            onChange={(includeMechanics, excludeMechanics) => update({ includeMechanics, excludeMechanics })}
+            placeholder="Search mechanics..."
+          />
+        </div>
+      )}
+
+      {/* Designers */}
+      {options.designers.length > 0 && (
+        <div className="space-y-2">
+          <SectionLabel>Designers</SectionLabel>
+          <IncludeExcludeChips
+            values={options.designers}
+            included={filters.includeDesigners}
+            excluded={filters.excludeDesigners}
+            onChange={(includeDesigners, excludeDesigners) => update({ includeDesigners, excludeDesigners })}
+            placeholder="Search designers..."
+          />
+        </div>
+      )}
+
+      {/* Weight */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <SectionLabel>Complexity</SectionLabel>
+          <span className="text-xs text-muted-foreground">
+            {weightRange[0].toFixed(1)} - {weightRange[1].toFixed(1)}
+          </span>
+        </div>
+        <Slider
+          min={MIN_WEIGHT}
+          max={MAX_WEIGHT}
+          step={0.1}
+          value={weightRange}
+          onValueChange={([min, max]) =>
+            update({
+              minWeight: min > MIN_WEIGHT ? min : null,
+              maxWeight: max < MAX_WEIGHT ? max : null,
+            })
+          }
+        />
+      </div>
+
+      {/* Year */}
+      <div className="space-y-2">
+        <SectionLabel>Published</SectionLabel>
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            value={filters.minYear ?? ""}
+            onChange={(e) => update({ minYear: parseYear(e.target.value) })}
+            placeholder="From"
+            className="h-8"
+          />
+          <span className="text-muted-foreground">-</span>
+          <Input
+            type="number"
+            value={filters.maxYear ?? ""}
+            onChange={(e) => update({ maxYear: parseYear(e.target.value) })}
+            placeholder="To"
+            className="h-8"
+          />
+        </div>
+      </div>
+
+      {/* Rating */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <SectionLabel>Minimum BGG rating</SectionLabel>
+          <span className="text-xs text-muted-foreground">
+            {filters.minRating !== null ? `${filters.minRating.toFixed(1)}+` : "Any"}
+          </span>
+        </div>
+        <Slider
+          min={0}
+          max={MAX_RATING}
+          step={0.5}
+          value={[filters.minRating ?? 0]}
+          onValueChange={([value]) => update({ minRating: value > 0 ? value : null })}
+        />
+      </div>
+
+      {/* Plays */}
+      <div className="space-y-2">
+        <SectionLabel>Plays</SectionLabel>
+        <div className="flex flex-wrap gap-1.5">
+          {playedOptions.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => update({ played: filters.played === option.value ? "any" : option.value })}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${chipClass(
+                filters.played === option.value
+              )}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Collection status */}
+      <div className="space-y-2">
+        <SectionLabel>Collection status</SectionLabel>
+        <div className="flex flex-wrap gap-1.5">
+          {statusFlagOptions.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => update({ statusFlags: toggleFilterValue(filters.statusFlags, option.value) })}
+              className={`px-2.5 py-1 rounded-full text-xs font-medium transition-colors ${chipClass(
+                filters.statusFlags.includes(option.value)
+              )}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={handleClear}
+        className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-destructive transition-colors"
+      >
+        <X className="w-3.5 h-3.5" />
+        Clear these filters
+      </button>
+    </div>
+  );
+}
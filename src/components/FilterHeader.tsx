@@ -1,5 +1,5 @@
-import { FilterState, SortOption, SortDirection } from "@/types/game";
-import { X, Filter, Shuffle, ArrowUp, ArrowDown, Dice6, Search, Moon, Sun } from "lucide-react";
+import { CollectionStatusView, FilterState, SortOption, SortDirection, PlayerCountMode } from "@/types/game";
+import { X, Filter, Shuffle, ArrowUp, ArrowDown, Dice6, Search, Moon, Sun, History, SlidersHorizontal, Globe, Flame, BarChart3 } from "lucide-react";
 import { Link, useNavigate } from "react-router-dom";
 import { useState, useEffect } from "react";
 import { useTheme } from "next-themes";
@@ -12,9 +12,15 @@ import {
 } from "@/components/ui/select";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { AdvancedFilters } from "@/components/AdvancedFilters";
+import { countAdvancedFilters, type FilterOptions } from "@/lib/game-filters";
 
 interface FilterHeaderProps {
   username: string;
+  collectionStatus?: CollectionStatusView;
+  onCollectionStatusChange?: (status: CollectionStatusView) => void;
   filters: FilterState;
   sortBy: SortOption;
   sortDirection: SortDirection;
@@ -23,11 +29,21 @@ interface FilterHeaderProps {
   onSortDirectionToggle: () => void;
   totalGames: number;
   filteredCount: number;
-  availableCategories?: string[];
+  filterOptions?: FilterOptions;
   onReshuffle?: () => void;
   onPickRandom?: () => void;
+  playsUrl?: string;
+  statsUrl?: string;
 }
 
+const collectionStatusOptions: { value: CollectionStatusView; label: string }[] = [
+  { value: "owned", label: "my games" },
+  { value: "wishlist", label: "my wishlist" },
+  { value: "wantToPlay", label: "my want to play list" },
+  { value: "forTrade", label: "my games for trade" },
+  { value: "previouslyOwned", label: "games I used to own" },
+];
+
 const playtimeOptions = [
   { value: "any", label: "any time" },
   { value: "0-30", label: "30 minutes or less" },
@@ -52,6 +68,17 @@ const playerOptions = [
   { value: "8", label: "8+ players" },
 ];
 
+const playerCountModeOptions: { value: PlayerCountMode; label: string }[] = [
+  { value: "supports", label: "that it supports" },
+  { value: "recommended", label: "where it's recommended" },
+  { value: "best", label: "where it's best" },
+];
+
+const expansionOptions = [
+  { value: "base", label: "base game only" },
+  { value: "expansions", label: "counting my expansions" },
+];
+
 const sortOptions: { value: SortOption; label: string }[] = [
   { value: "user-rating", label: "my favorites" },
   { value: "rating", label: "rating" },
@@ -60,11 +87,39 @@ const sortOptions: { value: SortOption; label: string }[] = [
   { value: "complexity", label: "complexity" },
   { value: "plays", label: "times played" },
   { value: "last-played", label: "last played" },
+  { value: "wishlist-priority", label: "wishlist priority" },
   { value: "random", label: "random" },
 ];
 
+const EMPTY_FILTER_OPTIONS: FilterOptions = { categories: [], mechanics: [], designers: [] };
+
+const InlineSelect = ({ 
+  value, 
+  onValueChange, 
+  options 
+}: { 
+  value: string; 
+  onValueChange: (value: string) => void; 
+  options: { value: string; label: string }[] 
+}) => (
+  <Select value={value} onValueChange={onValueChange}>
+    <SelectTrigger className="inline-flex w-auto h-auto px-2 py-0.5 border-0 bg-secondary rounded-full shadow-none text-primary font-medium text-base hover:bg-secondary/80 transition-colors focus:ring-0 focus:ring-offset-0 gap-1 [&>svg]:w-3.5 [&>svg]:h-3.5 [&>svg]:opacity-70">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent className="bg-card border-border shadow-elevated z-50 rounded-xl">
+      {options.map((option) => (
+        <SelectItem key={option.value} value={option.value} className="cursor-pointer rounded-lg">
+          {option.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
 export function FilterHeader({
   username,
+  collectionStatus = "owned",
+  onCollectionStatusChange,
   filters,
   sortBy,
   sortDirection,
@@ -73,17 +128,27 @@ export function FilterHeader({
   onSortDirectionToggle,
   totalGames,
   filteredCount,
-  availableCategories = [],
+  filterOptions = EMPTY_FILTER_OPTIONS,
   onReshuffle,
   onPickRandom,
+  playsUrl,
+  statsUrl,
 }: FilterHeaderProps) {
   const navigate = useNavigate();
   const { theme, setTheme } = useTheme();
   const [isMobileFilterOpen, setIsMobileFilterOpen] = useState(false);
   const [searchInput, setSearchInput] = useState(filters.searchQuery || "");
+  const [isAdvancedOpen, setIsAdvancedOpen] = useState(false);
+
+  const availableCategories = filterOptions.categories;
+  const advancedFilterCount = countAdvancedFilters(filters);
 
   // Check if current sort is directional (supports asc/desc toggle) - all except random
   const isDirectional = sortBy !== 'random';
+  // Wishlist priority only means something in the wishlist
+  const visibleSortOptions = sortOptions.filter(
+    (option) => option.value !== "wishlist-priority" || collectionStatus === "wishlist"
+  );
 
   const handleSearchChange = (value: string) => {
     setSearchInput(value);
@@ -110,6 +175,20 @@ export function FilterHeader({
     });
   };
 
+  const handlePlayerCountModeChange = (value: string) => {
+    onFiltersChange({
+      ...filters,
+      playerCountMode: value as PlayerCountMode,
+    });
+  };
+
+  const handleIncludeExpansionsChange = (includeExpansions: boolean) => {
+    onFiltersChange({
+      ...filters,
+      includeExpansions,
+    });
+  };
+
   const handlePlaytimeChange = (value: string) => {
     if (value === "any") {
       onFiltersChange({
@@ -130,7 +209,7 @@ export function FilterHeader({
   const handleCategoryChange = (category: string) => {
     onFiltersChange({
       ...filters,
-      category: category === "_all_categories" ? null : category,
+      categories: category === "_all_categories" ? [] : [category],
     });
   };
 
@@ -139,33 +218,16 @@ export function FilterHeader({
     return `${filters.minPlaytime || 0}-${filters.maxPlaytime || 999}`;
   };
 
+  // Expansions only matter when a player count or playtime filter is active
+  const hasRangeFilter = filters.playerCount !== null ||
+    filters.minPlaytime !== null ||
+    filters.maxPlaytime !== null;
+
   const getCategoryValue = () => {
-    return filters.category || "_all_categories";
+    // Several categories are shown as a count instead of a single selection
+    return filters.categories.length === 1 ? filters.categories[0] : "_all_categories";
   };
 
-  const InlineSelect = ({ 
-    value, 
-    onValueChange, 
-    options 
-  }: { 
-    value: string; 
-    onValueChange: (value: string) => void; 
-    options: { value: string; label: string }[] 
-  }) => (
-    <Select value={value} onValueChange={onValueChange}>
-      <SelectTrigger className="inline-flex w-auto h-auto px-2 py-0.5 border-0 bg-secondary rounded-full shadow-none text-primary font-medium text-base hover:bg-secondary/80 transition-colors focus:ring-0 focus:ring-offset-0 gap-1 [&>svg]:w-3.5 [&>svg]:h-3.5 [&>svg]:opacity-70">
-        <SelectValue />
-      </SelectTrigger>
-      <SelectContent className="bg-card border-border shadow-elevated z-50 rounded-xl">
-        {options.map((option) => (
-          <SelectItem key={option.value} value={option.value} className="cursor-pointer rounded-lg">
-            {option.label}
-          </SelectItem>
-        ))}
-      </SelectContent>
-    </Select>
-  );
-
   return (
     <>
       <header className="bg-card/80 backdrop-blur-md border-b border-border sticky top-0 z-50">
@@ -185,7 +247,17 @@ export function FilterHeader({
             <div className="hidden md:flex flex-col items-center gap-2 flex-1">
               {/* Filter Sentence - Desktop */}
               <p className="text-base text-foreground leading-relaxed flex flex-wrap items-center justify-center gap-1.5">
-                <span className="text-muted-foreground -ml-1.5">I want to play</span>
+                {onCollectionStatusChange && (
+                  <>
+                    <span className="text-muted-foreground -ml-1.5">From</span>
+                    <InlineSelect
+                      value={collectionStatus}
+                      onValueChange={(v) => onCollectionStatusChange(v as CollectionStatusView)}
+                      options={collectionStatusOptions}
+                    />
+                  </>
+                )}
+                <span className={`text-muted-foreground ${onCollectionStatusChange ? "" : "-ml-1.5"}`}>I want to play</span>
                 <div className="relative w-36">
                   <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-primary" />
                   <input
@@ -208,24 +280,47 @@ export function FilterHeader({
                   onValueChange={handlePlayerChange}
                   options={playerOptions}
                 />
+                {filters.playerCount !== null && (
+                  <InlineSelect
+                    value={filters.playerCountMode}
+                    onValueChange={handlePlayerCountModeChange}
+                    options={playerCountModeOptions}
+                  />
+                )}
+                {hasRangeFilter && (
+                  <InlineSelect
+                    value={filters.includeExpansions ? "expansions" : "base"}
+                    onValueChange={(v) => handleIncludeExpansionsChange(v === "expansions")}
+                    options={expansionOptions}
+                  />
+                )}
                 <span className="text-muted-foreground">with</span>
                 <span className="flex items-center gap-1">
-                  <Select value={getCategoryValue()} onValueChange={handleCategoryChange}>
-                    <SelectTrigger className="inline-flex w-auto h-auto px-2 py-0.5 border-0 bg-secondary rounded-full shadow-none text-primary font-medium text-base hover:bg-secondary/80 transition-colors focus:ring-0 focus:ring-offset-0 gap-1 [&>svg]:w-3.5 [&>svg]:h-3.5 [&>svg]:opacity-70">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent className="bg-card border-border shadow-elevated z-50 rounded-xl max-h-96 overflow-y-auto">
-                      <SelectItem value="_all_categories" className="cursor-pointer rounded-lg">
-                        any category
-                      </SelectItem>
-                      {availableCategories.map(cat => (
-                        <SelectItem key={cat} value={cat} className="cursor-pointer rounded-lg">
-                          {cat}
+                  {filters.categories.length > 1 ? (
+                    <button
+                      onClick={() => setIsAdvancedOpen(true)}
+                      className="px-2 py-0.5 bg-secondary hover:bg-secondary/80 rounded-full text-primary font-medium text-base transition-colors"
+                    >
+                      {filters.categoryMode === "all" ? "all of" : "any of"} {filters.categories.length} categories
+                    </button>
+                  ) : (
+                    <Select value={getCategoryValue()} onValueChange={handleCategoryChange}>
+                      <SelectTrigger className="inline-flex w-auto h-auto px-2 py-0.5 border-0 bg-secondary rounded-full shadow-none text-primary font-medium text-base hover:bg-secondary/80 transition-colors focus:ring-0 focus:ring-offset-0 gap-1 [&>svg]:w-3.5 [&>svg]:h-3.5 [&>svg]:opacity-70">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent className="bg-card border-border shadow-elevated z-50 rounded-xl max-h-96 overflow-y-auto">
+                        <SelectItem value="_all_categories" className="cursor-pointer rounded-lg">
+                          any category
                         </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
-                  {filters.category && (
+                        {availableCategories.map(cat => (
+                          <SelectItem key={cat} value={cat} className="cursor-pointer rounded-lg">
+                            {cat}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                  {filters.categories.length > 0 && (
                     <button
                       onClick={() => handleCategoryChange("_all_categories")}
                       className="flex items-center justify-center w-6 h-6 rounded-full bg-muted hover:bg-destructive/20 text-muted-foreground hover:text-destructive transition-colors self-center"
@@ -240,7 +335,7 @@ export function FilterHeader({
                   <InlineSelect
                     value={sortBy}
                     onValueChange={(v) => onSortChange(v as SortOption)}
-                    options={sortOptions}
+                    options={visibleSortOptions}
                   />
                   {isDirectional && (
                     <button
@@ -262,6 +357,24 @@ export function FilterHeader({
                     </button>
                   )}
                 </span>
+                <Popover open={isAdvancedOpen} onOpenChange={setIsAdvancedOpen}>
+                  <PopoverTrigger asChild>
+                    <button
+                      className="flex items-center gap-1 px-2 py-0.5 rounded-full text-sm text-muted-foreground hover:text-primary hover:bg-secondary transition-colors"
+                      title="More filters"
+                    >
+                      <SlidersHorizontal className="w-3.5 h-3.5" />
+                      {advancedFilterCount > 0 ? `${advancedFilterCount} more` : "more"}
+                    </button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-96 max-h-[70vh] overflow-y-auto bg-card border-border rounded-xl">
+                    <AdvancedFilters
+                      filters={filters}
+                      onFiltersChange={onFiltersChange}
+                      options={filterOptions}
+                    />
+                  </PopoverContent>
+                </Popover>
               </p>
             </div>
 
@@ -304,6 +417,38 @@ export function FilterHeader({
                   <span className="font-semibold text-foreground">{filteredCount}</span>
                   {filteredCount !== totalGames && <span>/{totalGames}</span>} games
                 </div>
+                {playsUrl && (
+                  <Link
+                    to={playsUrl}
+                    className="flex items-center justify-center w-7 h-7 rounded-lg text-muted-foreground hover:text-primary transition-colors"
+                    title="Play history"
+                  >
+                    <History className="w-3.5 h-3.5" />
+                  </Link>
+                )}
+                {statsUrl && (
+                  <Link
+                    to={statsUrl}
+                    className="flex items-center justify-center w-7 h-7 rounded-lg text-muted-foreground hover:text-primary transition-colors"
+                    title="Collection stats"
+                  >
+                    <BarChart3 className="w-3.5 h-3.5" />
+                  </Link>
+                )}
+                <Link
+                  to="/discover"
+                  className="flex items-center justify-center w-7 h-7 rounded-lg text-muted-foreground hover:text-primary transition-colors"
+                  title="Hot on BoardGameGeek"
+                >
+                  <Flame className="w-3.5 h-3.5" />
+                </Link>
+                <Link
+                  to="/search"
+                  className="flex items-center justify-center w-7 h-7 rounded-lg text-muted-foreground hover:text-primary transition-colors"
+                  title="Search BoardGameGeek"
+                >
+                  <Globe className="w-3.5 h-3.5" />
+                </Link>
                 <div className="theme-toggle-wrapper">
                   <ThemeToggle />
                 </div>
@@ -326,6 +471,38 @@ export function FilterHeader({
                   <span className="text-sm">Pick Random</span>
                 </button>
               )}
+              {playsUrl && (
+                <Link
+                  to={playsUrl}
+                  className="flex items-center justify-center w-9 h-9 rounded-full text-muted-foreground hover:text-primary hover:bg-secondary transition-colors"
+                  title="Play history"
+                >
+                  <History className="w-4 h-4" />
+                </Link>
+              )}
+              {statsUrl && (
+                <Link
+                  to={statsUrl}
+                  className="flex items-center justify-center w-9 h-9 rounded-full text-muted-foreground hover:text-primary hover:bg-secondary transition-colors"
+                  title="Collection stats"
+                >
+                  <BarChart3 className="w-4 h-4" />
+                </Link>
+              )}
+              <Link
+                to="/discover"
+                className="flex items-center justify-center w-9 h-9 rounded-full text-muted-foreground hover:text-primary hover:bg-secondary transition-colors"
+                title="Hot on BoardGameGeek"
+              >
+                <Flame className="w-4 h-4" />
+              </Link>
+              <Link
+                to="/search"
+                className="flex items-center justify-center w-9 h-9 rounded-full text-muted-foreground hover:text-primary hover:bg-secondary transition-colors"
+                title="Search BoardGameGeek"
+              >
+                <Globe className="w-4 h-4" />
+              </Link>
               <ThemeToggle />
             </div>
           </div>
@@ -354,6 +531,28 @@ export function FilterHeader({
             </div>
 
             <div className="p-4 space-y-6">
+              {/* Collection status */}
+              {onCollectionStatusChange && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-muted-foreground">Collection</label>
+                  <Select
+                    value={collectionStatus}
+                    onValueChange={(v) => onCollectionStatusChange(v as CollectionStatusView)}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border-border shadow-elevated z-50 rounded-xl">
+                      {collectionStatusOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value} className="cursor-pointer rounded-lg">
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
               {/* Search */}
               <div className="space-y-2">
                 <label className="text-sm font-medium text-muted-foreground">Search</label>
@@ -434,6 +633,32 @@ export function FilterHeader({
                     </button>
                   )}
                 </div>
+                {filters.playerCount !== null && (
+                  <Select value={filters.playerCountMode} onValueChange={handlePlayerCountModeChange}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-card border-border shadow-elevated z-50 rounded-xl">
+                      {playerCountModeOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value} className="cursor-pointer rounded-lg">
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+
+              {/* Expansions */}
+              <div className="flex items-center justify-between gap-4">
+                <label htmlFor="include-expansions" className="text-sm font-medium text-muted-foreground">
+                  Count owned expansions for players and playtime
+                </label>
+                <Switch
+                  id="include-expansions"
+                  checked={filters.includeExpansions}
+                  onCheckedChange={handleIncludeExpansionsChange}
+                />
               </div>
 
               {/* Category Filter */}
@@ -455,7 +680,7 @@ export function FilterHeader({
                       ))}
                     </SelectContent>
                   </Select>
-                  {filters.category && (
+                  {filters.categories.length > 0 && (
                     <button
                       onClick={() => handleCategoryChange("_all_categories")}
                       className="w-10 h-10 flex items-center justify-center rounded-lg bg-muted hover:bg-destructive/20 text-muted-foreground hover:text-destructive transition-colors"
@@ -467,6 +692,16 @@ export function FilterHeader({
                 </div>
               </div>
 
+              {/* More Filters */}
+              <div className="pt-4 border-t border-border">
+                <h3 className="text-lg font-semibold mb-3">More filters</h3>
+                <AdvancedFilters
+                  filters={filters}
+                  onFiltersChange={onFiltersChange}
+                  options={filterOptions}
+                />
+              </div>
+
               {/* Sort By */}
               <div className="space-y-2">
                 <label className="text-sm font-medium text-muted-foreground">Sort By</label>
@@ -477,7 +712,7 @@ export function FilterHeader({
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent className="bg-card border-border shadow-elevated z-50 rounded-xl max-h-96 overflow-y-auto">
-                        {sortOptions.map((option) => (
+                        {visibleSortOptions.map((option) => (
                           <SelectItem key={option.value} value={option.value} className="cursor-pointer rounded-lg">
                             {option.label}
                           </SelectItem>
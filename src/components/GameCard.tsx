@@ -1,16 +1,25 @@
 import { Game, SortOption } from "@/types/game";
-import { Star, Users, Clock, Heart, TrendingUp, Calendar, RotateCcw } from "lucide-react";
+import { Star, Users, Clock, Heart, TrendingUp, Calendar, RotateCcw, Puzzle, Gift } from "lucide-react";
 import { Link } from "react-router-dom";
 
+// BGG's names for the wishlist priorities
+const wishlistPriorityLabels: Record<number, string> = {
+  1: "Must have",
+  2: "Love to have",
+  3: "Like to have",
+  4: "Thinking about it",
+  5: "Don't buy this",
+};
+
 interface GameCardProps {
   game: Game;
   index: number;
   sortBy?: SortOption;
   onCategoryClick?: (category: string) => void;
-  selectedCategory?: string | null;
+  selectedCategories?: string[];
 }
 
-export function GameCard({ game, index, sortBy, onCategoryClick, selectedCategory }: GameCardProps) {
+export function GameCard({ game, index, sortBy, onCategoryClick, selectedCategories = [] }: GameCardProps) {
   const formatPlaytime = (min: number, max: number) => {
     if (min === max) return `${min}m`;
     return `${min}-${max}m`;
@@ -71,6 +80,14 @@ export function GameCard({ game, index, sortBy, onCategoryClick, selectedCategor
           }
         }
         break;
+      case 'wishlist-priority':
+        if (game.wishlistPriority) {
+          return {
+            icon: <Gift className="w-3 h-3" />,
+            value: wishlistPriorityLabels[game.wishlistPriority] ?? `Priority ${game.wishlistPriority}`,
+          };
+        }
+        break;
     }
     // For 'name', 'year', 'random' - no badge shown
     return null;
@@ -136,14 +153,33 @@ export function GameCard({ game, index, sortBy, onCategoryClick, selectedCategor
               <Clock className="w-3.5 h-3.5" />
               <span>{formatPlaytime(game.playtime.min, game.playtime.max)}</span>
             </div>
+            {game.expansions && game.expansions.length > 0 && (
+              <>
+                <span className="w-1 h-1 rounded-full dark:bg-white/40 bg-card-foreground/40" />
+                <div
+                  className="flex items-center gap-1"
+                  title={`Owned expansions: ${game.expansions.map((e) => e.name).join(", ")}`}
+                >
+                  <Puzzle className="w-3.5 h-3.5" />
+                  <span>+{game.expansions.length}</span>
+                </div>
+              </>
+            )}
           </div>
 
+          {/* Owners - when several collections are combined */}
+          {game.owners && game.owners.length > 0 && (
+            <p className="text-xs dark:text-white/80 text-black/80 mb-1.5 line-clamp-1">
+              Owned by {game.owners.join(", ")}
+            </p>
+          )}
+
           {/* Category Pills */}
           <div className="flex flex-wrap gap-1 min-h-[20px]">
             {game.categories && game.categories.length > 0 && (
               <>
                 {game.categories.slice(0, 3).map((category) => {
-                  const isSelected = selectedCategory === category;
+                  const isSelected = selectedCategories.includes(category);
                   return (
                     <button
                       key={category}
@@ -1,6 +1,9 @@
+import { useState } from "react";
 import { Game } from "@/types/game";
-import { X, Dice6, ExternalLink } from "lucide-react";
+import { X, Dice6, ExternalLink, NotebookPen, Check } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { LogPlayForm } from "@/components/LogPlayForm";
+import { SimilarGames } from "@/components/SimilarGames";
 
 interface GameModalProps {
   game: Game | null;
@@ -12,6 +15,9 @@ interface GameModalProps {
 
 export function GameModal({ game, isOpen, onClose, onPickAnother, bggUsername }: GameModalProps) {
   const navigate = useNavigate();
+  // Tracked per game so picking another game closes the form
+  const [loggingGameId, setLoggingGameId] = useState<string | null>(null);
+  const [loggedGameId, setLoggedGameId] = useState<string | null>(null);
 
   if (!isOpen || !game) return null;
 
@@ -55,6 +61,11 @@ export function GameModal({ game, isOpen, onClose, onPickAnother, bggUsername }:
               <div>
                 <h3 className="text-xl font-bold text-foreground mb-1">{game.name}</h3>
                 <p className="text-sm text-muted-foreground">{game.yearPublished}</p>
+                {game.owners && game.owners.length > 0 && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Owned by {game.owners.join(", ")}
+                  </p>
+                )}
               </div>
 
               {/* Stats */}
@@ -102,6 +113,56 @@ export function GameModal({ game, isOpen, onClose, onPickAnother, bggUsername }:
                 </div>
               )}
 
+              {/* Owned Expansions */}
+              {game.expansions && game.expansions.length > 0 && (
+                <div>
+                  <p className="text-xs text-muted-foreground mb-2">Your Expansions</p>
+                  <div className="flex flex-wrap gap-2">
+                    {game.expansions.map((expansion) => (
+                      <span
+                        key={expansion.collectionId}
+                        className="px-2.5 py-1 bg-muted text-foreground rounded-full text-xs font-medium"
+                      >
+                        {expansion.name}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Log Play */}
+              {loggingGameId === game.id ? (
+                <div className="bg-muted/30 rounded-xl p-4 border border-border">
+                  <p className="text-xs text-muted-foreground mb-3">Log a play on BoardGameGeek</p>
+                  <LogPlayForm
+                    key={game.id}
+                    game={game}
+                    bggUsername={bggUsername}
+                    onLogged={() => {
+                      setLoggingGameId(null);
+                      setLoggedGameId(game.id);
+                    }}
+                    onCancel={() => setLoggingGameId(null)}
+                  />
+                </div>
+              ) : loggedGameId === game.id ? (
+                <p className="flex items-center gap-2 text-sm text-primary">
+                  <Check className="w-4 h-4" />
+                  Play logged on BoardGameGeek
+                </p>
+              ) : (
+                <button
+                  onClick={() => setLoggingGameId(game.id)}
+                  className="inline-flex items-center gap-2 px-4 py-2 bg-muted hover:bg-muted/80 text-foreground rounded-xl text-sm font-medium transition-colors"
+                >
+                  <NotebookPen className="w-4 h-4" />
+                  Log play
+                </button>
+              )}
+
+              {/* Similar owned games */}
+              <SimilarGames game={game} bggUsername={bggUsername} limit={3} compact onSelect={onClose} />
+
               {/* Description */}
               {game.description && (
                 <div>
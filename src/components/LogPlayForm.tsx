@@ -0,0 +1,243 @@
+import { useState } from "react";
+import { Game } from "@/types/game";
+import { useBggLogin, useBggLogout, useLogPlay } from "@/hooks/use-bgg-api";
+import { getBggSessionUsername, type LogPlayInput } from "@/services/bgg-api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { AlertCircle, LogIn, Plus, RefreshCw, Trophy, X } from "lucide-react";
+
+type PlayerRow = LogPlayInput["players"][number];
+
+interface LogPlayFormProps {
+  game: Game;
+  bggUsername: string;
+  onLogged: () => void;
+  onCancel: () => void;
+}
+
+function today(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+export function LogPlayForm({ game, bggUsername, onLogged, onCancel }: LogPlayFormProps) {
+  const [sessionUsername, setSessionUsername] = useState(() => getBggSessionUsername());
+  const [loginUsername, setLoginUsername] = useState(bggUsername);
+  const [password, setPassword] = useState("");
+
+  const [date, setDate] = useState(today);
+  const [length, setLength] = useState(() => String(game.playtime.max || ""));
+  const [comments, setComments] = useState("");
+  const [players, setPlayers] = useState<PlayerRow[]>(() => [
+    { name: sessionUsername || bggUsername, username: sessionUsername || bggUsername },
+  ]);
+
+  const login = useBggLogin();
+  const logout = useBggLogout();
+  // BGG records the play for the logged-in user, so that's whose cached plays and
+  // collection change; the viewed collection only when it's theirs (under its own spelling)
+  const isOwnCollection = !!sessionUsername && sessionUsername.toLowerCase() === bggUsername.toLowerCase();
+  const logPlay = useLogPlay(isOwnCollection ? bggUsername : sessionUsername || "");
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!loginUsername.trim() || !password) return;
+    login.mutate(
+      { username: loginUsername, password },
+      {
+        onSuccess: (data) => {
+          setPassword("");
+          setSessionUsername(data.username);
+        },
+      }
+    );
+  };
+
+  const handleLogout = () => {
+    logout.mutate(undefined, {
+      onSuccess: () => setSessionUsername(null),
+    });
+  };
+
+  const updatePlayer = (index: number, changes: Partial<PlayerRow>) => {
+    setPlayers((prev) => prev.map((player, i) => (i === index ? { ...player, ...changes } : player)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const minutes = parseInt(length, 10);
+
+    logPlay.mutate(
+      {
+        gameId: game.id,
+        gameName: game.name,
+        date,
+        length: Number.isNaN(minutes) ? undefined : minutes,
+        comments: comments.trim() || undefined,
+        players: players
+          .filter((player) => player.name.trim() || player.username?.trim())
+          .map((player) => ({ ...player, score: player.score?.trim() || undefined })),
+      },
+      { onSuccess: onLogged }
+    );
+  };
+
+  if (!sessionUsername) {
+    return (
+      <form onSubmit={handleLogin} className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Log in to BoardGameGeek to record plays. Your password is only sent to BGG and is not stored.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Input
+            value={loginUsername}
+            onChange={(e) => setLoginUsername(e.target.value)}
+            placeholder="BGG username"
+            autoComplete="username"
+            maxLength={100}
+          />
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="BGG password"
+            autoComplete="current-password"
+          />
+        </div>
+        {login.error && (
+          <p className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="w-4 h-4" />
+            {login.error.message}
+          </p>
+        )}
+        <div className="flex gap-2">
+          <Button type="submit" disabled={login.isPending || !loginUsername.trim() || !password} className="gap-2">
+            {login.isPending ? <RefreshCw className="w-4 h-4 animate-spin" /> : <LogIn className="w-4 h-4" />}
+            Log in to BGG
+          </Button>
+          <Button type="button" variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+        <span>
+          Logging as <span className="font-medium text-foreground">{sessionUsername}</span>
+        </span>
+        <button
+          type="button"
+          onClick={handleLogout}
+          disabled={logout.isPending}
+          className="hover:text-foreground underline-offset-2 hover:underline"
+        >
+          Log out
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="space-y-1">
+          <span className="text-xs text-muted-foreground">Date</span>
+          <Input type="date" value={date} max={today()} onChange={(e) => setDate(e.target.value)} required />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs text-muted-foreground">Duration (min)</span>
+          <Input
+            type="number"
+            min={0}
+            value={length}
+            onChange={(e) => setLength(e.target.value)}
+          />
+        </label>
+      </div>
+
+      {/* Players */}
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">Players</p>
+        {players.map((player, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={player.name}
+              onChange={(e) => updatePlayer(index, { name: e.target.value })}
+              placeholder="Name"
+              className="flex-1 min-w-0"
+              maxLength={100}
+            />
+            <Input
+              value={player.username || ""}
+              onChange={(e) => updatePlayer(index, { username: e.target.value })}
+              placeholder="BGG username"
+              className="flex-1 min-w-0"
+              maxLength={100}
+            />
+            <Input
+              value={player.score || ""}
+              onChange={(e) => updatePlayer(index, { score: e.target.value })}
+              placeholder="Score"
+              className="w-20"
+              maxLength={20}
+            />
+            <label className="flex items-center gap-1.5 text-xs text-muted-foreground" title="Winner">
+              <Checkbox
+                checked={player.win === true}
+                onCheckedChange={(checked) => updatePlayer(index, { win: checked === true })}
+              />
+              <Trophy className="w-3.5 h-3.5" />
+            </label>
+            <button
+              type="button"
+              onClick={() => setPlayers((prev) => prev.filter((_, i) => i !== index))}
+              className="w-7 h-7 flex-shrink-0 flex items-center justify-center rounded-full hover:bg-destructive/20 text-muted-foreground hover:text-destructive transition-colors"
+              title="Remove player"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="gap-1"
+          onClick={() => setPlayers((prev) => [...prev, { name: "" }])}
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add player
+        </Button>
+      </div>
+
+      <Textarea
+        value={comments}
+        onChange={(e) => setComments(e.target.value)}
+        placeholder="Comments (optional)"
+        maxLength={5000}
+        rows={2}
+      />
+
+      {logPlay.error && (
+        <p className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="w-4 h-4" />
+          {logPlay.error.message}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={logPlay.isPending || !date} className="gap-2">
+          {logPlay.isPending && <RefreshCw className="w-4 h-4 animate-spin" />}
+          Save play
+        </Button>
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
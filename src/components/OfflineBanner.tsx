@@ -0,0 +1,26 @@
+import { formatDistanceToNow } from "date-fns";
+import { WifiOff } from "lucide-react";
+import { useConnectionStatus } from "@/hooks/use-connection-status";
+
+/**
+ * Shown while offline or while BGG data comes from the offline cache
+ */
+export function OfflineBanner() {
+  const { isOnline, isSnapshot, snapshotAt } = useConnectionStatus();
+
+  if (isOnline && !isSnapshot) return null;
+
+  const age = snapshotAt ? ` from ${formatDistanceToNow(snapshotAt, { addSuffix: true })}` : "";
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-4 inset-x-0 z-50 mx-auto w-fit max-w-[calc(100%-2rem)] flex items-center gap-2 px-4 py-2 rounded-full bg-card border border-border shadow-elevated text-sm text-muted-foreground animate-fade-in"
+    >
+      <WifiOff className="w-4 h-4 text-primary shrink-0" />
+      <span>
+        {isOnline ? "Can't reach BoardGameGeek" : "You're offline"} - showing saved data{age}
+      </span>
+    </div>
+  );
+}
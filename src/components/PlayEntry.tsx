@@ -0,0 +1,65 @@
+import { Link } from "react-router-dom";
+import type { PlayInfo } from "@/services/bgg-api";
+import { Clock, Sparkles, Trophy } from "lucide-react";
+
+interface PlayEntryProps {
+  play: PlayInfo;
+  username?: string;
+  showGame?: boolean;
+}
+
+export function PlayEntry({ play, username, showGame = false }: PlayEntryProps) {
+  const gameId = String(play.gameId);
+  const isPending = play.id.startsWith("pending-");
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-start gap-1 sm:gap-4 py-3">
+      <div className="sm:w-28 flex-shrink-0 text-sm text-muted-foreground">
+        {play.date.toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" })}
+      </div>
+
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className="flex items-center gap-2 flex-wrap">
+          {showGame && (
+            <Link
+              to={`/game/${gameId}${username ? `?username=${encodeURIComponent(username)}` : ""}`}
+              className="font-medium text-foreground hover:text-primary transition-colors"
+            >
+              {play.gameName || `Game ${gameId}`}
+            </Link>
+          )}
+          {play.quantity > 1 && (
+            <span className="text-xs text-muted-foreground">×{play.quantity}</span>
+          )}
+          {play.length ? (
+            <span className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+              <Clock className="w-3 h-3" />
+              {play.length} min
+            </span>
+          ) : null}
+          {isPending && <span className="text-xs text-muted-foreground">Saving...</span>}
+        </div>
+
+        {play.players && play.players.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {play.players.map((player, index) => (
+              <span
+                key={index}
+                className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs ${
+                  player.win ? "bg-primary/15 text-primary font-medium" : "bg-muted text-foreground"
+                }`}
+              >
+                {player.win && <Trophy className="w-3 h-3" />}
+                {player.name || player.username}
+                {player.score !== undefined && player.score !== "" && (
+                  <span className="text-muted-foreground">{player.score}</span>
+                )}
+                {player.new && <Sparkles className="w-3 h-3 text-gold" aria-label="First play" />}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { Link } from "react-router-dom";
+import { RefreshCw } from "lucide-react";
+import { useSimilarGames } from "@/hooks/use-similar-games";
+import { describeSimilarity } from "@/lib/similarity";
+import type { Game } from "@/types/game";
+
+interface SimilarGamesProps {
+  game: Game;
+  bggUsername: string;
+  limit?: number;
+  compact?: boolean; // smaller heading and thumbnails, for the game modal
+  className?: string;
+  onSelect?: () => void; // called before opening a suggested game
+}
+
+/**
+ * "If you like this": the owned games most similar to a game, each with why it was picked
+ * Renders nothing without a username, or once loaded when nothing on the shelf is similar
+ */
+export function SimilarGames({ game, bggUsername, limit = 5, compact = false, onSelect, className }: SimilarGamesProps) {
+  const { data: similarGames, isLoading } = useSimilarGames(game, bggUsername, limit);
+
+  if (!bggUsername || (!isLoading && similarGames.length === 0)) return null;
+
+  return (
+    <div className={className}>
+      {compact ? (
+        <p className="text-xs text-muted-foreground mb-2">If you like this</p>
+      ) : (
+        <h2 className="text-lg font-semibold mb-3">If you like this</h2>
+      )}
+      {similarGames.length === 0 ? (
+        <p className="flex items-center gap-2 text-sm text-muted-foreground">
+          <RefreshCw className="w-4 h-4 animate-spin" />
+          Looking through your collection...
+        </p>
+      ) : (
+        <ul className={compact ? "space-y-2" : "grid sm:grid-cols-2 gap-3"}>
+          {similarGames.map((match) => (
+            <li key={match.game.id}>
+              <Link
+                to={`/game/${match.game.id}`}
+                state={{ collectionGame: match.game }}
+                onClick={onSelect}
+                className="flex items-center gap-3 rounded-lg hover:bg-secondary/50 transition-colors"
+              >
+                {match.game.thumbnail && (
+                  <img
+                    src={match.game.thumbnail}
+                    alt={match.game.name}
+                    className={`${compact ? "w-10 h-10" : "w-12 h-12"} rounded-lg object-cover flex-shrink-0`}
+                  />
+                )}
+                <div className="min-w-0">
+                  <p className="font-medium text-sm line-clamp-1">{match.game.name}</p>
+                  <p className="text-xs text-muted-foreground line-clamp-2">{describeSimilarity(match)}</p>
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
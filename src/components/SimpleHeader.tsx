@@ -1,4 +1,5 @@
 import { Link } from "react-router-dom";
+import { Flame, Search } from "lucide-react";
 import { ThemeToggle } from "@/components/ThemeToggle";
 
 export function SimpleHeader() {
@@ -12,7 +13,23 @@ export function SimpleHeader() {
             className="h-7 md:h-12"
           />
         </Link>
-        <ThemeToggle />
+        <div className="flex items-center gap-2">
+          <Link
+            to="/discover"
+            className="flex items-center justify-center w-9 h-9 rounded-full text-muted-foreground hover:text-primary hover:bg-secondary transition-colors"
+            title="Hot on BoardGameGeek"
+          >
+            <Flame className="w-4 h-4" />
+          </Link>
+          <Link
+            to="/search"
+            className="flex items-center justify-center w-9 h-9 rounded-full text-muted-foreground hover:text-primary hover:bg-secondary transition-colors"
+            title="Search BoardGameGeek"
+          >
+            <Search className="w-4 h-4" />
+          </Link>
+          <ThemeToggle />
+        </div>
       </div>
     </header>
   );
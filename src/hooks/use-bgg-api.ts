@@ -3,20 +3,37 @@
  * Provides type-safe, cached, and optimized data fetching
  */
 
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useCallback, useState } from "react";
+import {
+  useQuery,
+  useQueries,
+  useMutation,
+  useQueryClient,
+  keepPreviousData,
+  type UseQueryResult,
+} from "@tanstack/react-query";
 import {
   validateUsername,
   getUserCollection,
-  getGamesInfo,
-  getGameInfo,
+  getUserExpansions,
   getAllUserPlays,
   getGamePlays,
+  searchGames,
+  getHotGames,
+  loginToBgg,
+  logoutFromBgg,
+  logPlay,
+  type LogPlayInput,
   type UserInfo,
   type CollectionGame,
   type GameInfo,
   type PlayInfo,
   type BggApiResult,
 } from "@/services/bgg-api";
+import type { BggRequestStatus } from "@/services/bgg-request";
+import { BggApiError, isBggError, type BggErrorKind } from "@/services/bgg-errors";
+import { CACHE_TTL } from "@/lib/query-persister";
+import { loadGameInfo } from "@/lib/game-info-loader";
 
 /**
  * Query keys for BGG API
@@ -24,12 +41,27 @@ import {
 export const bggQueryKeys = {
   user: (username: string) => ["bgg", "user", username] as const,
   collection: (username: string) => ["bgg", "collection", username] as const,
-  games: (gameIds: string[]) => ["bgg", "games", gameIds] as const,
+  expansions: (username: string) => ["bgg", "expansions", username] as const,
   game: (gameId: string) => ["bgg", "game", gameId] as const,
   plays: (username: string) => ["bgg", "plays", username] as const,
   gamePlays: (username: string, gameId: string) => ["bgg", "gamePlays", username, gameId] as const,
+  search: (query: string) => ["bgg", "search", query] as const,
+  hot: () => ["bgg", "hot"] as const,
 };
 
+// Failures another attempt won't fix. fetchWithRetry has already waited out
+// queued requests, and retried rate limits, server errors and network failures.
+const PERMANENT_ERRORS: BggErrorKind[] = ["NotFound", "Unauthorized", "ParseError", "BadRequest", "StillProcessing"];
+
+/**
+ * React Query retry callback: retry transient failures up to maxRetries times
+ * @param skipKinds Other kinds not to retry for this query
+ */
+function retryTransient(maxRetries: number, ...skipKinds: BggErrorKind[]) {
+  return (failureCount: number, error: Error) =>
+    !isBggError(error, ...PERMANENT_ERRORS, ...skipKinds) && failureCount < maxRetries;
+}
+
 /**
  * Hook to validate BGG username
  * Returns user info if valid, error if invalid
@@ -37,86 +69,183 @@ export const bggQueryKeys = {
 export function useValidateUsername(username: string, enabled: boolean = true) {
   return useQuery({
     queryKey: bggQueryKeys.user(username),
-    queryFn: async () => {
-      const result = await validateUsername(username);
+    queryFn: async ({ signal }) => {
+      const result = await validateUsername(username, { signal });
 
       if (!result.success) {
-        // Don't retry for 404/not found errors
-        const error = new Error(result.error);
-        (error as any).isNotFound = result.error.includes("not found");
-        throw error;
+        throw new BggApiError(result.error);
       }
 
       return result.data;
     },
     enabled: enabled && username.length > 0,
-    retry: (failureCount, error) => {
-      // Don't retry if user not found or other 4xx errors (permanent errors)
-      if (error instanceof Error) {
-        const err = error as any;
-        // Never retry not found errors
-        if (err.isNotFound || err.message.includes("not found") || err.message.includes("404")) {
-          return false;
-        }
-        // Never retry fetch failures (CORS, network errors) - these are usually permanent
-        if (err.message.includes("Failed to fetch") ||
-            err.message.includes("fetch") ||
-            err.message.includes("Network") ||
-            err.message.includes("CORS")) {
-          return false;
-        }
-        // Retry up to 1 time for other transient errors
-        return failureCount < 1;
-      }
-      return false;
-    },
+    // Retry once, but not network failures: the user gets to fix their connection and submit again
+    retry: retryTransient(1, "Network"),
     staleTime: 5 * 60 * 1000, // 5 minutes
-    gcTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: CACHE_TTL.user, // 7 days, persisted to IndexedDB
   });
 }
 
 /**
  * Hook to get user's collection
  * Returns all games owned by the user
+ *
+ * Also returns requestStatus while BGG has the collection queued (null otherwise)
+ * and cancel(), which aborts the request and any wait. A cancelled first load
+ * leaves the query without data or error and not fetching.
  */
 export function useUserCollection(username: string, enabled: boolean = true) {
-  return useQuery({
+  const queryClient = useQueryClient();
+  const [requestStatus, setRequestStatus] = useState<BggRequestStatus | null>(null);
+
+  const query = useQuery({
     queryKey: bggQueryKeys.collection(username),
-    queryFn: async () => {
-      const result = await getUserCollection(username);
+    queryFn: async ({ signal }) => {
+      try {
+        const result = await getUserCollection(username, { signal, onStatus: setRequestStatus });
 
-      if (!result.success) {
-        throw new Error(result.error);
-      }
+        if (!result.success) {
+          throw new BggApiError(result.error);
+        }
 
-      return result.data;
+        return result.data;
+      } finally {
+        setRequestStatus(null);
+      }
     },
     enabled: enabled && username.length > 0,
-    retry: 2, // BGG API may need retries
+    // BGG API may need retries, but a request that outlasted the queue wait won't finish sooner
+    retry: retryTransient(2),
     staleTime: 10 * 60 * 1000, // 10 minutes - collections don't change often
-    gcTime: 30 * 60 * 1000, // 30 minutes
+    gcTime: CACHE_TTL.collection, // 3 days
   });
+
+  const cancel = useCallback(() => {
+    queryClient.cancelQueries({ queryKey: bggQueryKeys.collection(username) });
+  }, [queryClient, username]);
+
+  return { ...query, requestStatus, cancel };
 }
 
+export type CollectionQueryResult = UseQueryResult<CollectionGame[]>;
+
 /**
- * Hook to get detailed info for multiple games
+ * Hook to get several users' collections at once (e.g. for game night)
+ * Each collection shares its cache entry with useUserCollection
+ * When disabled, collections already in the cache are still returned
+ * @param combine Shapes the results; its output keeps its identity while the results are unchanged
+ */
+export function useUserCollections<TCombined = CollectionQueryResult[]>(
+  usernames: string[],
+  {
+    enabled = true,
+    combine,
+  }: { enabled?: boolean; combine?: (results: CollectionQueryResult[]) => TCombined } = {}
+): TCombined {
+  return useQueries({
+    queries: usernames.map((username) => ({
+      queryKey: bggQueryKeys.collection(username),
+      queryFn: async ({ signal }) => {
+        const result = await getUserCollection(username, { signal });
+
+        if (result.success === false) {
+          throw new BggApiError(result.error);
+        }
+
+        return result.data;
+      },
+      retry: retryTransient(2), // BGG API may need retries
+      staleTime: 10 * 60 * 1000, // 10 minutes - collections don't change often
+      gcTime: CACHE_TTL.collection, // 3 days
+      enabled,
+    })),
+    combine,
+  });
+}
+
+/**
+ * Hook to get user's owned expansions
+ * Returned separately from the collection so base games stay the main list
  */
-export function useGamesInfo(gameIds: string[], enabled: boolean = true) {
+export function useUserExpansions(username: string, enabled: boolean = true) {
   return useQuery({
-    queryKey: bggQueryKeys.games(gameIds),
-    queryFn: async () => {
-      const result = await getGamesInfo(gameIds);
+    queryKey: bggQueryKeys.expansions(username),
+    queryFn: async ({ signal }) => {
+      const result = await getUserExpansions(username, { signal });
 
-      if (!result.success) {
-        throw new Error(result.error);
+      if (result.success === false) {
+        throw new BggApiError(result.error);
       }
 
       return result.data;
     },
-    enabled: enabled && gameIds.length > 0,
-    retry: 2,
-    staleTime: 60 * 60 * 1000, // 1 hour - game details rarely change
-    gcTime: 2 * 60 * 60 * 1000, // 2 hours
+    enabled: enabled && username.length > 0,
+    retry: retryTransient(2), // BGG API may need retries
+    staleTime: 10 * 60 * 1000, // 10 minutes - collections don't change often
+    gcTime: CACHE_TTL.collection, // 3 days
+  });
+}
+
+/**
+ * Fetch a single game's details through the batching loader
+ * Shared by the single and multiple game hooks so both use the same cache entry
+ */
+async function fetchGameInfo(gameId: string, signal?: AbortSignal): Promise<GameInfo> {
+  const info = await loadGameInfo(gameId, signal);
+
+  if (!info) {
+    throw new BggApiError({ kind: "NotFound", message: `Game with ID ${gameId} not found` });
+  }
+
+  return info;
+}
+
+const gameInfoQueryOptions = (gameId: string) => ({
+  queryKey: bggQueryKeys.game(gameId),
+  queryFn: ({ signal }: { signal: AbortSignal }) => fetchGameInfo(gameId, signal),
+  retry: retryTransient(2),
+  staleTime: 60 * 60 * 1000, // 1 hour - game details rarely change
+  gcTime: CACHE_TTL.thing, // 14 days
+});
+
+/**
+ * Combined state of the per-game detail queries
+ */
+export type GamesInfoState = {
+  data: GameInfo[]; // details loaded so far
+  isLoading: boolean; // some games are still waiting for their first load
+  loadedCount: number;
+  failedCount: number;
+  totalCount: number;
+};
+
+function combineGamesInfo(results: UseQueryResult<GameInfo, Error>[]): GamesInfoState {
+  const data = results
+    .map((result) => result.data)
+    .filter((info): info is GameInfo => !!info);
+
+  return {
+    data,
+    isLoading: results.some((result) => result.isLoading),
+    loadedCount: data.length,
+    failedCount: results.filter((result) => result.isError && !result.data).length,
+    totalCount: results.length,
+  };
+}
+
+/**
+ * Hook to get detailed info for multiple games
+ * Each game is cached on its own, so only missing or stale games are fetched
+ * (batched together), and details fill in progressively as batches arrive.
+ * A failed batch only fails the games in it; the other batches still load.
+ */
+export function useGamesInfo(gameIds: string[], enabled: boolean = true): GamesInfoState {
+  return useQueries({
+    queries: gameIds.map((gameId) => ({
+      ...gameInfoQueryOptions(gameId),
+      enabled,
+    })),
+    combine: combineGamesInfo,
   });
 }
 
@@ -125,20 +254,8 @@ export function useGamesInfo(gameIds: string[], enabled: boolean = true) {
  */
 export function useGameInfo(gameId: string, enabled: boolean = true) {
   return useQuery({
-    queryKey: bggQueryKeys.game(gameId),
-    queryFn: async () => {
-      const result = await getGameInfo(gameId);
-
-      if (!result.success) {
-        throw new Error(result.error);
-      }
-
-      return result.data;
-    },
+    ...gameInfoQueryOptions(gameId),
     enabled: enabled && !!gameId,
-    retry: 2,
-    staleTime: 60 * 60 * 1000, // 1 hour
-    gcTime: 2 * 60 * 60 * 1000, // 2 hours
   });
 }
 
@@ -152,11 +269,11 @@ export function usePrefetchCollection() {
   return (username: string) => {
     queryClient.prefetchQuery({
       queryKey: bggQueryKeys.collection(username),
-      queryFn: async () => {
-        const result = await getUserCollection(username);
+      queryFn: async ({ signal }) => {
+        const result = await getUserCollection(username, { signal });
 
         if (!result.success) {
-          throw new Error(result.error);
+          throw new BggApiError(result.error);
         }
 
         return result.data;
@@ -173,19 +290,7 @@ export function usePrefetchGameInfo() {
   const queryClient = useQueryClient();
 
   return (gameId: string) => {
-    queryClient.prefetchQuery({
-      queryKey: bggQueryKeys.game(gameId),
-      queryFn: async () => {
-        const result = await getGameInfo(gameId);
-
-        if (!result.success) {
-          throw new Error(result.error);
-        }
-
-        return result.data;
-      },
-      staleTime: 60 * 60 * 1000,
-    });
+    queryClient.prefetchQuery(gameInfoQueryOptions(gameId));
   };
 }
 
@@ -202,6 +307,9 @@ export function useInvalidateUser() {
     queryClient.invalidateQueries({
       queryKey: ["bgg", "collection", username],
     });
+    queryClient.invalidateQueries({
+      queryKey: ["bgg", "expansions", username],
+    });
     queryClient.invalidateQueries({
       queryKey: ["bgg", "plays", username],
     });
@@ -215,19 +323,19 @@ export function useInvalidateUser() {
 export function useUserPlays(username: string, enabled: boolean = true) {
   return useQuery({
     queryKey: bggQueryKeys.plays(username),
-    queryFn: async () => {
-      const result = await getAllUserPlays(username);
+    queryFn: async ({ signal }) => {
+      const result = await getAllUserPlays(username, { signal });
 
       if (!result.success) {
-        throw new Error(result.error);
+        throw new BggApiError(result.error);
       }
 
       return result.data;
     },
     enabled: enabled && username.length > 0,
-    retry: 2,
+    retry: retryTransient(2),
     staleTime: 5 * 60 * 1000, // 5 minutes - plays can change frequently
-    gcTime: 30 * 60 * 1000, // 30 minutes
+    gcTime: CACHE_TTL.plays, // 1 day
   });
 }
 
@@ -238,19 +346,201 @@ export function useUserPlays(username: string, enabled: boolean = true) {
 export function useGamePlays(username: string, gameId: string, enabled: boolean = true) {
   return useQuery({
     queryKey: bggQueryKeys.gamePlays(username, gameId),
-    queryFn: async () => {
-      const result = await getGamePlays(username, gameId);
+    queryFn: async ({ signal }) => {
+      const result = await getGamePlays(username, gameId, { signal });
 
       if (!result.success) {
-        throw new Error(result.error);
+        throw new BggApiError(result.error);
       }
 
       return result.data;
     },
     enabled: enabled && username.length > 0 && gameId.length > 0,
-    retry: 2,
+    retry: retryTransient(2),
     staleTime: 5 * 60 * 1000, // 5 minutes - plays can change frequently
-    gcTime: 30 * 60 * 1000, // 30 minutes
+    gcTime: CACHE_TTL.plays, // 1 day
+  });
+}
+
+/**
+ * Hook to search BGG for games by name
+ * Keeps the previous results while the next query loads, so the list doesn't flash while typing
+ * Results aren't persisted (see getQueryTtl); debounce the query before passing it in
+ */
+export function useGameSearch(query: string, enabled: boolean = true) {
+  const trimmedQuery = query.trim();
+
+  return useQuery({
+    queryKey: bggQueryKeys.search(trimmedQuery.toLowerCase()),
+    queryFn: async ({ signal }) => {
+      const result = await searchGames(trimmedQuery, { signal });
+
+      if (result.success === false) {
+        throw new BggApiError(result.error);
+      }
+
+      return result.data;
+    },
+    enabled: enabled && trimmedQuery.length >= 2,
+    placeholderData: keepPreviousData,
+    retry: retryTransient(1),
+    staleTime: 60 * 60 * 1000, // 1 hour - search results rarely change
+  });
+}
+
+/**
+ * Hook to get the board games on BGG's hotness list
+ * Not persisted (see getQueryTtl): the list is only interesting while it's current
+ */
+export function useHotGames(enabled: boolean = true) {
+  return useQuery({
+    queryKey: bggQueryKeys.hot(),
+    queryFn: async ({ signal }) => {
+      const result = await getHotGames({ signal });
+
+      if (result.success === false) {
+        throw new BggApiError(result.error);
+      }
+
+      return result.data;
+    },
+    enabled,
+    retry: retryTransient(2),
+    staleTime: 60 * 60 * 1000, // 1 hour - BGG recalculates hotness a few times a day
+  });
+}
+
+/**
+ * Hook to start a BGG session for logging plays
+ */
+export function useBggLogin() {
+  return useMutation({
+    mutationFn: async ({ username, password }: { username: string; password: string }) => {
+      const result = await loginToBgg(username, password);
+
+      if (result.success === false) {
+        throw new BggApiError(result.error);
+      }
+
+      return result.data;
+    },
+  });
+}
+
+/**
+ * Hook to end the BGG session
+ */
+export function useBggLogout() {
+  return useMutation({
+    mutationFn: async () => {
+      const result = await logoutFromBgg();
+
+      if (result.success === false) {
+        throw new BggApiError(result.error);
+      }
+
+      return result.data;
+    },
+  });
+}
+
+function toPlayInfo(play: LogPlayInput, id: string): PlayInfo {
+  return {
+    id,
+    gameId: play.gameId,
+    gameName: play.gameName,
+    date: new Date(play.date),
+    quantity: play.quantity ?? 1,
+    length: play.length,
+    players: play.players.map((player) => ({
+      username: player.username || "",
+      name: player.name,
+      score: player.score,
+      win: player.win,
+      new: player.new,
+    })),
+  };
+}
+
+// Placeholder id until BGG returns the real one
+function pendingPlayId(play: LogPlayInput): string {
+  return `pending-${play.gameId}-${play.date}`;
+}
+
+type LogPlaySnapshot = {
+  plays?: PlayInfo[];
+  gamePlays?: PlayInfo[];
+  collection?: CollectionGame[];
+};
+
+/**
+ * Hook to log a play on BGG
+ * Optimistically adds the play to the cached plays and bumps the game's play
+ * count, so lastPlayed and numPlays update without refetching every page of plays
+ * @param username The logged-in user, who BGG records the play for
+ */
+export function useLogPlay(username: string) {
+  const queryClient = useQueryClient();
+
+  const playsKey = bggQueryKeys.plays(username);
+  const collectionKey = bggQueryKeys.collection(username);
+
+  const setPlayId = (gameId: string, from: string, to: string) => {
+    const replaceId = (plays?: PlayInfo[]) =>
+      plays?.map((play) => (play.id === from ? { ...play, id: to } : play));
+    queryClient.setQueryData<PlayInfo[]>(playsKey, replaceId);
+    queryClient.setQueryData<PlayInfo[]>(bggQueryKeys.gamePlays(username, gameId), replaceId);
+  };
+
+  return useMutation({
+    mutationFn: async (play: LogPlayInput) => {
+      const result = await logPlay(play);
+
+      if (result.success === false) {
+        throw new BggApiError(result.error);
+      }
+
+      return result.data;
+    },
+    onMutate: async (play): Promise<LogPlaySnapshot> => {
+      const gamePlaysKey = bggQueryKeys.gamePlays(username, play.gameId);
+
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: playsKey }),
+        queryClient.cancelQueries({ queryKey: gamePlaysKey }),
+        queryClient.cancelQueries({ queryKey: collectionKey }),
+      ]);
+
+      const snapshot: LogPlaySnapshot = {
+        plays: queryClient.getQueryData<PlayInfo[]>(playsKey),
+        gamePlays: queryClient.getQueryData<PlayInfo[]>(gamePlaysKey),
+        collection: queryClient.getQueryData<CollectionGame[]>(collectionKey),
+      };
+
+      const optimisticPlay = toPlayInfo(play, pendingPlayId(play));
+      const addPlay = (plays?: PlayInfo[]) => plays && [optimisticPlay, ...plays];
+
+      queryClient.setQueryData<PlayInfo[]>(playsKey, addPlay);
+      queryClient.setQueryData<PlayInfo[]>(gamePlaysKey, addPlay);
+      queryClient.setQueryData<CollectionGame[]>(collectionKey, (collection) =>
+        collection?.map((game) =>
+          game.objectid === play.gameId
+            ? { ...game, numplays: Number(game.numplays || 0) + (play.quantity ?? 1) }
+            : game
+        )
+      );
+
+      return snapshot;
+    },
+    onError: (_error, play, snapshot) => {
+      if (!snapshot) return;
+      queryClient.setQueryData(playsKey, snapshot.plays);
+      queryClient.setQueryData(bggQueryKeys.gamePlays(username, play.gameId), snapshot.gamePlays);
+      queryClient.setQueryData(collectionKey, snapshot.collection);
+    },
+    onSuccess: (data, play) => {
+      setPlayId(play.gameId, pendingPlayId(play), data.playId);
+    },
   });
 }
 
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from "react";
+import { getConnectionStatus, subscribeToConnectionStatus } from "@/lib/service-worker";
+
+/**
+ * Whether the browser is online and whether BGG data is being served from the offline cache
+ */
+export function useConnectionStatus() {
+  return useSyncExternalStore(subscribeToConnectionStatus, getConnectionStatus);
+}
@@ -0,0 +1,21 @@
+import { useSyncExternalStore } from "react";
+import {
+  addToConsidering,
+  getConsidering,
+  removeFromConsidering,
+  subscribeToConsidering,
+} from "@/lib/considering";
+
+/**
+ * The local "considering" list, with functions to change it
+ */
+export function useConsidering() {
+  const games = useSyncExternalStore(subscribeToConsidering, getConsidering);
+
+  return {
+    games,
+    isConsidering: (gameId: string) => games.some((game) => game.id === gameId),
+    add: addToConsidering,
+    remove: removeFromConsidering,
+  };
+}
@@ -0,0 +1,58 @@
+import { useMemo } from "react";
+import { useGamesInfo, useUserCollection, useUserExpansions } from "@/hooks/use-bgg-api";
+import { mapCollectionToGames, mergeExpansions, mergeGamesInfo } from "@/lib/game-mapper";
+
+/**
+ * The games a user owns, merged the way the collection page merges them:
+ * details (mechanics, categories, designers, weight...) and owned expansions
+ * Details fill in batch by batch; isLoadingDetails stays true until they're all in
+ * @param loadDetails False to use only the details already cached, without asking BGG for the rest
+ */
+export function useOwnedGames(username: string, enabled: boolean = true, loadDetails: boolean = true) {
+  const {
+    data: collection,
+    isLoading,
+    error,
+    refetch,
+    requestStatus,
+  } = useUserCollection(username, enabled && !!username);
+
+  const ownedGames = useMemo(
+    () => mapCollectionToGames(collection || []).filter((game) => game.status.owned),
+    [collection]
+  );
+  const ownedIds = useMemo(() => ownedGames.map((game) => game.id), [ownedGames]);
+
+  const {
+    data: gamesInfo,
+    isLoading: isLoadingDetails,
+    loadedCount,
+    totalCount,
+  } = useGamesInfo(ownedIds, enabled && loadDetails && ownedIds.length > 0);
+  const { data: bggExpansions } = useUserExpansions(username, enabled && !!username);
+
+  const games = useMemo(() => {
+    let games = ownedGames;
+
+    if (gamesInfo.length > 0) {
+      games = mergeGamesInfo(games, gamesInfo);
+    }
+
+    if (bggExpansions && bggExpansions.length > 0) {
+      games = mergeExpansions(games, mapCollectionToGames(bggExpansions));
+    }
+
+    return games;
+  }, [ownedGames, gamesInfo, bggExpansions]);
+
+  return {
+    data: collection ? games : undefined,
+    isLoading,
+    isLoadingDetails,
+    loadedCount,
+    totalCount,
+    error,
+    refetch,
+    requestStatus,
+  };
+}
@@ -0,0 +1,24 @@
+import { useMemo } from "react";
+import { useOwnedGames } from "@/hooks/use-owned-games";
+import { findSimilarGames } from "@/lib/similarity";
+import type { Game } from "@/types/game";
+
+/**
+ * The games the user owns that are most similar to a game
+ * Only owned games whose details are already cached (the collection page loads them)
+ * are candidates: fetching details for a whole collection on every game view is too
+ * much to ask of BGG. The collection itself is loaded if needed (isLoading until then).
+ */
+export function useSimilarGames(game: Game | null | undefined, username: string, limit: number = 5) {
+  const { data: ownedGames, isLoading } = useOwnedGames(username, !!game, false);
+
+  const similarGames = useMemo(() => {
+    if (!game || !ownedGames) return [];
+    return findSimilarGames(game, ownedGames, limit);
+  }, [game, ownedGames, limit]);
+
+  return {
+    data: similarGames,
+    isLoading: !!username && isLoading,
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * What to tell the user when a BGG request fails
+ * Pages pick their own actions; `canRetry` says whether trying again can help
+ */
+
+import { isBggError, type BggErrorKind } from "@/services/bgg-errors";
+
+export type BggErrorMessage = {
+  kind: BggErrorKind | null; // null for errors that didn't come from a BGG request
+  title: string;
+  description: string;
+  canRetry: boolean;
+};
+
+// What the failed request was looking up, so "not found" can say what's missing
+export type BggSubject = "user" | "game";
+
+const MESSAGES: Record<BggErrorKind, Omit<BggErrorMessage, "kind">> = {
+  NotFound: {
+    title: "Not found",
+    description: "BoardGameGeek has nothing matching this request. Check the link and try again.",
+    canRetry: false,
+  },
+  RateLimited: {
+    title: "BoardGameGeek is busy",
+    description: "BGG is limiting how often we can ask for data. Wait a minute, then try again.",
+    canRetry: true,
+  },
+  StillProcessing: {
+    title: "BGG is still preparing this collection",
+    description: "Large collections can take BoardGameGeek several minutes. It keeps working on it, so try again shortly.",
+    canRetry: true,
+  },
+  Network: {
+    title: "Can't reach BoardGameGeek",
+    description: "Check your internet connection, then try again.",
+    canRetry: true,
+  },
+  Unauthorized: {
+    title: "BoardGameGeek refused the request",
+    description: "This site's access to the BGG API isn't set up correctly. Trying again won't help until it's fixed.",
+    canRetry: false,
+  },
+  ParseError: {
+    title: "Unexpected response from BoardGameGeek",
+    description: "BGG sent data we couldn't read. This is usually temporary.",
+    canRetry: true,
+  },
+  Upstream5xx: {
+    title: "BoardGameGeek is having trouble",
+    description: "BGG's servers are returning errors. Try again in a few minutes.",
+    canRetry: true,
+  },
+  BadRequest: {
+    title: "BoardGameGeek rejected the request",
+    description: "",
+    canRetry: false,
+  },
+};
+
+const NOT_FOUND_MESSAGES: Record<BggSubject, Omit<BggErrorMessage, "kind">> = {
+  user: {
+    title: "User not found",
+    description: "BoardGameGeek doesn't know this username. Check the spelling and try again.",
+    canRetry: false,
+  },
+  game: {
+    title: "Game not found",
+    description: "BoardGameGeek has no game with this id.",
+    canRetry: false,
+  },
+};
+
+/**
+ * Describe a failed BGG request
+ * @param fallback Description for errors that didn't come from a BGG request
+ * @param subject What the request looked up, named when BGG doesn't have it
+ */
+export function describeBggError(error: unknown, fallback: string, subject?: BggSubject): BggErrorMessage {
+  if (!isBggError(error)) {
+    return {
+      kind: null,
+      title: "Something went wrong",
+      description: error instanceof Error ? error.message : fallback,
+      canRetry: true,
+    };
+  }
+
+  const message = error.kind === "NotFound" && subject ? NOT_FOUND_MESSAGES[subject] : MESSAGES[error.kind];
+  return {
+    kind: error.kind,
+    ...message,
+    // BGG's own message says what was wrong with the request
+    description: message.description || error.message,
+  };
+}
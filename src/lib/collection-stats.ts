@@ -0,0 +1,165 @@
+/**
+ * Statistics over a collection, for the stats dashboard
+ * Each bar is a slice of the collection described by filters, and counted with
+ * filterGames, so opening the collection with the slice's filters shows exactly
+ * the games the bar counted.
+ */
+
+import type { FilterState, Game } from "@/types/game";
+import { DEFAULT_FILTERS, filterGames } from "@/lib/game-filters";
+
+export type CollectionSlice = {
+  label: string;
+  count: number;
+  filters: Partial<FilterState>; // changes from DEFAULT_FILTERS that select the slice
+};
+
+export type RatingComparison = {
+  gameId: string;
+  name: string;
+  userRating: number;
+  bggRating: number;
+};
+
+// Games from before this year share one bar of the year histogram
+const YEAR_HISTOGRAM_START = 1970;
+
+// Highest player count charted; bigger groups are rare enough not to need a bar each
+export const MAX_CHARTED_PLAYER_COUNT = 8;
+
+// BGG reports weights to 4 decimal places, so a band's inclusive top stops this far below
+// the next band's bottom and each game lands in exactly one band
+const WEIGHT_PRECISION = 0.0001;
+
+const WEIGHT_BANDS = [
+  { label: "Light", minWeight: 1, maxWeight: 2 },
+  { label: "Medium light", minWeight: 2, maxWeight: 3 },
+  { label: "Medium heavy", minWeight: 3, maxWeight: 4 },
+  { label: "Heavy", minWeight: 4, maxWeight: 5 },
+];
+
+// A game matches every band its playtime range overlaps, as with the playtime filter
+const PLAYTIME_BANDS = [
+  { label: "Up to 30 min", minPlaytime: null, maxPlaytime: 30 },
+  { label: "31-60 min", minPlaytime: 31, maxPlaytime: 60 },
+  { label: "1-2 hours", minPlaytime: 61, maxPlaytime: 120 },
+  { label: "2-3 hours", minPlaytime: 121, maxPlaytime: 180 },
+  { label: "Over 3 hours", minPlaytime: 181, maxPlaytime: null },
+];
+
+function slice(games: Game[], label: string, filters: Partial<FilterState>): CollectionSlice {
+  return { label, count: filterGames(games, { ...DEFAULT_FILTERS, ...filters }).length, filters };
+}
+
+/**
+ * Games per complexity band (games without a weight aren't counted)
+ * A game on an edge belongs to the heavier band: a 2.0 is "Medium light"
+ */
+export function getWeightDistribution(games: Game[]): CollectionSlice[] {
+  return WEIGHT_BANDS.map(({ label, minWeight, maxWeight }, index) => {
+    const isLast = index === WEIGHT_BANDS.length - 1;
+    return slice(games, `${label} (${minWeight}-${maxWeight})`, {
+      minWeight,
+      maxWeight: isLast ? maxWeight : Number((maxWeight - WEIGHT_PRECISION).toFixed(4)),
+    });
+  });
+}
+
+/**
+ * Games per decade of publication, from the first decade with a game
+ * Games published before 1970 share a single bar
+ */
+export function getYearHistogram(games: Game[], currentYear: number = new Date().getFullYear()): CollectionSlice[] {
+  const years = games.map((game) => game.yearPublished).filter((year) => year > 0);
+  if (years.length === 0) return [];
+
+  const slices: CollectionSlice[] = [];
+  const firstYear = Math.min(...years);
+  if (firstYear < YEAR_HISTOGRAM_START) {
+    slices.push(slice(games, `Before ${YEAR_HISTOGRAM_START}`, { maxYear: YEAR_HISTOGRAM_START - 1 }));
+  }
+
+  const firstDecade = Math.max(Math.floor(firstYear / 10) * 10, YEAR_HISTOGRAM_START);
+  const lastDecade = Math.floor(Math.max(...years, currentYear) / 10) * 10;
+  for (let decade = firstDecade; decade <= lastDecade; decade += 10) {
+    slices.push(slice(games, `${decade}s`, { minYear: decade, maxYear: decade + 9 }));
+  }
+
+  return slices;
+}
+
+function countValues(games: Game[], getValues: (game: Game) => string[] | undefined): [string, number][] {
+  const counts = new Map<string, number>();
+  games.forEach((game) => {
+    new Set(getValues(game)).forEach((value) => counts.set(value, (counts.get(value) ?? 0) + 1));
+  });
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+/**
+ * The categories the most games have, most common first
+ */
+export function getTopCategories(games: Game[], limit: number = 10): CollectionSlice[] {
+  return countValues(games, (game) => game.categories)
+    .slice(0, limit)
+    .map(([category, count]) => ({ label: category, count, filters: { categories: [category] } }));
+}
+
+/**
+ * The mechanics the most games have, most common first
+ */
+export function getTopMechanics(games: Game[], limit: number = 10): CollectionSlice[] {
+  return countValues(games, (game) => game.mechanics)
+    .slice(0, limit)
+    .map(([mechanic, count]) => ({ label: mechanic, count, filters: { includeMechanics: [mechanic] } }));
+}
+
+/**
+ * How many games support each player count, from 1 to MAX_CHARTED_PLAYER_COUNT
+ */
+export function getPlayerCountCoverage(games: Game[]): CollectionSlice[] {
+  return Array.from({ length: MAX_CHARTED_PLAYER_COUNT }, (_, index) => {
+    const playerCount = index + 1;
+    return slice(games, String(playerCount), { playerCount });
+  });
+}
+
+/**
+ * Games per playtime band
+ */
+export function getPlaytimeBands(games: Game[]): CollectionSlice[] {
+  return PLAYTIME_BANDS.map(({ label, minPlaytime, maxPlaytime }) =>
+    slice(games, label, { minPlaytime, maxPlaytime })
+  );
+}
+
+/**
+ * Games with and without logged plays
+ */
+export function getPlayedCounts(games: Game[]): CollectionSlice[] {
+  return [slice(games, "Played", { played: "played" }), slice(games, "Never played", { played: "unplayed" })];
+}
+
+/**
+ * The user's rating next to the BGG average, for the games the user has rated
+ */
+export function getRatingComparisons(games: Game[]): RatingComparison[] {
+  return games
+    .filter((game) => game.userRating !== undefined && game.rating.average > 0)
+    .map((game) => ({
+      gameId: game.id,
+      name: game.name,
+      userRating: game.userRating!,
+      bggRating: game.rating.average,
+    }));
+}
+
+/**
+ * How much higher (or lower, when negative) the user rates games than BGG does, on average
+ * Null when the user hasn't rated any games
+ */
+export function getAverageRatingDifference(comparisons: RatingComparison[]): number | null {
+  if (comparisons.length === 0) return null;
+  const total = comparisons.reduce((sum, comparison) => sum + comparison.userRating - comparison.bggRating, 0);
+  return total / comparisons.length;
+}
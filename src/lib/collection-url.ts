@@ -0,0 +1,229 @@
+/**
+ * Collection view state in the URL query string
+ * Filters, sort and the shuffle seed are kept in the URL so a filtered view can
+ * be shared or bookmarked, and back/forward steps through filter changes.
+ * Only values that differ from the defaults are written, to keep URLs short.
+ */
+
+import type {
+  CollectionStatusView,
+  FilterState,
+  MatchMode,
+  PlayedFilter,
+  PlayerCountMode,
+  SortDirection,
+  SortOption,
+  StatusFlag,
+} from "@/types/game";
+import { DEFAULT_COLLECTION_VIEW, DEFAULT_FILTERS } from "@/lib/game-filters";
+import { DEFAULT_SORT_DIRECTIONS } from "@/lib/game-sort";
+
+export type CollectionView = {
+  collectionStatus: CollectionStatusView;
+  filters: FilterState;
+  sortBy: SortOption;
+  sortDirection: SortDirection;
+  randomSeed: number;
+};
+
+const SORT_OPTIONS: SortOption[] = [
+  "rating",
+  "user-rating",
+  "name",
+  "year",
+  "complexity",
+  "plays",
+  "last-played",
+  "wishlist-priority",
+  "random",
+];
+const COLLECTION_STATUS_VIEWS: CollectionStatusView[] = [
+  "owned",
+  "wishlist",
+  "wantToPlay",
+  "forTrade",
+  "previouslyOwned",
+];
+const PLAYER_COUNT_MODES: PlayerCountMode[] = ["supports", "recommended", "best"];
+const PLAYED_FILTERS: PlayedFilter[] = ["any", "played", "unplayed"];
+const STATUS_FLAGS: StatusFlag[] = [
+  "owned",
+  "previouslyOwned",
+  "forTrade",
+  "want",
+  "wantToPlay",
+  "wantToBuy",
+  "wishlist",
+  "preordered",
+];
+
+// Query parameter for each filter field
+const PARAMS = {
+  playerCount: "players",
+  playerCountMode: "mode",
+  minPlaytime: "minTime",
+  maxPlaytime: "maxTime",
+  includeExpansions: "expansions",
+  categories: "category",
+  categoryMode: "categoryMode",
+  includeMechanics: "mechanic",
+  excludeMechanics: "notMechanic",
+  includeDesigners: "designer",
+  excludeDesigners: "notDesigner",
+  minWeight: "minWeight",
+  maxWeight: "maxWeight",
+  minYear: "minYear",
+  maxYear: "maxYear",
+  minRating: "minRating",
+  statusFlags: "status",
+  played: "played",
+  searchQuery: "q",
+  collectionStatus: "view",
+  sortBy: "sort",
+  sortDirection: "dir",
+  randomSeed: "seed",
+} as const satisfies Record<keyof FilterState | Exclude<keyof CollectionView, "filters">, string>;
+
+const VIEW_PARAMS: string[] = Object.values(PARAMS);
+
+function readNumber(params: URLSearchParams, key: string): number | null {
+  const value = params.get(key);
+  if (value === null || value.trim() === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function isOneOf<T extends string>(value: string | null, allowed: readonly T[]): value is T {
+  return value !== null && allowed.includes(value as T);
+}
+
+function readOneOf<T extends string>(params: URLSearchParams, key: string, allowed: readonly T[]): T | undefined {
+  const value = params.get(key);
+  return isOneOf(value, allowed) ? value : undefined;
+}
+
+/**
+ * Whether a value read from outside the app (e.g. localStorage) names a collection view
+ */
+export function isCollectionStatusView(value: string | null): value is CollectionStatusView {
+  return isOneOf(value, COLLECTION_STATUS_VIEWS);
+}
+
+/**
+ * Whether the URL describes a collection view at all
+ */
+export function hasCollectionViewParams(params: URLSearchParams): boolean {
+  return VIEW_PARAMS.some((key) => params.has(key));
+}
+
+/**
+ * Read the view from the URL; anything missing or invalid falls back to the defaults
+ * @param fallbackSeed Seed to use when the URL doesn't carry one (non-random sorts)
+ */
+export function readCollectionView(params: URLSearchParams, fallbackSeed: number): CollectionView {
+  const filters: FilterState = {
+    playerCount: readNumber(params, PARAMS.playerCount),
+    playerCountMode: readOneOf(params, PARAMS.playerCountMode, PLAYER_COUNT_MODES) ?? DEFAULT_FILTERS.playerCountMode,
+    minPlaytime: readNumber(params, PARAMS.minPlaytime),
+    maxPlaytime: readNumber(params, PARAMS.maxPlaytime),
+    includeExpansions: params.get(PARAMS.includeExpansions) === "1",
+    categories: params.getAll(PARAMS.categories),
+    categoryMode: readOneOf<MatchMode>(params, PARAMS.categoryMode, ["any", "all"]) ?? DEFAULT_FILTERS.categoryMode,
+    includeMechanics: params.getAll(PARAMS.includeMechanics),
+    excludeMechanics: params.getAll(PARAMS.excludeMechanics),
+    includeDesigners: params.getAll(PARAMS.includeDesigners),
+    excludeDesigners: params.getAll(PARAMS.excludeDesigners),
+    minWeight: readNumber(params, PARAMS.minWeight),
+    maxWeight: readNumber(params, PARAMS.maxWeight),
+    minYear: readNumber(params, PARAMS.minYear),
+    maxYear: readNumber(params, PARAMS.maxYear),
+    minRating: readNumber(params, PARAMS.minRating),
+    statusFlags: params.getAll(PARAMS.statusFlags).filter((flag): flag is StatusFlag =>
+      STATUS_FLAGS.includes(flag as StatusFlag)
+    ),
+    played: readOneOf(params, PARAMS.played, PLAYED_FILTERS) ?? DEFAULT_FILTERS.played,
+    searchQuery: params.get(PARAMS.searchQuery) || null,
+  };
+
+  const sortBy = readOneOf(params, PARAMS.sortBy, SORT_OPTIONS) ?? "user-rating";
+
+  return {
+    collectionStatus: readOneOf(params, PARAMS.collectionStatus, COLLECTION_STATUS_VIEWS) ?? DEFAULT_COLLECTION_VIEW,
+    filters,
+    sortBy,
+    sortDirection:
+      readOneOf<SortDirection>(params, PARAMS.sortDirection, ["asc", "desc"]) ?? DEFAULT_SORT_DIRECTIONS[sortBy],
+    randomSeed: readNumber(params, PARAMS.randomSeed) ?? fallbackSeed,
+  };
+}
+
+/**
+ * Write the view into a copy of the URL's params, keeping any unrelated params
+ */
+export function writeCollectionView(params: URLSearchParams, view: CollectionView): URLSearchParams {
+  const next = new URLSearchParams(params);
+  VIEW_PARAMS.forEach((key) => next.delete(key));
+
+  const { filters } = view;
+  const setValue = (key: string, value: string | number | null) => {
+    if (value !== null) next.set(key, String(value));
+  };
+  const appendAll = (key: string, values: string[]) => {
+    values.forEach((value) => next.append(key, value));
+  };
+
+  setValue(PARAMS.playerCount, filters.playerCount);
+  if (filters.playerCountMode !== DEFAULT_FILTERS.playerCountMode) {
+    next.set(PARAMS.playerCountMode, filters.playerCountMode);
+  }
+  setValue(PARAMS.minPlaytime, filters.minPlaytime);
+  setValue(PARAMS.maxPlaytime, filters.maxPlaytime);
+  if (filters.includeExpansions) next.set(PARAMS.includeExpansions, "1");
+  appendAll(PARAMS.categories, filters.categories);
+  if (filters.categoryMode !== DEFAULT_FILTERS.categoryMode) {
+    next.set(PARAMS.categoryMode, filters.categoryMode);
+  }
+  appendAll(PARAMS.includeMechanics, filters.includeMechanics);
+  appendAll(PARAMS.excludeMechanics, filters.excludeMechanics);
+  appendAll(PARAMS.includeDesigners, filters.includeDesigners);
+  appendAll(PARAMS.excludeDesigners, filters.excludeDesigners);
+  setValue(PARAMS.minWeight, filters.minWeight);
+  setValue(PARAMS.maxWeight, filters.maxWeight);
+  setValue(PARAMS.minYear, filters.minYear);
+  setValue(PARAMS.maxYear, filters.maxYear);
+  setValue(PARAMS.minRating, filters.minRating);
+  appendAll(PARAMS.statusFlags, filters.statusFlags);
+  if (filters.played !== DEFAULT_FILTERS.played) {
+    next.set(PARAMS.played, filters.played);
+  }
+  setValue(PARAMS.searchQuery, filters.searchQuery);
+
+  if (view.collectionStatus !== DEFAULT_COLLECTION_VIEW) {
+    next.set(PARAMS.collectionStatus, view.collectionStatus);
+  }
+
+  // The sort is always written, so the URL always describes a view
+  next.set(PARAMS.sortBy, view.sortBy);
+  if (view.sortBy === "random") {
+    next.set(PARAMS.randomSeed, String(view.randomSeed));
+  } else {
+    next.set(PARAMS.sortDirection, view.sortDirection);
+  }
+
+  return next;
+}
+
+/**
+ * Link to the user's owned games, narrowed down by some filters
+ * @param filters Changes from the default filters
+ */
+export function getFilteredCollectionUrl(username: string, filters: Partial<FilterState>): string {
+  const params = writeCollectionView(new URLSearchParams(), {
+    collectionStatus: DEFAULT_COLLECTION_VIEW,
+    filters: { ...DEFAULT_FILTERS, ...filters },
+    sortBy: "user-rating",
+    sortDirection: DEFAULT_SORT_DIRECTIONS["user-rating"],
+    randomSeed: 0,
+  });
+  return `/collection/${encodeURIComponent(username)}?${params}`;
+}
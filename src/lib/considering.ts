@@ -0,0 +1,68 @@
+/**
+ * "Considering" list: games the user is thinking about getting
+ * Kept in localStorage only, and synced between tabs through the storage event
+ */
+
+const STORAGE_KEY = "bgg-considering";
+
+export type ConsideredGame = {
+  id: string;
+  name: string;
+  yearPublished?: number;
+  thumbnail?: string;
+  addedAt: string; // ISO date
+};
+
+const listeners = new Set<() => void>();
+let cached: { raw: string | null; games: ConsideredGame[] } | null = null;
+
+function parseStored(raw: string | null): ConsideredGame[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((game) => game && typeof game.id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The games being considered, most recently added first
+ * Returns the same array until the list changes, as useSyncExternalStore requires
+ */
+export function getConsidering(): ConsideredGame[] {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!cached || cached.raw !== raw) {
+    cached = { raw, games: parseStored(raw) };
+  }
+  return cached.games;
+}
+
+function save(games: ConsideredGame[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(games));
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Add a game to the list (moving it to the top if it's already there)
+ */
+export function addToConsidering(game: Omit<ConsideredGame, "addedAt">) {
+  const others = getConsidering().filter((existing) => existing.id !== game.id);
+  save([{ ...game, addedAt: new Date().toISOString() }, ...others]);
+}
+
+export function removeFromConsidering(gameId: string) {
+  save(getConsidering().filter((game) => game.id !== gameId));
+}
+
+export function subscribeToConsidering(listener: () => void): () => void {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
@@ -0,0 +1,34 @@
+import type { Game } from "@/types/game";
+
+type Range = { min: number; max: number };
+
+/**
+ * Widen a base game range with the ranges of its owned expansions
+ * Expansions with missing data (0) don't affect the range
+ */
+function widenRange(base: Range, ranges: Range[]): Range {
+  return ranges.reduce(
+    (range, r) => ({
+      min: r.min > 0 ? Math.min(range.min, r.min) : range.min,
+      max: r.max > 0 ? Math.max(range.max, r.max) : range.max,
+    }),
+    base
+  );
+}
+
+/**
+ * Get the player count range, optionally widened by owned expansions
+ * (e.g. a 5-6 player expansion turns a 2-4 player game into 2-6)
+ */
+export function getPlayerRange(game: Game, includeExpansions: boolean = false): Range {
+  if (!includeExpansions || !game.expansions) return game.players;
+  return widenRange(game.players, game.expansions.map((e) => e.players));
+}
+
+/**
+ * Get the playtime range, optionally widened by owned expansions
+ */
+export function getPlaytimeRange(game: Game, includeExpansions: boolean = false): Range {
+  if (!includeExpansions || !game.expansions) return game.playtime;
+  return widenRange(game.playtime, game.expansions.map((e) => e.playtime));
+}
@@ -0,0 +1,238 @@
+import type { CollectionStatusView, FilterState, Game, MatchMode, StatusFlag } from "@/types/game";
+import { matchesPlayerCount } from "@/lib/player-count";
+import { getPlaytimeRange } from "@/lib/expansions";
+
+/**
+ * Filters with nothing selected
+ */
+export const DEFAULT_FILTERS: FilterState = {
+  playerCount: null,
+  playerCountMode: "supports",
+  minPlaytime: null,
+  maxPlaytime: null,
+  includeExpansions: false,
+  categories: [],
+  categoryMode: "any",
+  includeMechanics: [],
+  excludeMechanics: [],
+  includeDesigners: [],
+  excludeDesigners: [],
+  minWeight: null,
+  maxWeight: null,
+  minYear: null,
+  maxYear: null,
+  minRating: null,
+  statusFlags: [],
+  played: "any",
+  searchQuery: null,
+};
+
+/**
+ * Part of the collection shown when none was chosen
+ */
+export const DEFAULT_COLLECTION_VIEW: CollectionStatusView = "owned";
+
+/**
+ * Keep the games with the collection status the view is for
+ * (each view is named after the status flag it shows)
+ */
+export function filterByCollectionStatus(games: Game[], view: CollectionStatusView): Game[] {
+  return games.filter((game) => game.status[view]);
+}
+
+/**
+ * Values the filter controls can offer, collected from the games being filtered
+ */
+export type FilterOptions = {
+  categories: string[];
+  mechanics: string[];
+  designers: string[];
+};
+
+type GamePredicate = (game: Game) => boolean;
+
+/**
+ * Build filters from a saved (possibly older) filter state
+ * Filters saved before multiple categories were supported had a single `category`
+ */
+export function normalizeFilters(
+  saved: Partial<FilterState> & { category?: string | null }
+): FilterState {
+  const { category, ...rest } = saved;
+  const filters = { ...DEFAULT_FILTERS, ...rest };
+  if (category && !rest.categories) {
+    filters.categories = [category];
+  }
+  return filters;
+}
+
+/**
+ * Add a value to a filter list, or remove it if it's already there
+ */
+export function toggleFilterValue<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+/**
+ * Collect the categories, mechanics and designers present in a list of games
+ */
+export function getFilterOptions(games: Game[]): FilterOptions {
+  const categories = new Set<string>();
+  const mechanics = new Set<string>();
+  const designers = new Set<string>();
+
+  games.forEach((game) => {
+    game.categories?.forEach((value) => categories.add(value));
+    game.mechanics?.forEach((value) => mechanics.add(value));
+    game.designers?.forEach((value) => designers.add(value));
+  });
+
+  return {
+    categories: Array.from(categories).sort(),
+    mechanics: Array.from(mechanics).sort(),
+    designers: Array.from(designers).sort(),
+  };
+}
+
+/**
+ * Whether the filters depend on details only available from BGG's thing endpoint
+ * (categories, mechanics, designers, weight and the player count poll)
+ */
+export function needsGameDetails(filters: FilterState): boolean {
+  return (
+    filters.categories.length > 0 ||
+    filters.includeMechanics.length > 0 ||
+    filters.excludeMechanics.length > 0 ||
+    filters.includeDesigners.length > 0 ||
+    filters.excludeDesigners.length > 0 ||
+    filters.minWeight !== null ||
+    filters.maxWeight !== null ||
+    (filters.playerCount !== null && filters.playerCountMode !== "supports")
+  );
+}
+
+/**
+ * Number of filters beyond the header sentence (players, playtime, category and search)
+ */
+export function countAdvancedFilters(filters: FilterState): number {
+  return [
+    filters.categories.length > 1,
+    filters.includeMechanics.length > 0 || filters.excludeMechanics.length > 0,
+    filters.includeDesigners.length > 0 || filters.excludeDesigners.length > 0,
+    filters.minWeight !== null || filters.maxWeight !== null,
+    filters.minYear !== null || filters.maxYear !== null,
+    filters.minRating !== null,
+    filters.statusFlags.length > 0,
+    filters.played !== "any",
+  ].filter(Boolean).length;
+}
+
+function matchesList(values: string[] | undefined, selected: string[], mode: MatchMode): boolean {
+  if (!values) return false;
+  return mode === "all"
+    ? selected.every((value) => values.includes(value))
+    : selected.some((value) => values.includes(value));
+}
+
+function excludesList(values: string[] | undefined, excluded: string[]): boolean {
+  return !values || !excluded.some((value) => values.includes(value));
+}
+
+/**
+ * Turn the active filters into predicates a game must all satisfy
+ */
+function getFilterPredicates(filters: FilterState): GamePredicate[] {
+  const predicates: GamePredicate[] = [];
+
+  if (filters.playerCount !== null) {
+    const playerCount = filters.playerCount;
+    predicates.push((game) =>
+      matchesPlayerCount(game, playerCount, filters.playerCountMode, filters.includeExpansions)
+    );
+  }
+
+  if (filters.minPlaytime !== null) {
+    const minPlaytime = filters.minPlaytime;
+    predicates.push((game) => getPlaytimeRange(game, filters.includeExpansions).max >= minPlaytime);
+  }
+
+  if (filters.maxPlaytime !== null) {
+    const maxPlaytime = filters.maxPlaytime;
+    predicates.push((game) => getPlaytimeRange(game, filters.includeExpansions).min <= maxPlaytime);
+  }
+
+  if (filters.categories.length > 0) {
+    predicates.push((game) => matchesList(game.categories, filters.categories, filters.categoryMode));
+  }
+
+  if (filters.includeMechanics.length > 0) {
+    predicates.push((game) => matchesList(game.mechanics, filters.includeMechanics, "all"));
+  }
+
+  if (filters.excludeMechanics.length > 0) {
+    predicates.push((game) => excludesList(game.mechanics, filters.excludeMechanics));
+  }
+
+  if (filters.includeDesigners.length > 0) {
+    predicates.push((game) => matchesList(game.designers, filters.includeDesigners, "all"));
+  }
+
+  if (filters.excludeDesigners.length > 0) {
+    predicates.push((game) => excludesList(game.designers, filters.excludeDesigners));
+  }
+
+  // Games without a weight yet (details still loading or unrated) don't match a weight range
+  if (filters.minWeight !== null) {
+    const minWeight = filters.minWeight;
+    predicates.push((game) => !!game.weight && game.weight >= minWeight);
+  }
+
+  if (filters.maxWeight !== null) {
+    const maxWeight = filters.maxWeight;
+    predicates.push((game) => !!game.weight && game.weight <= maxWeight);
+  }
+
+  if (filters.minYear !== null) {
+    const minYear = filters.minYear;
+    predicates.push((game) => game.yearPublished >= minYear);
+  }
+
+  if (filters.maxYear !== null) {
+    const maxYear = filters.maxYear;
+    predicates.push((game) => game.yearPublished > 0 && game.yearPublished <= maxYear);
+  }
+
+  if (filters.minRating !== null) {
+    const minRating = filters.minRating;
+    predicates.push((game) => game.rating.average >= minRating);
+  }
+
+  if (filters.statusFlags.length > 0) {
+    predicates.push((game) =>
+      filters.statusFlags.every((flag: StatusFlag) => game.status[flag])
+    );
+  }
+
+  if (filters.played !== "any") {
+    const played = filters.played === "played";
+    predicates.push((game) => game.numPlays > 0 === played);
+  }
+
+  if (filters.searchQuery) {
+    const query = filters.searchQuery.toLowerCase();
+    predicates.push((game) => game.name.toLowerCase().includes(query));
+  }
+
+  return predicates;
+}
+
+/**
+ * Apply the collection filters to a list of games
+ * @param games Games to filter
+ * @param filters Current filter state
+ * @returns Games matching every active filter, in their original order
+ */
+export function filterGames(games: Game[], filters: FilterState): Game[] {
+  const predicates = getFilterPredicates(filters);
+  return games.filter((game) => predicates.every((predicate) => predicate(game)));
+}
@@ -0,0 +1,166 @@
+/**
+ * Batching loader for per-game BGG details
+ * Each game is cached under its own query key, but BGG's thing endpoint accepts
+ * many ids per request. Requests made in the same tick are collected and
+ * fetched together through getGamesInfo, and each game resolves as soon as
+ * its batch arrives. A failed batch rejects only the games in it.
+ *
+ * Each caller can cancel its own request. A run keeps going while anyone is
+ * still waiting on it, and stops its BGG requests once every waiter has left.
+ */
+
+import { getGamesInfo, type BggApiResult, type GameInfo } from "@/services/bgg-api";
+import { BggApiError, toBggError } from "@/services/bgg-errors";
+
+type Waiter = {
+  resolve: (info: GameInfo | null) => void;
+  reject: (error: Error) => void;
+};
+
+type Run = {
+  waiting: Map<string, Waiter[]>;
+  controller: AbortController;
+};
+
+const pending = new Map<string, Waiter[]>();
+let flushScheduled = false;
+let running: Promise<void> | null = null;
+let currentRun: Run | null = null;
+
+function removeWaiter(waitersById: Map<string, Waiter[]>, gameId: string, waiter: Waiter): void {
+  const waiters = waitersById.get(gameId)?.filter((other) => other !== waiter);
+  if (!waiters) return;
+  if (waiters.length > 0) {
+    waitersById.set(gameId, waiters);
+  } else {
+    waitersById.delete(gameId);
+  }
+}
+
+/**
+ * Forget a cancelled waiter, and stop the current run if nobody else needs it
+ */
+function dropWaiter(gameId: string, waiter: Waiter): void {
+  removeWaiter(pending, gameId, waiter);
+
+  if (currentRun?.waiting.has(gameId)) {
+    removeWaiter(currentRun.waiting, gameId, waiter);
+    if (currentRun.waiting.size === 0) currentRun.controller.abort();
+  }
+}
+
+/**
+ * Fetch every id waiting at the time of the call
+ * Ids requested while a run is in progress wait for the next run
+ */
+async function flush(): Promise<void> {
+  flushScheduled = false;
+
+  // Only one run at a time so batches stay spaced out for BGG's rate limits
+  while (running) {
+    await running;
+  }
+  if (pending.size === 0) return;
+
+  const waiting = new Map(pending);
+  pending.clear();
+
+  const settle = (id: string, info: GameInfo | null) => {
+    waiting.get(id)?.forEach((waiter) => waiter.resolve(info));
+    waiting.delete(id);
+  };
+
+  const fail = (id: string, error: Error) => {
+    waiting.get(id)?.forEach((waiter) => waiter.reject(error));
+    waiting.delete(id);
+  };
+
+  const run: Run = { waiting, controller: new AbortController() };
+  currentRun = run;
+
+  running = (async () => {
+    let result: BggApiResult<GameInfo[]>;
+    try {
+      result = await getGamesInfo(Array.from(waiting.keys()), {
+        signal: run.controller.signal,
+        onBatch: (games) => {
+          games.forEach((info) => settle(String(info.objectid), info));
+        },
+        onBatchError: (ids, error) => {
+          const batchError = new BggApiError(error);
+          ids.forEach((id) => fail(id, batchError));
+        },
+      });
+    } catch (error) {
+      // Every waiter was cancelled and has already been rejected
+      if (run.controller.signal.aborted) return;
+      // Waiters are rejected below; a run never rejects, or the next flush would too
+      result = { success: false, error: toBggError(error) };
+    }
+
+    // Failed batches have rejected their games already; this covers the rest
+    if (result.success === false) {
+      const error = new BggApiError(result.error);
+      Array.from(waiting.keys()).forEach((id) => fail(id, error));
+      return;
+    }
+
+    // Ids BGG didn't return don't exist
+    Array.from(waiting.keys()).forEach((id) => settle(id, null));
+  })();
+
+  try {
+    await running;
+  } finally {
+    running = null;
+    currentRun = null;
+  }
+
+  // Pick up ids that arrived during this run
+  if (pending.size > 0) {
+    scheduleFlush();
+  }
+}
+
+function scheduleFlush() {
+  if (flushScheduled) return;
+  flushScheduled = true;
+  setTimeout(() => {
+    flush().catch((error) => console.error("Failed to load game details:", error));
+  }, 0);
+}
+
+/**
+ * Load details for a single game, batched with other games requested at the same time
+ * @param signal Rejects the promise with the signal's reason when aborted
+ * @returns The game's details, or null if BGG has no game with this id
+ */
+export function loadGameInfo(gameId: string, signal?: AbortSignal): Promise<GameInfo | null> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      dropWaiter(gameId, waiter);
+      reject(signal.reason);
+    };
+    const waiter: Waiter = {
+      resolve: (info) => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(info);
+      },
+      reject: (error) => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(error);
+      },
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    const waiters = pending.get(gameId) || [];
+    waiters.push(waiter);
+    pending.set(gameId, waiters);
+    scheduleFlush();
+  });
+}
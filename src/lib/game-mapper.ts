@@ -3,36 +3,33 @@
  * Maps between BGG XMLAPI2 response structure and our internal Game type
  */
 
-import type { Game } from "@/types/game";
-import type { CollectionGame, GameInfo, PlayInfo } from "@/services/bgg-api";
+import type { Game, PlayerCountVotes } from "@/types/game";
+import type { BggRank, CollectionGame, GameInfo, PlayInfo } from "@/services/bgg-api";
 
 /**
- * Convert a BGG collection game to our Game format
+ * Find a game's position in one of BGG's rankings
+ * @param name Ranking name, e.g. "boardgame" or "strategygames"
+ * @returns The rank, or null when the game isn't ranked there
  */
-export function collectionGameToGame(bggGame: CollectionGame): Game {
-  // Extract rank from ratings
-  let rank: number | null = null;
-  let strategyRank: number | null = null;
-
-  if (bggGame.stats?.rating?.ranks) {
-    const ranks = Array.isArray(bggGame.stats.rating.ranks)
-      ? bggGame.stats.rating.ranks
-      : [bggGame.stats.rating.ranks];
-
-    const boardGameRank = ranks.find((r: any) => r.name === "boardgame" || r["@attributes"]?.name === "boardgame");
-    const strategyGameRank = ranks.find((r: any) => r.name === "strategygames" || r["@attributes"]?.name === "strategygames");
-
-    const rankValue = boardGameRank?.value || boardGameRank?.["@attributes"]?.value;
-    const strategyRankValue = strategyGameRank?.value || strategyGameRank?.["@attributes"]?.value;
+function findRank(ranks: BggRank[] | undefined, name: string): number | null {
+  const value = ranks?.find((r) => r.name === name)?.value;
+  if (!value || value === "Not Ranked") return null;
+  const rank = parseInt(value, 10);
+  return Number.isNaN(rank) ? null : rank;
+}
 
-    rank = rankValue
-      ? (rankValue === "Not Ranked" ? null : parseInt(String(rankValue), 10))
-      : null;
-    strategyRank = strategyRankValue
-      ? (strategyRankValue === "Not Ranked" ? null : parseInt(String(strategyRankValue), 10))
-      : null;
-  }
+/**
+ * The user's own rating, or undefined when they haven't rated the game ("N/A")
+ */
+function parseUserRating(value: string | undefined): number | undefined {
+  const rating = value ? parseFloat(value) : NaN;
+  return Number.isNaN(rating) ? undefined : rating;
+}
 
+/**
+ * Convert a BGG collection game to our Game format
+ */
+export function collectionGameToGame(bggGame: CollectionGame): Game {
   return {
     id: String(bggGame.objectid),
     collectionId: String(bggGame.collid),
@@ -41,43 +38,71 @@ export function collectionGameToGame(bggGame: CollectionGame): Game {
     image: bggGame.image || "",
     thumbnail: bggGame.thumbnail || "",
     players: {
-      min: parseInt(String(bggGame.stats?.minplayers || 0), 10),
-      max: parseInt(String(bggGame.stats?.maxplayers || 0), 10),
+      min: bggGame.stats?.minplayers || 0,
+      max: bggGame.stats?.maxplayers || 0,
     },
     playtime: {
-      min: parseInt(String(bggGame.stats?.minplaytime || 0), 10),
-      max: parseInt(String(bggGame.stats?.maxplaytime || 0), 10),
+      min: bggGame.stats?.minplaytime || 0,
+      max: bggGame.stats?.maxplaytime || 0,
     },
-    numOwned: parseInt(String(bggGame.stats?.numowned || 0), 10),
+    numOwned: bggGame.stats?.numowned || 0,
     rating: {
-      average: parseFloat(String(bggGame.stats?.rating?.average || 0)),
-      bayesAverage: parseFloat(String(bggGame.stats?.rating?.bayesaverage || 0)),
-      usersRated: parseInt(String(bggGame.stats?.rating?.usersrated || 0), 10),
-      rank,
-      strategyRank,
+      average: bggGame.stats?.rating?.average || 0,
+      bayesAverage: bggGame.stats?.rating?.bayesaverage || 0,
+      usersRated: bggGame.stats?.rating?.usersrated || 0,
+      rank: findRank(bggGame.stats?.rating?.ranks, "boardgame"),
+      strategyRank: findRank(bggGame.stats?.rating?.ranks, "strategygames"),
     },
     status: {
-      owned: bggGame.status?.own === 1 || bggGame.status?.own === "1",
-      previouslyOwned: bggGame.status?.prevowned === 1 || bggGame.status?.prevowned === "1",
-      forTrade: bggGame.status?.fortrade === 1 || bggGame.status?.fortrade === "1",
-      want: bggGame.status?.want === 1 || bggGame.status?.want === "1",
-      wantToPlay: bggGame.status?.wanttoplay === 1 || bggGame.status?.wanttoplay === "1",
-      wantToBuy: bggGame.status?.wanttobuy === 1 || bggGame.status?.wanttobuy === "1",
-      wishlist: bggGame.status?.wishlist === 1 || bggGame.status?.wishlist === "1",
-      preordered: bggGame.status?.preordered === 1 || bggGame.status?.preordered === "1",
-      lastModified: bggGame.status?.lastmodified || "",
+      owned: bggGame.status.own,
+      previouslyOwned: bggGame.status.prevowned,
+      forTrade: bggGame.status.fortrade,
+      want: bggGame.status.want,
+      wantToPlay: bggGame.status.wanttoplay,
+      wantToBuy: bggGame.status.wanttobuy,
+      wishlist: bggGame.status.wishlist,
+      preordered: bggGame.status.preordered,
+      lastModified: bggGame.status.lastmodified,
     },
-    numPlays: typeof bggGame.numplays === "number" ? bggGame.numplays : parseInt(String(bggGame.numplays || "0"), 10),
-    // User's personal rating from BGG (stats.rating.value contains the user's rating)
-    userRating: bggGame.stats?.rating?.value !== undefined && bggGame.stats.rating.value !== ""
-      ? parseFloat(String(bggGame.stats.rating.value))
-      : undefined,
+    numPlays: bggGame.numplays,
+    wishlistPriority: bggGame.status.wishlistpriority,
+    // User's personal rating from BGG (stats.rating.value is the user's rating, or "N/A")
+    userRating: parseUserRating(bggGame.stats?.rating?.value),
   };
 }
 
+/**
+ * Extract the "suggested_numplayers" poll as per-player-count vote totals
+ * Returns undefined when the poll is missing or nobody has voted
+ */
+function extractSuggestedPlayers(gameInfo: GameInfo): PlayerCountVotes[] | undefined {
+  const poll = gameInfo.polls?.find((p) => p.name === "suggested_numplayers");
+  if (!poll || !poll.results || poll.results.length === 0) return undefined;
+
+  const votes = poll.results
+    .filter((r) => r.numplayers !== undefined)
+    .map((r) => {
+      const getVotes = (value: string) =>
+        r.result.find((v) => v.value === value)?.numvotes || 0;
+      return {
+        numPlayers: r.numplayers!,
+        best: getVotes("Best"),
+        recommended: getVotes("Recommended"),
+        notRecommended: getVotes("Not Recommended"),
+      };
+    });
+
+  const totalVotes = votes.reduce(
+    (sum, v) => sum + v.best + v.recommended + v.notRecommended,
+    0
+  );
+
+  return totalVotes > 0 ? votes : undefined;
+}
+
 /**
  * Merge detailed game info with collection data
- * Adds description, weight, categories, mechanics, designers
+ * Adds description, weight, categories, mechanics, designers, player count poll
  */
 export function mergeGameInfo(game: Game, gameInfo: GameInfo): Game {
   // Extract categories from links
@@ -95,10 +120,13 @@ export function mergeGameInfo(game: Game, gameInfo: GameInfo): Game {
     ?.filter((link) => link.type === "boardgamedesigner")
     .map((link) => link.value);
 
+  // Extract expansions from links (inbound links point back at a base game instead)
+  const expansionIds = gameInfo.links
+    ?.filter((link) => link.type === "boardgameexpansion" && !link.inbound)
+    .map((link) => link.id);
+
   // Get weight (complexity) from statistics
-  const weight = gameInfo.statistics?.ratings?.averageweight
-    ? parseFloat(gameInfo.statistics.ratings.averageweight.toString())
-    : undefined;
+  const weight = gameInfo.statistics?.ratings?.averageweight || undefined;
 
   return {
     ...game,
@@ -107,6 +135,8 @@ export function mergeGameInfo(game: Game, gameInfo: GameInfo): Game {
     categories,
     mechanics,
     designers,
+    suggestedPlayers: extractSuggestedPlayers(gameInfo),
+    expansionIds,
   };
 }
 
@@ -140,33 +170,33 @@ export function mergeGamesInfo(
 }
 
 /**
- * Convert BGG GameInfo directly to our Game format
- * Used when fetching a single game's details
+ * Attach owned expansions to their base games
+ * Relies on expansionIds, so games without detailed info get no expansions yet
+ * @param games Base games (with merged detailed info)
+ * @param expansions Owned expansions from the user's collection
+ * @returns Games with their owned expansions
  */
-export function gameInfoToGame(gameInfo: GameInfo): Game {
-  // Extract rank from ratings
-  let rank: number | null = null;
-  let strategyRank: number | null = null;
+export function mergeExpansions(games: Game[], expansions: Game[]): Game[] {
+  if (expansions.length === 0) return games;
 
-  if (gameInfo.statistics?.ratings?.ranks) {
-    const ranks = Array.isArray(gameInfo.statistics.ratings.ranks)
-      ? gameInfo.statistics.ratings.ranks
-      : [gameInfo.statistics.ratings.ranks];
-
-    const boardGameRank = ranks.find((r: any) => r.name === "boardgame" || r["@attributes"]?.name === "boardgame");
-    const strategyGameRank = ranks.find((r: any) => r.name === "strategygames" || r["@attributes"]?.name === "strategygames");
-
-    const rankValue = boardGameRank?.value || boardGameRank?.["@attributes"]?.value;
-    const strategyRankValue = strategyGameRank?.value || strategyGameRank?.["@attributes"]?.value;
+  const expansionMap = new Map<string, Game>();
+  expansions.forEach((expansion) => {
+    expansionMap.set(expansion.id, expansion);
+  });
 
-    rank = rankValue
-      ? (rankValue === "Not Ranked" ? null : parseInt(String(rankValue), 10))
-      : null;
-    strategyRank = strategyRankValue
-      ? (strategyRankValue === "Not Ranked" ? null : parseInt(String(strategyRankValue), 10))
-      : null;
-  }
+  return games.map((game) => {
+    const owned = game.expansionIds
+      ?.map((id) => expansionMap.get(id))
+      .filter((expansion): expansion is Game => !!expansion);
+    return owned && owned.length > 0 ? { ...game, expansions: owned } : game;
+  });
+}
 
+/**
+ * Convert BGG GameInfo directly to our Game format
+ * Used when fetching a single game's details
+ */
+export function gameInfoToGame(gameInfo: GameInfo): Game {
   // Extract categories from links
   const categories = gameInfo.links
     ?.filter((link) => link.type === "boardgamecategory")
@@ -182,10 +212,13 @@ export function gameInfoToGame(gameInfo: GameInfo): Game {
     ?.filter((link) => link.type === "boardgamedesigner")
     .map((link) => link.value);
 
+  // Extract expansions from links (inbound links point back at a base game instead)
+  const expansionIds = gameInfo.links
+    ?.filter((link) => link.type === "boardgameexpansion" && !link.inbound)
+    .map((link) => link.id);
+
   // Get weight (complexity) from statistics
-  const weight = gameInfo.statistics?.ratings?.averageweight
-    ? parseFloat(gameInfo.statistics.ratings.averageweight.toString())
-    : undefined;
+  const weight = gameInfo.statistics?.ratings?.averageweight || undefined;
 
   return {
     id: gameInfo.objectid,
@@ -195,20 +228,20 @@ export function gameInfoToGame(gameInfo: GameInfo): Game {
     image: gameInfo.image || "",
     thumbnail: gameInfo.thumbnail || "",
     players: {
-      min: parseInt(String(gameInfo.minplayers || 0), 10),
-      max: parseInt(String(gameInfo.maxplayers || 0), 10),
+      min: gameInfo.minplayers || 0,
+      max: gameInfo.maxplayers || 0,
     },
     playtime: {
-      min: parseInt(String(gameInfo.minplaytime || 0), 10),
-      max: parseInt(String(gameInfo.maxplaytime || 0), 10),
+      min: gameInfo.minplaytime || 0,
+      max: gameInfo.maxplaytime || 0,
     },
-    numOwned: parseInt(String(gameInfo.statistics?.ratings?.usersrated || 0), 10),
+    numOwned: gameInfo.statistics?.ratings?.usersrated || 0,
     rating: {
-      average: parseFloat(String(gameInfo.statistics?.ratings?.average || 0)),
-      bayesAverage: parseFloat(String(gameInfo.statistics?.ratings?.bayesaverage || 0)),
-      usersRated: parseInt(String(gameInfo.statistics?.ratings?.usersrated || 0), 10),
-      rank,
-      strategyRank,
+      average: gameInfo.statistics?.ratings?.average || 0,
+      bayesAverage: gameInfo.statistics?.ratings?.bayesaverage || 0,
+      usersRated: gameInfo.statistics?.ratings?.usersrated || 0,
+      rank: findRank(gameInfo.statistics?.ratings?.ranks, "boardgame"),
+      strategyRank: findRank(gameInfo.statistics?.ratings?.ranks, "strategygames"),
     },
     status: {
       owned: false,
@@ -227,6 +260,8 @@ export function gameInfoToGame(gameInfo: GameInfo): Game {
     categories,
     mechanics,
     designers,
+    suggestedPlayers: extractSuggestedPlayers(gameInfo),
+    expansionIds,
   };
 }
 
@@ -0,0 +1,88 @@
+import type { Game } from "@/types/game";
+import type { CollectionGame } from "@/services/bgg-api";
+
+/**
+ * Ratings at or above this count as "rated highly" for the game night boost
+ */
+export const HIGH_RATING = 8;
+
+export interface AttendeeCollection {
+  username: string;
+  games: Game[];
+}
+
+/**
+ * Combine several users' collections into one list of unique games
+ * Games are deduplicated by BGG id; each keeps the list of owners and their ratings,
+ * and userRating becomes the average of the owners' ratings so "my favorites"
+ * sorts by group favorites
+ */
+export function mergeCollections(collections: AttendeeCollection[]): Game[] {
+  const gameMap = new Map<string, Game>();
+
+  collections.forEach(({ username, games }) => {
+    games.forEach((game) => {
+      const existing = gameMap.get(game.id);
+      const merged: Game = existing
+        ? { ...existing }
+        : { ...game, owners: [], ownerRatings: {} };
+
+      if (!merged.owners!.includes(username)) {
+        merged.owners = [...merged.owners!, username];
+      }
+      if (game.userRating !== undefined) {
+        merged.ownerRatings = { ...merged.ownerRatings, [username]: game.userRating };
+      }
+
+      gameMap.set(game.id, merged);
+    });
+  });
+
+  return Array.from(gameMap.values()).map((game) => {
+    const ratings = Object.values(game.ownerRatings || {});
+    const userRating = ratings.length > 0
+      ? ratings.reduce((sum, r) => sum + r, 0) / ratings.length
+      : undefined;
+    return { ...game, userRating };
+  });
+}
+
+/**
+ * Weight multiplier for the random pick: one extra share per attendee who
+ * rated the game highly, so group favourites come up more often
+ */
+export function getGroupRatingBoost(game: Game): number {
+  const ratings = Object.values(game.ownerRatings || {});
+  return 1 + ratings.filter((rating) => rating >= HIGH_RATING).length;
+}
+
+/**
+ * Parse a comma separated list of usernames, dropping blanks and duplicates
+ * BGG usernames are case-insensitive, so the first spelling wins
+ */
+export function parseUsernames(value: string | null | undefined): string[] {
+  if (!value) return [];
+  const seen = new Set<string>();
+  return value
+    .split(",")
+    .map((u) => u.trim())
+    .filter((u) => {
+      const key = u.toLowerCase();
+      if (u.length === 0 || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Which of these users own a game
+ * A user counts as an owner when any of their collection entries for the game is marked owned
+ */
+export function findOwners(
+  collections: Array<{ username: string; items: CollectionGame[] }>,
+  gameId: string
+): string[] {
+  return collections
+    .filter(({ items }) => items.some((item) => item.objectid === gameId && item.status.own))
+    .map(({ username }) => username);
+}
@@ -0,0 +1,130 @@
+import type { Game, SortDirection, SortOption } from "@/types/game";
+
+/**
+ * Direction each sort option starts in when no direction was chosen
+ */
+export const DEFAULT_SORT_DIRECTIONS: Record<SortOption, SortDirection> = {
+  'user-rating': 'desc',
+  'rating': 'desc',
+  'name': 'asc',
+  'year': 'desc',
+  'complexity': 'asc',
+  'plays': 'desc',
+  'last-played': 'desc',
+  'wishlist-priority': 'asc', // must have first
+  'random': 'desc', // fallback, not used
+};
+
+/**
+ * Build a stable pseudo-random sort key for every game from a seed
+ * The same seed always produces the same order, so a shuffle survives navigation
+ */
+export function createRandomSortKeys(games: Game[], seed: number): Map<string, number> {
+  const keyMap = new Map<string, number>();
+  if (games.length === 0) return keyMap;
+  const hashId = (id: string) => {
+    let h = seed;
+    for (let i = 0; i < id.length; i++) {
+      h = Math.imul(31, h) + id.charCodeAt(i);
+      h |= 0;
+    }
+    h ^= h >>> 16;
+    h = Math.imul(h, 0x85ebca6b);
+    h ^= h >>> 13;
+    return h >>> 0;
+  };
+
+  games.forEach((game) => {
+    keyMap.set(game.id, hashId(game.id));
+  });
+
+  return keyMap;
+}
+
+/**
+ * Sort games by the selected option and direction
+ * @param games Games to sort (not modified)
+ * @param sortBy Sort option
+ * @param sortDirection Direction for directional sorts (ignored for random)
+ * @param randomSortKey Keys from createRandomSortKeys, used by the random sort
+ * @returns A new sorted array
+ */
+export function sortGames(
+  games: Game[],
+  sortBy: SortOption,
+  sortDirection: SortDirection,
+  randomSortKey: Map<string, number> = new Map()
+): Game[] {
+  const sortFunctions: Record<
+    SortOption,
+    (a: Game, b: Game) => number
+  > = {
+    "rating": (a, b) => {
+      const comparison = b.rating.average - a.rating.average;
+      return sortDirection === 'desc' ? comparison : -comparison;
+    },
+    "name": (a, b) => {
+      const comparison = b.name.localeCompare(a.name);
+      return sortDirection === 'desc' ? comparison : -comparison;
+    },
+    "year": (a, b) => {
+      const comparison = b.yearPublished - a.yearPublished;
+      return sortDirection === 'desc' ? comparison : -comparison;
+    },
+    "complexity": (a, b) => {
+      const comparison = (a.weight || 0) - (b.weight || 0);
+      return sortDirection === 'asc' ? comparison : -comparison;
+    },
+    "plays": (a, b) => {
+      const comparison = b.numPlays - a.numPlays;
+      if (comparison !== 0) return sortDirection === 'desc' ? comparison : -comparison;
+      // Tiebreaker: sort by last played (respects direction)
+      // desc: most, least, never (newest -> oldest)
+      // asc: never, least, most (oldest -> newest)
+      if (!a.lastPlayed && !b.lastPlayed) return 0;
+      if (!a.lastPlayed) return sortDirection === 'desc' ? 1 : -1;
+      if (!b.lastPlayed) return sortDirection === 'desc' ? -1 : 1;
+      const lastPlayedComparison = b.lastPlayed.getTime() - a.lastPlayed.getTime();
+      return sortDirection === 'desc' ? lastPlayedComparison : -lastPlayedComparison;
+    },
+    "user-rating": (a, b) => {
+      const comparison = (b.userRating || 0) - (a.userRating || 0);
+      return sortDirection === 'desc' ? comparison : -comparison;
+    },
+    "last-played": (a, b) => {
+      // Sort by lastPlayed date with direction support
+      // desc: recent, least recent, never
+      // asc: never, least recent, recent
+      if (!a.lastPlayed && !b.lastPlayed) return 0;
+      if (!a.lastPlayed) return sortDirection === 'desc' ? 1 : -1;
+      if (!b.lastPlayed) return sortDirection === 'desc' ? -1 : 1;
+      const comparison = b.lastPlayed.getTime() - a.lastPlayed.getTime();
+      return sortDirection === 'desc' ? comparison : -comparison;
+    },
+    "wishlist-priority": (a, b) => {
+      // Games without a priority (not wishlisted) always go last
+      if (!a.wishlistPriority && !b.wishlistPriority) return 0;
+      if (!a.wishlistPriority) return 1;
+      if (!b.wishlistPriority) return -1;
+      const comparison = a.wishlistPriority - b.wishlistPriority;
+      return sortDirection === 'asc' ? comparison : -comparison;
+    },
+    "random": (a, b) => {
+      const aKey = randomSortKey.get(a.id) ?? 0;
+      const bKey = randomSortKey.get(b.id) ?? 0;
+      // If games have the same random key (same objectid), sort by collectionId for consistency
+      if (aKey === bKey) {
+        return a.collectionId.localeCompare(b.collectionId);
+      }
+      return aKey - bKey;
+    },
+  };
+
+  // Only sort if we have a valid sort function, otherwise keep original order
+  const sortFn = sortFunctions[sortBy];
+  if (sortFn) {
+    return [...games].sort(sortFn);
+  }
+
+  return [...games];
+}
@@ -0,0 +1,134 @@
+/**
+ * Statistics over a user's logged plays
+ * Counts use each play's quantity, since one BGG play record can cover several games
+ */
+
+import type { PlayInfo } from "@/services/bgg-api";
+
+/**
+ * Play-count milestones, as tracked by the BGG community
+ * A game is a "nickel" once it has been played 5 times, and so on
+ */
+export const PLAY_MILESTONES = [
+  { name: "Quarters", plays: 25 },
+  { name: "Dimes", plays: 10 },
+  { name: "Nickels", plays: 5 },
+] as const;
+
+export type GamePlayCount = {
+  gameId: string;
+  gameName: string;
+  plays: number;
+  lastPlayed: Date;
+};
+
+export type MonthlyPlayCount = {
+  month: string; // YYYY-MM
+  label: string;
+  plays: number;
+};
+
+export type Milestone = {
+  name: string;
+  plays: number;
+  games: GamePlayCount[];
+};
+
+/**
+ * Total number of games played, counting each play's quantity
+ */
+export function countPlays(plays: PlayInfo[]): number {
+  return plays.reduce((sum, play) => sum + play.quantity, 0);
+}
+
+/**
+ * Plays ordered from most to least recent
+ */
+export function sortPlaysByDate(plays: PlayInfo[]): PlayInfo[] {
+  return [...plays].sort((a, b) => b.date.getTime() - a.date.getTime());
+}
+
+/**
+ * Per-game play counts, most played first
+ * @param since - Only count plays on or after this date
+ */
+export function getPlayCountsByGame(plays: PlayInfo[], since?: Date): GamePlayCount[] {
+  const counts = new Map<string, GamePlayCount>();
+
+  plays.forEach((play) => {
+    if (since && play.date < since) return;
+
+    const gameId = String(play.gameId);
+    const existing = counts.get(gameId);
+    if (existing) {
+      existing.plays += play.quantity;
+      if (play.date > existing.lastPlayed) existing.lastPlayed = play.date;
+    } else {
+      counts.set(gameId, {
+        gameId,
+        gameName: play.gameName || `Game ${gameId}`,
+        plays: play.quantity,
+        lastPlayed: play.date,
+      });
+    }
+  });
+
+  return Array.from(counts.values()).sort(
+    (a, b) => b.plays - a.plays || b.lastPlayed.getTime() - a.lastPlayed.getTime()
+  );
+}
+
+/**
+ * Play counts for each of the last `months` months, oldest first
+ * Months without plays are included with a count of 0
+ */
+export function getPlaysPerMonth(
+  plays: PlayInfo[],
+  months: number = 24,
+  now: Date = new Date()
+): MonthlyPlayCount[] {
+  const monthKey = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+
+  const result: MonthlyPlayCount[] = [];
+  for (let i = months - 1; i >= 0; i--) {
+    const date = new Date(now.getFullYear(), now.getMonth() - i, 1);
+    result.push({
+      month: monthKey(date),
+      label: date.toLocaleDateString(undefined, { month: "short", year: "2-digit" }),
+      plays: 0,
+    });
+  }
+
+  const byMonth = new Map(result.map((entry) => [entry.month, entry]));
+  plays.forEach((play) => {
+    const entry = byMonth.get(monthKey(play.date));
+    if (entry) entry.plays += play.quantity;
+  });
+
+  return result;
+}
+
+/**
+ * The largest h such that h games have each been played at least h times
+ */
+export function getHIndex(gameCounts: GamePlayCount[]): number {
+  const sorted = gameCounts.map((game) => game.plays).sort((a, b) => b - a);
+  let h = 0;
+  while (h < sorted.length && sorted[h] >= h + 1) {
+    h++;
+  }
+  return h;
+}
+
+/**
+ * Games reaching each play-count milestone
+ * A game counts towards every milestone it has reached (a dime is also a nickel)
+ */
+export function getMilestones(gameCounts: GamePlayCount[]): Milestone[] {
+  return PLAY_MILESTONES.map((milestone) => ({
+    name: milestone.name,
+    plays: milestone.plays,
+    games: gameCounts.filter((game) => game.plays >= milestone.plays),
+  }));
+}
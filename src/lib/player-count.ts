@@ -0,0 +1,83 @@
+import type { Game, PlayerCountMode, PlayerCountVotes } from "@/types/game";
+import { getPlayerRange } from "@/lib/expansions";
+
+/**
+ * Find the poll votes that apply to a player count.
+ * Uses the exact entry when present, otherwise the "N+" entry covering it
+ * (BGG adds a single "more than max" option such as "4+").
+ */
+export function getPlayerCountVotes(
+  game: Game,
+  count: number
+): PlayerCountVotes | undefined {
+  if (!game.suggestedPlayers) return undefined;
+
+  const exact = game.suggestedPlayers.find((v) => v.numPlayers === String(count));
+  if (exact) return exact;
+
+  return game.suggestedPlayers.find((v) => {
+    if (!v.numPlayers.endsWith("+")) return false;
+    return parseInt(v.numPlayers, 10) < count;
+  });
+}
+
+/**
+ * A player count is recommended when Best + Recommended votes outnumber
+ * Not Recommended votes (the same rule BGG uses on its game pages)
+ */
+export function isRecommendedAt(game: Game, count: number): boolean {
+  const votes = getPlayerCountVotes(game, count);
+  if (!votes) return false;
+  return votes.best + votes.recommended > votes.notRecommended;
+}
+
+/**
+ * A player count is best when "Best" received the most votes
+ */
+export function isBestAt(game: Game, count: number): boolean {
+  const votes = getPlayerCountVotes(game, count);
+  if (!votes || votes.best === 0) return false;
+  return votes.best >= votes.recommended && votes.best >= votes.notRecommended;
+}
+
+/**
+ * Check a game against the player count filter
+ * Poll-based modes also require the count to be within the publisher's range,
+ * and never match games whose poll has not loaded or has no votes.
+ * With includeExpansions, owned expansions may widen the range; the poll is
+ * always the base game's.
+ */
+export function matchesPlayerCount(
+  game: Game,
+  count: number,
+  mode: PlayerCountMode = "supports",
+  includeExpansions: boolean = false
+): boolean {
+  const players = getPlayerRange(game, includeExpansions);
+  const supports = players.min <= count && players.max >= count;
+  if (!supports) return false;
+
+  switch (mode) {
+    case "best":
+      return isBestAt(game, count);
+    case "recommended":
+      return isRecommendedAt(game, count);
+    default:
+      return true;
+  }
+}
+
+/**
+ * List the player counts within the publisher's range matching a predicate
+ * Used to summarise the poll, e.g. "Best with 3, 4"
+ */
+export function getPlayerCountsWhere(
+  game: Game,
+  predicate: (game: Game, count: number) => boolean
+): number[] {
+  const counts: number[] = [];
+  for (let count = game.players.min; count <= game.players.max; count++) {
+    if (predicate(game, count)) counts.push(count);
+  }
+  return counts;
+}
@@ -0,0 +1,198 @@
+/**
+ * Player statistics from the players recorded on logged plays
+ * The same person is often logged under a name on one play and a BGG username
+ * on another, so players are resolved through a user-editable alias map first.
+ */
+
+import type { PlayInfo } from "@/services/bgg-api";
+
+/**
+ * Maps a lowercased name or username to the person it refers to
+ */
+export type PlayerAliases = Record<string, string>;
+
+type PlayRecord = NonNullable<PlayInfo["players"]>[number];
+
+export type PlayerGameStats = {
+  gameId: string;
+  gameName: string;
+  plays: number;
+  wins: number;
+};
+
+export type PlayerStats = {
+  name: string;
+  plays: number;
+  wins: number;
+  winRate: number;
+  averageScore: number | null;
+  newPlays: number;
+  games: PlayerGameStats[];
+};
+
+export type HeadToHeadRecord = {
+  opponent: string;
+  plays: number;
+  wins: number;
+  losses: number;
+};
+
+function aliasKey(value: string | undefined): string {
+  return (value || "").trim().toLowerCase();
+}
+
+/**
+ * Resolve a player on a play to the person they refer to
+ * Checks the username before the name, since usernames are unique on BGG
+ */
+export function resolvePlayer(player: PlayRecord, aliases: PlayerAliases): string | null {
+  const username = String(player.username ?? "").trim();
+  const name = String(player.name ?? "").trim();
+
+  return (
+    aliases[aliasKey(username)] ||
+    aliases[aliasKey(name)] ||
+    name ||
+    username ||
+    null
+  );
+}
+
+/**
+ * The distinct people on a play, with the play's flags merged per person
+ * Aliases can map two entries on one play to the same person
+ */
+function getPlayParticipants(play: PlayInfo, aliases: PlayerAliases) {
+  const participants = new Map<string, { win: boolean; new: boolean; score: number | null }>();
+
+  play.players?.forEach((player) => {
+    const person = resolvePlayer(player, aliases);
+    if (!person) return;
+
+    const score = parseFloat(String(player.score ?? ""));
+    const existing = participants.get(person);
+    participants.set(person, {
+      win: (existing?.win ?? false) || player.win === true,
+      new: (existing?.new ?? false) || player.new === true,
+      score: Number.isNaN(score) ? existing?.score ?? null : score,
+    });
+  });
+
+  return participants;
+}
+
+/**
+ * Win rate and score statistics for everyone who appears on the plays, most frequent first
+ * Plays count their quantity; scores are averaged over plays with a numeric score
+ */
+export function getPlayerStats(plays: PlayInfo[], aliases: PlayerAliases): PlayerStats[] {
+  const stats = new Map<
+    string,
+    {
+      plays: number;
+      wins: number;
+      newPlays: number;
+      scoreTotal: number;
+      scoredPlays: number;
+      games: Map<string, PlayerGameStats>;
+    }
+  >();
+
+  plays.forEach((play) => {
+    const gameId = String(play.gameId);
+
+    getPlayParticipants(play, aliases).forEach((result, person) => {
+      let entry = stats.get(person);
+      if (!entry) {
+        entry = { plays: 0, wins: 0, newPlays: 0, scoreTotal: 0, scoredPlays: 0, games: new Map() };
+        stats.set(person, entry);
+      }
+
+      entry.plays += play.quantity;
+      if (result.win) entry.wins += play.quantity;
+      if (result.new) entry.newPlays += 1;
+      if (result.score !== null) {
+        entry.scoreTotal += result.score;
+        entry.scoredPlays += 1;
+      }
+
+      let game = entry.games.get(gameId);
+      if (!game) {
+        game = { gameId, gameName: play.gameName || `Game ${gameId}`, plays: 0, wins: 0 };
+        entry.games.set(gameId, game);
+      }
+      game.plays += play.quantity;
+      if (result.win) game.wins += play.quantity;
+    });
+  });
+
+  return Array.from(stats.entries())
+    .map(([name, entry]) => ({
+      name,
+      plays: entry.plays,
+      wins: entry.wins,
+      winRate: entry.plays > 0 ? entry.wins / entry.plays : 0,
+      averageScore: entry.scoredPlays > 0 ? entry.scoreTotal / entry.scoredPlays : null,
+      newPlays: entry.newPlays,
+      games: Array.from(entry.games.values()).sort((a, b) => b.plays - a.plays),
+    }))
+    .sort((a, b) => b.plays - a.plays || a.name.localeCompare(b.name));
+}
+
+/**
+ * Head-to-head records between a player and everyone they have played with
+ * A win means the player won and the opponent didn't; a loss is the reverse
+ */
+export function getHeadToHead(
+  plays: PlayInfo[],
+  player: string,
+  aliases: PlayerAliases
+): HeadToHeadRecord[] {
+  const records = new Map<string, HeadToHeadRecord>();
+
+  plays.forEach((play) => {
+    const participants = getPlayParticipants(play, aliases);
+    const self = participants.get(player);
+    if (!self) return;
+
+    participants.forEach((opponent, name) => {
+      if (name === player) return;
+
+      let record = records.get(name);
+      if (!record) {
+        record = { opponent: name, plays: 0, wins: 0, losses: 0 };
+        records.set(name, record);
+      }
+
+      record.plays += play.quantity;
+      if (self.win && !opponent.win) record.wins += play.quantity;
+      if (opponent.win && !self.win) record.losses += play.quantity;
+    });
+  });
+
+  return Array.from(records.values()).sort((a, b) => b.plays - a.plays);
+}
+
+/**
+ * Add an alias, pointing anything that referred to the alias at the same person
+ */
+export function addPlayerAlias(aliases: PlayerAliases, alias: string, person: string): PlayerAliases {
+  const key = aliasKey(alias);
+  const target = aliases[aliasKey(person)] || person.trim();
+  if (!key || !target || key === aliasKey(target)) return aliases;
+
+  const updated: PlayerAliases = {};
+  Object.entries(aliases).forEach(([existing, canonical]) => {
+    updated[existing] = aliasKey(canonical) === key ? target : canonical;
+  });
+  updated[key] = target;
+  return updated;
+}
+
+/**
+ * Remove an alias so the name counts as its own player again
+ */
+export function removePlayerAlias(aliases: PlayerAliases, alias: string): PlayerAliases {
+  const key = aliasKey(alias);
+  return Object.fromEntries(Object.entries(aliases).filter(([existing]) => existing !== key));
+}
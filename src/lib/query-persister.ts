@@ -0,0 +1,183 @@
+/**
+ * IndexedDB persistence for the React Query cache
+ * Lets collections, game details and plays survive a reload, so the app can
+ * render from the last snapshot and revalidate in the background
+ */
+
+import type { Query, QueryKey } from "@tanstack/react-query";
+import type { PersistedClient, Persister } from "@tanstack/react-query-persist-client";
+
+/**
+ * Bump when the shape of persisted data changes (e.g. new Game or GameInfo fields)
+ * Also used as the persist buster, so older snapshots are discarded
+ */
+export const CACHE_SCHEMA_VERSION = 4;
+
+const DB_NAME = "cardboard-maid";
+const STORE_NAME = "query-cache";
+const CLIENT_KEY = "client";
+
+// Writes happen on every cache update, so batch them
+const PERSIST_THROTTLE_MS = 1000;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/**
+ * How long each kind of BGG data is kept in the cache (memory and IndexedDB)
+ * Game details rarely change; plays change whenever someone logs a game
+ */
+export const CACHE_TTL = {
+  user: 7 * DAY,
+  collection: 3 * DAY,
+  thing: 14 * DAY,
+  plays: 1 * DAY,
+} as const;
+
+/**
+ * Longest TTL, used as the persister's overall maxAge
+ */
+export const MAX_CACHE_TTL = Math.max(...Object.values(CACHE_TTL));
+
+/**
+ * Map a query key to its TTL, or undefined for queries that should not be persisted
+ */
+export function getQueryTtl(queryKey: QueryKey): number | undefined {
+  if (queryKey[0] !== "bgg") return undefined;
+
+  switch (queryKey[1]) {
+    case "user":
+      return CACHE_TTL.user;
+    case "collection":
+    case "expansions":
+      return CACHE_TTL.collection;
+    case "game":
+      return CACHE_TTL.thing;
+    case "plays":
+    case "gamePlays":
+      return CACHE_TTL.plays;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Only persist successful BGG queries that have a TTL
+ */
+export function shouldPersistQuery(query: Query): boolean {
+  return query.state.status === "success" && getQueryTtl(query.queryKey) !== undefined;
+}
+
+function isExpired(queryKey: QueryKey, dataUpdatedAt: number, now: number): boolean {
+  const ttl = getQueryTtl(queryKey);
+  return ttl === undefined || now - dataUpdatedAt > ttl;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, CACHE_SCHEMA_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      // Start from scratch on schema changes - the data can always be refetched
+      if (db.objectStoreNames.contains(STORE_NAME)) {
+        db.deleteObjectStore(STORE_NAME);
+      }
+      db.createObjectStore(STORE_NAME);
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Create a persister that stores the dehydrated cache in IndexedDB
+ * IndexedDB uses structured cloning, so Dates (e.g. play dates) survive as-is.
+ * Restored queries past their own TTL are dropped before hydration.
+ * Falls back to a no-op when IndexedDB is unavailable (e.g. private browsing).
+ */
+export function createIndexedDbPersister(): Persister {
+  if (typeof indexedDB === "undefined") {
+    return {
+      persistClient: () => undefined,
+      restoreClient: () => undefined,
+      removeClient: () => undefined,
+    };
+  }
+
+  let pending: PersistedClient | null = null;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = async () => {
+    timeout = null;
+    const client = pending;
+    pending = null;
+    if (!client) return;
+    try {
+      await runTransaction("readwrite", (store) => store.put(client, CLIENT_KEY));
+    } catch (error) {
+      console.error("Failed to persist query cache:", error);
+    }
+  };
+
+  return {
+    persistClient: (client) => {
+      pending = client;
+      if (!timeout) {
+        timeout = setTimeout(flush, PERSIST_THROTTLE_MS);
+      }
+    },
+
+    restoreClient: async () => {
+      try {
+        const client = await runTransaction<PersistedClient | undefined>(
+          "readonly",
+          (store) => store.get(CLIENT_KEY)
+        );
+        if (!client) return undefined;
+
+        const now = Date.now();
+        return {
+          ...client,
+          clientState: {
+            ...client.clientState,
+            queries: client.clientState.queries.filter(
+              (query) => !isExpired(query.queryKey, query.state.dataUpdatedAt, now)
+            ),
+          },
+        };
+      } catch (error) {
+        console.error("Failed to restore query cache:", error);
+        return undefined;
+      }
+    },
+
+    removeClient: async () => {
+      try {
+        await runTransaction("readwrite", (store) => store.delete(CLIENT_KEY));
+      } catch (error) {
+        console.error("Failed to clear query cache:", error);
+      }
+    },
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Service worker registration and connection status
+ * The service worker (src/service-worker.js) tells the page when it had to answer
+ * a BGG request from its cache because the network failed, so the app can say
+ * it's showing a saved snapshot.
+ */
+
+// Must match the messages posted by src/service-worker.js
+const SNAPSHOT_MESSAGE = "bgg-snapshot";
+const FRESH_MESSAGE = "bgg-fresh";
+
+export type ConnectionStatus = {
+  isOnline: boolean;
+  /** When the BGG data being shown was cached, if it came from the offline cache */
+  snapshotAt: number | null;
+  /** Whether any BGG data is coming from the offline cache */
+  isSnapshot: boolean;
+};
+
+let status: ConnectionStatus = {
+  isOnline: typeof navigator === "undefined" ? true : navigator.onLine,
+  snapshotAt: null,
+  isSnapshot: false,
+};
+
+const listeners = new Set<() => void>();
+
+function setStatus(changes: Partial<ConnectionStatus>) {
+  status = { ...status, ...changes };
+  listeners.forEach((listener) => listener());
+}
+
+export function getConnectionStatus(): ConnectionStatus {
+  return status;
+}
+
+export function subscribeToConnectionStatus(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Track the connection and register the service worker (production builds only,
+ * the dev server's modules aren't precached)
+ */
+export function registerServiceWorker() {
+  window.addEventListener("online", () => setStatus({ isOnline: true }));
+  window.addEventListener("offline", () => setStatus({ isOnline: false }));
+
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+
+  navigator.serviceWorker.addEventListener("message", (event: MessageEvent) => {
+    if (event.data?.type === SNAPSHOT_MESSAGE) {
+      // Keep the oldest snapshot time, that's how stale the page can be
+      const cachedAt: number | null = event.data.cachedAt;
+      setStatus({
+        isSnapshot: true,
+        snapshotAt: status.snapshotAt && cachedAt ? Math.min(status.snapshotAt, cachedAt) : cachedAt,
+      });
+    } else if (event.data?.type === FRESH_MESSAGE && status.isOnline) {
+      setStatus({ isSnapshot: false, snapshotAt: null });
+    }
+  });
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+}
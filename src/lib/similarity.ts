@@ -0,0 +1,144 @@
+import type { Game } from "@/types/game";
+
+/**
+ * A game similar to another one, with what they have in common
+ */
+export interface SimilarGame {
+  game: Game;
+  score: number;
+  sharedMechanics: string[];
+  sharedCategories: string[];
+  sharedDesigners: string[];
+  similarWeight: boolean;
+  similarLength: boolean;
+}
+
+// How much each trait counts towards the score. Mechanics say the most about how
+// a game plays, so they have the largest single weight.
+const MECHANICS_WEIGHT = 4;
+const CATEGORIES_WEIGHT = 2;
+const DESIGNER_WEIGHT = 2;
+const COMPLEXITY_WEIGHT = 1;
+const PLAYERS_WEIGHT = 0.5;
+const PLAYTIME_WEIGHT = 0.5;
+
+/**
+ * Games scoring less than this aren't worth suggesting
+ * (a single shared category and similar player counts doesn't make a game alike)
+ */
+export const MIN_SIMILARITY = 2;
+
+// Largest weight difference (on BGG's 1-5 scale) still called "similar weight"
+const SIMILAR_WEIGHT_DIFFERENCE = 0.5;
+// Share of the combined playtime range both games must cover to be "similar length"
+const SIMILAR_LENGTH_OVERLAP = 0.75;
+
+function shared(values: string[] = [], others: string[] = []): string[] {
+  const otherSet = new Set(others);
+  return values.filter((value) => otherSet.has(value));
+}
+
+/**
+ * Shared values as a share of all the values either game has (0 when neither has any)
+ */
+function jaccard(sharedCount: number, values: string[] = [], others: string[] = []): number {
+  const total = new Set([...values, ...others]).size;
+  return total === 0 ? 0 : sharedCount / total;
+}
+
+/**
+ * How much of the combined range both ranges cover, from 0 (disjoint) to 1 (identical)
+ * With a step of 0, a single value (a fixed 30-minute playtime) is a point and
+ * counts as covered when it falls inside the other range
+ * @param step 1 for counts, where both ends are included (2-4 players is 3 counts)
+ */
+function rangeOverlap(a: { min: number; max: number }, b: { min: number; max: number }, step: number): number {
+  if (!a.max || !b.max) return 0;
+  if (step === 0 && (a.min === a.max || b.min === b.max)) {
+    const [point, range] = a.min === a.max ? [a, b] : [b, a];
+    return point.min >= range.min && point.min <= range.max ? 1 : 0;
+  }
+  const overlap = Math.min(a.max, b.max) - Math.max(a.min, b.min) + step;
+  const combined = Math.max(a.max, b.max) - Math.min(a.min, b.min) + step;
+  if (combined <= 0) return 1;
+  return Math.max(0, overlap / combined);
+}
+
+/**
+ * Compare a candidate with the game, or null when they have no mechanic,
+ * category or designer in common
+ */
+export function compareGames(game: Game, candidate: Game): SimilarGame | null {
+  const sharedMechanics = shared(game.mechanics, candidate.mechanics);
+  const sharedCategories = shared(game.categories, candidate.categories);
+  const sharedDesigners = shared(game.designers, candidate.designers);
+
+  if (sharedMechanics.length + sharedCategories.length + sharedDesigners.length === 0) {
+    return null;
+  }
+
+  const weightDifference = game.weight && candidate.weight ? Math.abs(game.weight - candidate.weight) : null;
+  const playtimeOverlap = rangeOverlap(game.playtime, candidate.playtime, 0);
+
+  const score =
+    MECHANICS_WEIGHT * jaccard(sharedMechanics.length, game.mechanics, candidate.mechanics) +
+    CATEGORIES_WEIGHT * jaccard(sharedCategories.length, game.categories, candidate.categories) +
+    (sharedDesigners.length > 0 ? DESIGNER_WEIGHT : 0) +
+    (weightDifference === null ? 0 : COMPLEXITY_WEIGHT * Math.max(0, 1 - weightDifference / 2)) +
+    PLAYERS_WEIGHT * rangeOverlap(game.players, candidate.players, 1) +
+    PLAYTIME_WEIGHT * playtimeOverlap;
+
+  return {
+    game: candidate,
+    score,
+    sharedMechanics,
+    sharedCategories,
+    sharedDesigners,
+    similarWeight: weightDifference !== null && weightDifference <= SIMILAR_WEIGHT_DIFFERENCE,
+    similarLength: playtimeOverlap >= SIMILAR_LENGTH_OVERLAP,
+  };
+}
+
+/**
+ * The candidates most similar to a game, most similar first
+ * Scores mechanics, categories and designers in common, then closeness in weight,
+ * player count and playtime. The game itself and repeated copies are skipped.
+ */
+export function findSimilarGames(game: Game, candidates: Game[], limit: number = 5): SimilarGame[] {
+  const seen = new Set([game.id]);
+  const matches: SimilarGame[] = [];
+
+  candidates.forEach((candidate) => {
+    if (seen.has(candidate.id)) return;
+    seen.add(candidate.id);
+
+    const match = compareGames(game, candidate);
+    if (match && match.score >= MIN_SIMILARITY) matches.push(match);
+  });
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.game.name.localeCompare(b.game.name))
+    .slice(0, limit);
+}
+
+/**
+ * Why a game was suggested, e.g. "shares Deck Building, Worker Placement; same designer"
+ * Names at most three shared mechanics and categories, mechanics first
+ */
+export function describeSimilarity(match: SimilarGame): string {
+  const reasons: string[] = [];
+
+  const sharedTraits = [...match.sharedMechanics, ...match.sharedCategories];
+  if (sharedTraits.length > 0) {
+    const named = sharedTraits.slice(0, 3).join(", ");
+    const more = sharedTraits.length - 3;
+    reasons.push(more > 0 ? `shares ${named} and ${more} more` : `shares ${named}`);
+  }
+  if (match.sharedDesigners.length > 0) {
+    reasons.push(match.sharedDesigners.length === 1 ? "same designer" : "same designers");
+  }
+  if (match.similarWeight) reasons.push("similar weight");
+  if (match.similarLength) reasons.push("similar length");
+
+  return reasons.join("; ");
+}
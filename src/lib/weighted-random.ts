@@ -11,10 +11,17 @@ import { Game } from "@/types/game";
  * - Index 10: weight ≈ 0.20
  * - Index 20: weight ≈ 0.04
  *
+ * An optional boost multiplies each game's decay weight, e.g. to favour games
+ * that several game night attendees rated highly. Boosts should be positive.
+ *
  * @param games - Array of games to pick from (should be pre-sorted by desired criteria)
+ * @param getBoost - Optional weight multiplier per game (defaults to 1)
  * @returns A randomly selected game with weighted probability
  */
-export function pickWeightedRandomGame(games: Game[]): Game {
+export function pickWeightedRandomGame(
+  games: Game[],
+  getBoost?: (game: Game) => number
+): Game {
   if (games.length === 0) {
     throw new Error("Cannot pick from empty game list");
   }
@@ -27,7 +34,7 @@ export function pickWeightedRandomGame(games: Game[]): Game {
   const DECAY_FACTOR = 0.85;
   const weights = games.map((game, index) => ({
     game,
-    weight: Math.pow(DECAY_FACTOR, index),
+    weight: Math.pow(DECAY_FACTOR, index) * (getBoost ? getBoost(game) : 1),
   }));
 
   // Calculate total weight
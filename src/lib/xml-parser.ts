@@ -1,302 +1,217 @@
 /**
  * XML to JSON conversion utilities for BoardGameGeek API responses
  * BGG XMLAPI2 returns XML that needs to be parsed and converted to JSON
+ * The JSON is validated and typed by the schemas in src/services/bgg-schemas.ts
+ *
+ * The parser is plain TypeScript rather than the browser's DOMParser, so the same
+ * parsing runs in the browser, in Node (tests, scripts) and in the api/ functions.
+ * It covers what BGG sends: elements, attributes, text, CDATA, comments and the
+ * standard entities. DTDs and namespaces are skipped, not interpreted.
  */
 
 /**
- * Parse XML string and convert to JSON object
- * Uses browser's native DOMParser for XML parsing
+ * An XML element as JSON
+ * - attributes and child elements become properties (repeated children become arrays)
+ * - an element with only text becomes that string
+ * - text next to attributes is kept in `_text`
+ * Values are never converted, so ids like "007" keep their exact text
  */
-export function parseXmlToJson(xmlString: string): any {
-  const parser = new DOMParser();
-  const xmlDoc = parser.parseFromString(xmlString, 'text/xml');
+export type XmlValue = string | XmlNode | XmlValue[];
+export type XmlNode = { [key: string]: XmlValue };
 
-  // Check for parsing errors
-  const parseError = xmlDoc.getElementsByTagName('parsererror');
-  if (parseError.length > 0) {
-    throw new Error(`XML parsing error: ${parseError[0].textContent}`);
-  }
+type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+};
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+const TAG_NAME = /^[^\s/>]+/;
+const ATTRIBUTE = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
 
-  return xmlElementToJson(xmlDoc.documentElement);
+/**
+ * Malformed XML
+ */
+export class XmlParseError extends Error {
+  constructor(message: string) {
+    super(`XML parsing error: ${message}`);
+    this.name = "XmlParseError";
+  }
 }
 
 /**
- * Convert an XML element to a JavaScript object
+ * Decode character and entity references, once
+ * BGG double-encodes some text (e.g. "&amp;#10;" in descriptions), which stays "&#10;"
  */
-function xmlElementToJson(element: Element): any {
-  const obj: any = {};
-
-  // Add attributes
-  for (let i = 0; i < element.attributes.length; i++) {
-    const attr = element.attributes[i];
-    obj[attr.name] = parseValue(attr.value);
-  }
+function decodeEntities(value: string): string {
+  if (!value.includes("&")) return value;
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (reference, name: string) => {
+    if (name[0] !== "#") return ENTITIES[name] ?? reference;
+    const codePoint = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : reference;
+  });
+}
 
-  // Process child elements
-  const children = element.children;
-  if (children.length === 0) {
-    // Leaf node - add text content if it exists
-    const text = element.textContent?.trim();
-    if (text && Object.keys(obj).length === 0) {
-      return parseValue(text);
-    }
-    if (text) {
-      obj._text = parseValue(text);
-    }
-  } else {
-    for (let i = 0; i < children.length; i++) {
-      const child = children[i];
-      const childName = child.tagName;
-      const childValue = xmlElementToJson(child);
+// Index just past `terminator`, searching from `from`
+function indexAfter(xml: string, terminator: string, from: number): number {
+  const index = xml.indexOf(terminator, from);
+  if (index === -1) throw new XmlParseError(`missing "${terminator}"`);
+  return index + terminator.length;
+}
 
-      if (obj[childName] !== undefined) {
-        // Multiple elements with same name - convert to array
-        if (!Array.isArray(obj[childName])) {
-          obj[childName] = [obj[childName]];
-        }
-        obj[childName].push(childValue);
-      } else {
-        obj[childName] = childValue;
-      }
+// Index of the ">" closing the tag opened at `from`, skipping quoted attribute values
+function findTagEnd(xml: string, from: number): number {
+  let quote: string | null = null;
+  for (let i = from; i < xml.length; i++) {
+    const char = xml[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      return i;
     }
   }
-
-  return obj;
+  throw new XmlParseError("unterminated tag");
 }
 
-/**
- * Parse string value to appropriate type
- */
-function parseValue(value: string): string | number {
-  // Try to parse as number
-  if (/^-?\d+\.?\d*$/.test(value)) {
-    return parseFloat(value);
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    attributes[match[1]] = decodeEntities(match[2] ?? match[3]);
   }
-  return value;
+  return attributes;
 }
 
 /**
- * Parse BGG user info XML response
- * Endpoint: https://boardgamegeek.com/xmlapi2/user?name={username}
+ * Parse an XML document into its root element
  */
-export function parseUserInfo(xmlString: string): {
-  id: string;
-  name: string;
-  yearregistered?: number;
-  lastmodified?: string;
-} | null {
-  try {
-    const json = parseXmlToJson(xmlString);
-
-    // Check if user exists
-    if (!json || json["@attributes"]?.type === "error" || json.error) {
-      return null;
+function parseDocument(xml: string): XmlElement {
+  const open: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let i = 0;
+
+  while (i < xml.length) {
+    const tagStart = xml.indexOf("<", i);
+    const textEnd = tagStart === -1 ? xml.length : tagStart;
+
+    // Text between tags (whitespace outside the root element is ignored)
+    if (textEnd > i && open.length > 0) {
+      open[open.length - 1].text += decodeEntities(xml.slice(i, textEnd));
+    }
+    if (tagStart === -1) break;
+
+    if (xml.startsWith("<!--", tagStart)) {
+      i = indexAfter(xml, "-->", tagStart);
+    } else if (xml.startsWith("<![CDATA[", tagStart)) {
+      const end = indexAfter(xml, "]]>", tagStart);
+      if (open.length > 0) open[open.length - 1].text += xml.slice(tagStart + 9, end - 3);
+      i = end;
+    } else if (xml.startsWith("<?", tagStart)) {
+      i = indexAfter(xml, "?>", tagStart);
+    } else if (xml.startsWith("<!", tagStart)) {
+      // <!DOCTYPE ...>
+      i = findTagEnd(xml, tagStart) + 1;
+    } else if (xml[tagStart + 1] === "/") {
+      const end = findTagEnd(xml, tagStart);
+      const name = xml.slice(tagStart + 2, end).trim();
+      const element = open.pop();
+      if (!element || element.name !== name) {
+        throw new XmlParseError(`unexpected closing tag </${name}>`);
+      }
+      i = end + 1;
+    } else {
+      const end = findTagEnd(xml, tagStart);
+      const selfClosing = xml[end - 1] === "/";
+      const source = xml.slice(tagStart + 1, selfClosing ? end - 1 : end);
+      const name = source.match(TAG_NAME)?.[0];
+      if (!name) throw new XmlParseError("missing tag name");
+
+      const element: XmlElement = {
+        name,
+        attributes: parseAttributes(source.slice(name.length)),
+        children: [],
+        text: "",
+      };
+      if (open.length > 0) {
+        open[open.length - 1].children.push(element);
+      } else if (root) {
+        throw new XmlParseError(`more than one root element (<${name}>)`);
+      } else {
+        root = element;
+      }
+      if (!selfClosing) open.push(element);
+      i = end + 1;
     }
-
-    return {
-      id: json.id?._text || json.id || json["@attributes"]?.id,
-      name: json.name?._text || json.name || json["@attributes"]?.name,
-      yearregistered: json.yearregistered?._text || json.yearregistered,
-      lastmodified: json.lastmodified?._text || json.lastmodified,
-    };
-  } catch (error) {
-    console.error("Error parsing user info:", error);
-    return null;
   }
+
+  if (open.length > 0) throw new XmlParseError(`unclosed tag <${open[open.length - 1].name}>`);
+  if (!root) throw new XmlParseError("no root element");
+  return root;
 }
 
 /**
- * Parse BGG collection XML response
- * Endpoint: https://boardgamegeek.com/xmlapi2/collection?username={username}&own=1&stats=1
+ * Parse XML string and convert to JSON object
+ * @throws XmlParseError when the XML is malformed
  */
-export function parseCollection(xmlString: string): any[] {
-  try {
-    const json = parseXmlToJson(xmlString);
-
-    // BGG returns <items> containing <item> elements
-    // The root element after parsing is "items", and it has "item" as a direct child
-    const items = json.item || json.items?.item;
-
-    if (!items) {
-      console.log("No items found in parsed JSON:", json);
-      return [];
-    }
-
-    // Ensure we have an array
-    const itemsArray = Array.isArray(items) ? items : [items];
-
-    return itemsArray.map((item: any) => ({
-      // Core item attributes (directly on item in BGG XMLAPI2)
-      objectid: item.objectid,
-      objecttype: item.objecttype,
-      subtype: item.subtype,
-      collid: item.collid,
-
-      // Basic info
-      name: item.name?._text || item.name,
-      yearpublished: item.yearpublished,
-
-      // Images
-      image: item.image,
-      thumbnail: item.thumbnail,
-
-      // Stats (directly on stats object, not in @attributes)
-      stats: item.stats && {
-        minplayers: item.stats.minplayers,
-        maxplayers: item.stats.maxplayers,
-        minplaytime: item.stats.minplaytime,
-        maxplaytime: item.stats.maxplaytime,
-        playingtime: item.stats.playingtime,
-        numowned: item.stats.numowned,
-
-        // Rating information (nested values are under "value" attribute)
-        rating: item.stats.rating && {
-          value: item.stats.rating.value,
-          usersrated: item.stats.rating.usersrated?.value,
-          average: item.stats.rating.average?.value,
-          bayesaverage: item.stats.rating.bayesaverage?.value,
-          stddev: item.stats.rating.stddev?.value,
-          median: item.stats.rating.median?.value,
-
-          // Ranks (can be single object or array)
-          ranks: item.stats.rating.ranks?.rank
-        }
-      },
-
-      // Status (directly on status object)
-      status: item.status && {
-        own: item.status.own,
-        prevowned: item.status.prevowned,
-        fortrade: item.status.fortrade,
-        want: item.status.want,
-        wanttoplay: item.status.wanttoplay,
-        wanttobuy: item.status.wanttobuy,
-        wishlist: item.status.wishlist,
-        preordered: item.status.preordered,
-        lastmodified: item.status.lastmodified,
-      },
-
-      // Number of plays
-      numplays: item.numplays || 0,
-    }));
-  } catch (error) {
-    console.error("Error parsing collection:", error);
-    return [];
-  }
+export function parseXmlToJson(xmlString: string): XmlValue {
+  return xmlElementToJson(parseDocument(xmlString));
 }
 
 /**
- * Parse BGG game details XML response
- * Endpoint: https://boardgamegeek.com/xmlapi2/thing?id={gameId}&stats=1
+ * Convert an XML element to a JavaScript object
  */
-export function parseGameInfo(xmlString: string): any | null {
-  try {
-    const json = parseXmlToJson(xmlString);
+function xmlElementToJson(element: XmlElement): XmlValue {
+  const obj: XmlNode = { ...element.attributes };
 
-    // BGG returns <items> containing <item> elements
-    const items = json.items?.item;
-
-    if (!items) {
-      return null;
+  // Process child elements
+  if (element.children.length === 0) {
+    // Leaf node - add text content if it exists
+    const text = element.text.trim();
+    if (text && Object.keys(obj).length === 0) {
+      return text;
     }
-
-    // Handle single item or array
-    const item = Array.isArray(items) ? items[0] : items;
-
-    // Parse name (get primary name if multiple names exist)
-    let name = "";
-    if (Array.isArray(item.name)) {
-      const primary = item.name.find((n: any) => n["@attributes"]?.type === "primary");
-      name = primary?.["@attributes"]?.value || item.name[0]?.["@attributes"]?.value || "";
-    } else {
-      name = item.name?.["@attributes"]?.value || "";
+    if (text) {
+      obj._text = text;
     }
+  } else {
+    for (const child of element.children) {
+      const childValue = xmlElementToJson(child);
+      const existing = obj[child.name];
 
-    return {
-      objectid: item["@attributes"]?.id,
-      objecttype: item["@attributes"]?.type,
-
-      // Basic info
-      name,
-      sortindex: item.name?.["@attributes"]?.sortindex,
-      description: item.description?._text || item.description,
-
-      // Year and images
-      yearpublished: item.yearpublished?._text || item.yearpublished?.["@attributes"]?.value,
-      image: item.image?._text || item.image,
-      thumbnail: item.thumbnail?._text || item.thumbnail,
-
-      // Players and playtime
-      minplayers: item.minplayers?._text || item.minplayers?.["@attributes"]?.value,
-      maxplayers: item.maxplayers?._text || item.maxplayers?.["@attributes"]?.value,
-      playtime: item.playtime?._text || item.playtime?.["@attributes"]?.value,
-      minplaytime: item.minplaytime?._text || item.minplaytime?.["@attributes"]?.value,
-      maxplaytime: item.maxplaytime?._text || item.maxplaytime?.["@attributes"]?.value,
-
-      // Age and language
-      minage: item.minage?._text || item.minage?.["@attributes"]?.value,
-
-      // Categories, mechanics, etc.
-      links: item.link && (
-        Array.isArray(item.link)
-          ? item.link.map((l: any) => ({
-              type: l["@attributes"]?.type,
-              id: l["@attributes"]?.id,
-              value: l["@attributes"]?.value,
-            }))
-          : [{
-              type: item.link?.["@attributes"]?.type,
-              id: item.link?.["@attributes"]?.id,
-              value: item.link?.["@attributes"]?.value,
-            }]
-      ),
-
-      // Polls (player count poll, language dependence, etc.)
-      polls: item.poll && (
-        Array.isArray(item.poll)
-          ? item.poll.map((p: any) => ({
-              name: p["@attributes"]?.name,
-              title: p["@attributes"]?.title,
-              totalvotes: p["@attributes"]?.totalvotes,
-            }))
-          : [{
-              name: item.poll?.["@attributes"]?.name,
-              title: item.poll?.["@attributes"]?.title,
-              totalvotes: item.poll?.["@attributes"]?.totalvotes,
-            }]
-      ),
-
-      // Stats
-      statistics: item.statistics && {
-        ratings: item.statistics.ratings && {
-          usersrated: item.statistics.ratings.usersrated?._text || item.statistics.ratings.usersrated?.["@attributes"]?.value,
-          average: item.statistics.ratings.average?._text || item.statistics.ratings.average?.["@attributes"]?.value,
-          bayesaverage: item.statistics.ratings.bayesaverage?._text || item.statistics.ratings.bayesaverage?.["@attributes"]?.value,
-          stddev: item.statistics.ratings.stddev?._text || item.statistics.ratings.stddev?.["@attributes"]?.value,
-          median: item.statistics.ratings.median?._text || item.statistics.ratings.median?.["@attributes"]?.value,
-
-          // Ranks
-          ranks: item.statistics.ratings.ranks?.rank,
-
-          // Weight
-          averageweight: item.statistics.ratings.averageweight?._text || item.statistics.ratings.averageweight?.["@attributes"]?.value,
+      if (existing !== undefined) {
+        // Multiple elements with same name - convert to array
+        if (Array.isArray(existing)) {
+          existing.push(childValue);
+        } else {
+          obj[child.name] = [existing, childValue];
         }
+      } else {
+        obj[child.name] = childValue;
       }
-    };
-  } catch (error) {
-    console.error("Error parsing game info:", error);
-    return null;
+    }
   }
+
+  return obj;
 }
 
 /**
  * Check if BGG API is still processing the request
- * BGG returns HTTP 202 with a message when the request is being processed
+ * BGG answers a queued request with HTTP 202 and a bare <message> document, e.g.
+ * <message>Your request for this collection has been accepted and will be processed...</message>
+ * fetchWithRetry already polls on the 202; this catches the same body served with another status
  */
 export function isBggProcessing(xmlString: string): boolean {
   try {
-    const json = parseXmlToJson(xmlString);
-    return json?.html?.body?.p?.includes("processed") || false;
+    return parseDocument(xmlString).name === "message";
   } catch {
     return false;
   }
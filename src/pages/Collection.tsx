@@ -1,19 +1,59 @@
 import { useState, useMemo, useEffect } from "react";
-import { useNavigate, useParams } from "react-router-dom";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { GameCard } from "@/components/GameCard";
 import { FilterHeader } from "@/components/FilterHeader";
 import { Footer } from "@/components/Footer";
 import { GameModal } from "@/components/GameModal";
-import { FilterState, SortOption, SortDirection, Game } from "@/types/game";
-import { useUserCollection, useGamesInfo, useValidateUsername, useUserPlays } from "@/hooks/use-bgg-api";
-import { mapCollectionToGames, mergeGamesInfo, mergePlays } from "@/lib/game-mapper";
+import { CollectionStatusView, FilterState, SortOption, SortDirection, Game } from "@/types/game";
+import { useUserCollection, useUserExpansions, useGamesInfo, useValidateUsername, useUserPlays } from "@/hooks/use-bgg-api";
+import { mapCollectionToGames, mergeGamesInfo, mergeExpansions, mergePlays } from "@/lib/game-mapper";
 import { pickWeightedRandomGame } from "@/lib/weighted-random";
+import {
+  DEFAULT_COLLECTION_VIEW,
+  DEFAULT_FILTERS,
+  filterByCollectionStatus,
+  filterGames,
+  getFilterOptions,
+  needsGameDetails,
+  normalizeFilters,
+  toggleFilterValue,
+} from "@/lib/game-filters";
+import { createRandomSortKeys, sortGames, DEFAULT_SORT_DIRECTIONS } from "@/lib/game-sort";
+import {
+  hasCollectionViewParams,
+  isCollectionStatusView,
+  readCollectionView,
+  writeCollectionView,
+  type CollectionView,
+} from "@/lib/collection-url";
+import type { BggRequestStatus } from "@/services/bgg-request";
+import { isBggError } from "@/services/bgg-errors";
+import { describeBggError } from "@/lib/bgg-error-messages";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, RefreshCw } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { ArrowLeft, RefreshCw, X } from "lucide-react";
+
+// What to suggest when a view of the collection has no games
+const emptyViewMessages: Record<CollectionStatusView, string> = {
+  owned: 'Make sure you have marked games as "owned" on BoardGameGeek.',
+  wishlist: "Games you add to your wishlist on BoardGameGeek will show up here.",
+  wantToPlay: 'Games you mark as "want to play" on BoardGameGeek will show up here.',
+  forTrade: 'Games you mark as "for trade" on BoardGameGeek will show up here.',
+  previouslyOwned: 'Games you mark as "previously owned" on BoardGameGeek will show up here.',
+};
+
+// Loading screen line while BGG is queuing the collection request
+function describeRequestStatus(status: BggRequestStatus): string {
+  const wait = `~${Math.max(1, Math.round(status.retryInMs / 1000))}s`;
+  return status.state === "queued"
+    ? `BGG is preparing your collection (attempt ${status.attempt}, ${wait})`
+    : `BGG isn't responding, trying again (attempt ${status.attempt}, ${wait})`;
+}
 
 const Collection = () => {
   const navigate = useNavigate();
   const { username: urlUsername } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
 
   // Get initial sortBy from localStorage with migration for old sort options
   const getInitialSortBy = (): SortOption => {
@@ -55,9 +95,9 @@ const Collection = () => {
     (window.performance.getEntriesByType('navigation')[0] as any)?.type === 'reload'
   ) || false;
 
-  // Random seed state - persists in localStorage to maintain shuffle during navigation
-  // But regenerates on page refresh
-  const [randomSeed, setRandomSeed] = useState<number>(() => {
+  // Random seed - persists in localStorage to maintain shuffle during navigation
+  // But regenerates on page refresh (unless the URL carries a seed)
+  const [storedRandomSeed] = useState<number>(() => {
     const stored = localStorage.getItem("bgg-random-seed");
     const sessionOriginKey = "bgg-time-origin";
     const timeOrigin = Math.floor(window.performance.timeOrigin || 0);
@@ -84,122 +124,147 @@ const Collection = () => {
   });
 
   const [username, setUsername] = useState<string>("");
-  const [filters, setFilters] = useState<FilterState>(() => {
-    const saved = localStorage.getItem("bgg-filters");
-    return saved
-      ? JSON.parse(saved)
-      : {
-          playerCount: null,
-          minPlaytime: null,
-          maxPlaytime: null,
-          category: null,
-          searchQuery: null,
-        };
-  });
-  const [sortBy, setSortBy] = useState<SortOption>(() => initialSortBy);
   const [pickedGame, setPickedGame] = useState<Game | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
-  // Sort direction for directional sorts (defaults based on sort option)
-  const [sortDirection, setSortDirection] = useState<SortDirection>(() => {
-    const saved = localStorage.getItem("bgg-sortDirection");
-    if (saved) return saved === 'desc' ? 'desc' : 'asc';
-
-    // Set default direction based on sort option
-    const defaults: Record<SortOption, SortDirection> = {
-      'user-rating': 'desc',
-      'rating': 'desc',
-      'name': 'asc',
-      'year': 'desc',
-      'complexity': 'asc',
-      'plays': 'desc',
-      'last-played': 'desc',
-      'random': 'desc', // fallback, not used
+  // The view last used, from localStorage - shown when the URL doesn't describe one
+  const [storedView] = useState<CollectionView>(() => {
+    const savedFilters = localStorage.getItem("bgg-filters");
+    const savedDirection = localStorage.getItem("bgg-sortDirection");
+    const savedCollectionStatus = localStorage.getItem("bgg-collection-view");
+
+    return {
+      collectionStatus: isCollectionStatusView(savedCollectionStatus) ? savedCollectionStatus : DEFAULT_COLLECTION_VIEW,
+      // Merge with defaults so filters saved by older versions pick up new fields
+      filters: savedFilters ? normalizeFilters(JSON.parse(savedFilters)) : DEFAULT_FILTERS,
+      sortBy: initialSortBy,
+      // Sort direction for directional sorts (defaults based on sort option)
+      sortDirection: savedDirection
+        ? (savedDirection === 'desc' ? 'desc' : 'asc')
+        : DEFAULT_SORT_DIRECTIONS[initialSortBy] || 'desc',
+      randomSeed: storedRandomSeed,
     };
-
-    return defaults[initialSortBy] || 'desc';
   });
 
+  // URL params win over localStorage, so shared links and back/forward show the right view
+  const hasUrlView = hasCollectionViewParams(searchParams);
+  const view = useMemo(
+    () => (hasUrlView ? readCollectionView(searchParams, storedRandomSeed) : storedView),
+    [hasUrlView, searchParams, storedRandomSeed, storedView]
+  );
+  const { collectionStatus, filters, sortBy, sortDirection, randomSeed } = view;
+
+  // Every view change is a history entry, except typing in the search box
+  const updateView = (changes: Partial<CollectionView>, replace = false) => {
+    setSearchParams(writeCollectionView(searchParams, { ...view, ...changes }), { replace });
+  };
+
+  const setFilters = (newFilters: FilterState) => {
+    const onlySearchChanged =
+      JSON.stringify({ ...newFilters, searchQuery: null }) === JSON.stringify({ ...filters, searchQuery: null });
+    updateView({ filters: newFilters }, onlySearchChanged);
+  };
+
+  const setSortBy = (newSortBy: SortOption) => {
+    updateView({ sortBy: newSortBy });
+  };
+
+  // The wishlist is browsed by priority; other views can't sort by it
+  const setCollectionStatus = (newStatus: CollectionStatusView) => {
+    let newSortBy = sortBy;
+    if (newStatus === "wishlist") {
+      newSortBy = "wishlist-priority";
+    } else if (sortBy === "wishlist-priority") {
+      newSortBy = "user-rating";
+    }
+    updateView({
+      collectionStatus: newStatus,
+      sortBy: newSortBy,
+      sortDirection: newSortBy === sortBy ? sortDirection : DEFAULT_SORT_DIRECTIONS[newSortBy],
+    });
+  };
+
+  // Write the stored view into the URL when arriving without one
+  useEffect(() => {
+    if (!hasUrlView) {
+      setSearchParams(writeCollectionView(searchParams, storedView), { replace: true });
+    }
+  }, [hasUrlView, searchParams, setSearchParams, storedView]);
+
   // Fetch collection from BGG API
   const {
     data: bggCollection,
     isLoading: isLoadingCollection,
+    isFetching: isFetchingCollection,
     error: collectionError,
     refetch: refetchCollection,
+    requestStatus: collectionRequestStatus,
+    cancel: cancelCollection,
   } = useUserCollection(username, !!username);
 
+  // Only the games in the selected view (owned, wishlist, ...) are shown
+  const collectionGames = useMemo(() => {
+    if (!bggCollection) return [];
+    return filterByCollectionStatus(mapCollectionToGames(bggCollection), collectionStatus);
+  }, [bggCollection, collectionStatus]);
+
   // Fetch detailed game info for better data (categories, mechanics, weight, etc.)
   const gameIds = useMemo(() => {
-    return bggCollection?.map((game) => game.objectid) || [];
-  }, [bggCollection]);
+    return collectionGames.map((game) => game.id);
+  }, [collectionGames]);
+
+  // Details are cached per game and fill in batch by batch
+  const {
+    data: gamesInfo,
+    isLoading: isLoadingGamesInfo,
+    loadedCount: loadedGamesInfoCount,
+    totalCount: totalGamesInfoCount,
+  } = useGamesInfo(gameIds, gameIds.length > 0);
 
-  const { data: gamesInfo, isLoading: isLoadingGamesInfo } = useGamesInfo(gameIds, gameIds.length > 0);
+  // Fetch owned expansions so they can be shown on (and widen the ranges of) their base games
+  const { data: bggExpansions } = useUserExpansions(username, !!username);
 
   // Fetch user plays to get lastPlayed dates
   const { data: plays } = useUserPlays(username, !!username);
 
   // Convert BGG collection to our Game format and merge with detailed info
   const games = useMemo(() => {
-    if (!bggCollection) return [];
-
-    let games = mapCollectionToGames(bggCollection);
+    let games = collectionGames;
 
     if (gamesInfo && gamesInfo.length > 0) {
       games = mergeGamesInfo(games, gamesInfo);
     }
 
+    if (bggExpansions && bggExpansions.length > 0) {
+      games = mergeExpansions(games, mapCollectionToGames(bggExpansions));
+    }
+
     if (plays && plays.length > 0) {
       games = mergePlays(games, plays);
     }
 
     return games;
-  }, [bggCollection, gamesInfo, plays]);
-
-  const randomSortKey = useMemo(() => {
-    const keyMap = new Map<string, number>();
-    if (games.length === 0) return keyMap;
-    const seed = randomSeed;
-    const hashId = (id: string) => {
-      let h = seed;
-      for (let i = 0; i < id.length; i++) {
-        h = Math.imul(31, h) + id.charCodeAt(i);
-        h |= 0;
-      }
-      h ^= h >>> 16;
-      h = Math.imul(h, 0x85ebca6b);
-      h ^= h >>> 13;
-      return h >>> 0;
-    };
-
-    games.forEach((game) => {
-      keyMap.set(game.id, hashId(game.id));
-    });
+  }, [collectionGames, gamesInfo, bggExpansions, plays]);
 
-    return keyMap;
-  }, [games, randomSeed]);
+  const randomSortKey = useMemo(
+    () => createRandomSortKeys(games, randomSeed),
+    [games, randomSeed]
+  );
 
-  // Extract all unique categories from games
-  const availableCategories = useMemo(() => {
-    const categorySet = new Set<string>();
-    games.forEach((game) => {
-      game.categories?.forEach((cat) => categorySet.add(cat));
-    });
-    return Array.from(categorySet).sort();
-  }, [games]);
+  // Collect the categories, mechanics and designers the filters can offer
+  const filterOptions = useMemo(() => getFilterOptions(games), [games]);
 
   // Handle category click from game card
   const handleCategoryClick = (category: string) => {
     setFilters({
       ...filters,
-      category: filters.category === category ? null : category,
+      categories: toggleFilterValue(filters.categories, category),
     });
   };
 
   // Handle reshuffle for random sort
   const handleReshuffle = () => {
-    const newSeed = Date.now();
-    localStorage.setItem("bgg-random-seed", String(newSeed));
-    setRandomSeed(newSeed);
+    updateView({ randomSeed: Date.now() });
   };
 
   const handleRefreshCollection = () => {
@@ -209,7 +274,7 @@ const Collection = () => {
 
   // Handle sort direction toggle
   const handleSortDirectionToggle = () => {
-    setSortDirection(prev => prev === 'asc' ? 'desc' : 'asc');
+    updateView({ sortDirection: sortDirection === 'asc' ? 'desc' : 'asc' });
   };
 
   const handlePickRandom = () => {
@@ -285,148 +350,59 @@ const Collection = () => {
     localStorage.setItem("bgg-sortBy", sortBy);
   }, [sortBy]);
 
+  useEffect(() => {
+    localStorage.setItem("bgg-random-seed", String(randomSeed));
+  }, [randomSeed]);
+
   useEffect(() => {
     localStorage.setItem("bgg-sortDirection", sortDirection);
   }, [sortDirection]);
 
-  // Redirect to home with username if collection fails to load
   useEffect(() => {
-    if (collectionError && username) {
-      // Check if error is a 404 or indicates user not found
-      const errorMessage = collectionError instanceof Error ? collectionError.message : String(collectionError);
-      if (errorMessage.includes("not found") || errorMessage.includes("404")) {
-        navigate(`/?username=${username}`);
-      }
+    localStorage.setItem("bgg-collection-view", collectionStatus);
+  }, [collectionStatus]);
+
+  // Back to the username form if BGG doesn't know the user
+  useEffect(() => {
+    if (isBggError(collectionError, "NotFound") && username) {
+      navigate(`/?username=${username}`);
     }
   }, [collectionError, username, navigate]);
 
   const filteredAndSortedGames = useMemo(() => {
-    let gamesList = [...games];
-
-    // Apply filters
-    if (filters.playerCount !== null) {
-      gamesList = gamesList.filter((game) => {
-        return (
-          game.players.min <= filters.playerCount! &&
-          game.players.max >= filters.playerCount!
-        );
-      });
-    }
-
-    if (filters.minPlaytime !== null) {
-      gamesList = gamesList.filter(
-        (game) => game.playtime.max >= filters.minPlaytime!
-      );
-    }
-
-    if (filters.maxPlaytime !== null) {
-      gamesList = gamesList.filter(
-        (game) => game.playtime.min <= filters.maxPlaytime!
-      );
-    }
-
-    // Filter by category
-    if (filters.category) {
-      gamesList = gamesList.filter((game) => {
-        return game.categories?.includes(filters.category!);
-      });
-    }
-
-    // Filter by search query
-    if (filters.searchQuery) {
-      const query = filters.searchQuery.toLowerCase();
-      gamesList = gamesList.filter((game) => {
-        return game.name.toLowerCase().includes(query);
-      });
-    }
-
-    // Apply sorting
-    const sortFunctions: Record<
-      SortOption,
-      (a: Game, b: Game) => number
-    > = {
-      "rating": (a, b) => {
-        const comparison = b.rating.average - a.rating.average;
-        return sortDirection === 'desc' ? comparison : -comparison;
-      },
-      "name": (a, b) => {
-        const comparison = b.name.localeCompare(a.name);
-        return sortDirection === 'desc' ? comparison : -comparison;
-      },
-      "year": (a, b) => {
-        const comparison = b.yearPublished - a.yearPublished;
-        return sortDirection === 'desc' ? comparison : -comparison;
-      },
-      "complexity": (a, b) => {
-        const comparison = (a.weight || 0) - (b.weight || 0);
-        return sortDirection === 'asc' ? comparison : -comparison;
-      },
-      "plays": (a, b) => {
-        const comparison = b.numPlays - a.numPlays;
-        if (comparison !== 0) return sortDirection === 'desc' ? comparison : -comparison;
-        // Tiebreaker: sort by last played (respects direction)
-        // desc: most, least, never (newest -> oldest)
-        // asc: never, least, most (oldest -> newest)
-        if (!a.lastPlayed && !b.lastPlayed) return 0;
-        if (!a.lastPlayed) return sortDirection === 'desc' ? 1 : -1;
-        if (!b.lastPlayed) return sortDirection === 'desc' ? -1 : 1;
-        const lastPlayedComparison = b.lastPlayed.getTime() - a.lastPlayed.getTime();
-        return sortDirection === 'desc' ? lastPlayedComparison : -lastPlayedComparison;
-      },
-      "user-rating": (a, b) => {
-        const comparison = (b.userRating || 0) - (a.userRating || 0);
-        return sortDirection === 'desc' ? comparison : -comparison;
-      },
-      "last-played": (a, b) => {
-        // Sort by lastPlayed date with direction support
-        // desc: recent, least recent, never
-        // asc: never, least recent, recent
-        if (!a.lastPlayed && !b.lastPlayed) return 0;
-        if (!a.lastPlayed) return sortDirection === 'desc' ? 1 : -1;
-        if (!b.lastPlayed) return sortDirection === 'desc' ? -1 : 1;
-        const comparison = b.lastPlayed.getTime() - a.lastPlayed.getTime();
-        return sortDirection === 'desc' ? comparison : -comparison;
-      },
-      "random": (a, b) => {
-        const aKey = randomSortKey.get(a.id) ?? 0;
-        const bKey = randomSortKey.get(b.id) ?? 0;
-        // If games have the same random key (same objectid), sort by collectionId for consistency
-        if (aKey === bKey) {
-          return a.collectionId.localeCompare(b.collectionId);
-        }
-        return aKey - bKey;
-      },
-    };
-
-    // Only sort if we have a valid sort function, otherwise keep original order
-    const sortFn = sortFunctions[sortBy];
-    if (sortFn) {
-      gamesList = [...gamesList].sort(sortFn);
-    }
-
-    return gamesList;
-  }, [games, filters, sortBy, sortDirection, randomSeed, randomSortKey]);
+    return sortGames(filterGames(games, filters), sortBy, sortDirection, randomSortKey);
+  }, [games, filters, sortBy, sortDirection, randomSortKey]);
 
   // Loading state
   if (!username) {
     return null; // Will redirect in useEffect
   }
 
-  // Show loading if we're fetching collection OR if we have a category filter and gamesInfo is still loading
-  // (because we need categories to properly filter)
-  const isLoadingRequiredData = isLoadingCollection || (filters.category && isLoadingGamesInfo && bggCollection);
+  // Some filters depend on gamesInfo (categories, mechanics, weight and the player count poll
+  // only come with the detailed game info), so their results keep growing while details are loading
+  const needsGamesInfo = needsGameDetails(filters);
 
-  if (isLoadingRequiredData) {
+  if (isLoadingCollection) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
           <RefreshCw className="w-12 h-12 text-primary animate-spin mx-auto mb-4" />
           <p className="text-xl text-muted-foreground font-display">
-            {isLoadingCollection ? 'Loading your collection...' : 'Loading game details...'}
+            Loading your collection...
           </p>
-          <p className="text-sm text-muted-foreground mt-2">
-            {isLoadingCollection ? 'This may take a moment for large collections' : 'Fetching categories and mechanics'}
+          <p className="text-sm text-muted-foreground mt-2" aria-live="polite">
+            {collectionRequestStatus
+              ? describeRequestStatus(collectionRequestStatus)
+              : "This may take a moment for large collections"}
           </p>
+          <Button
+            variant="outline"
+            onClick={cancelCollection}
+            className="gap-2 mt-6"
+          >
+            <X className="w-4 h-4" />
+            Cancel
+          </Button>
         </div>
       </div>
     );
@@ -434,20 +410,56 @@ const Collection = () => {
 
   // Error state
   if (collectionError) {
+    const message = describeBggError(
+      collectionError,
+      "An error occurred while fetching your collection from BoardGameGeek",
+      "user"
+    );
+
     return (
       <div className="min-h-screen bg-background flex items-center justify-center p-4">
         <div className="text-center max-w-md">
           <p className="text-xl text-destructive font-display mb-4">
-            Failed to load collection
+            {message.title}
           </p>
           <p className="text-sm text-muted-foreground mb-6">
-            {collectionError instanceof Error
-              ? collectionError.message
-              : "An error occurred while fetching your collection from BoardGameGeek"}
+            {message.description}
           </p>
           <div className="flex gap-4 justify-center">
+            {message.canRetry && (
+              <Button
+                onClick={handleRefreshCollection}
+                className="gap-2"
+              >
+                <RefreshCw className="w-4 h-4" />
+                {message.kind === "StillProcessing" ? "Check Again" : "Try Again"}
+              </Button>
+            )}
             <Button
-              onClick={handleRefreshCollection}
+              variant={message.canRetry ? "outline" : "default"}
+              onClick={() => navigate(`/?username=${username}`)}
+              className="gap-2"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              {message.kind === "NotFound" ? "Change Username" : "Back"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Cancelled before the collection arrived
+  if (!bggCollection && !isFetchingCollection) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <div className="text-center max-w-md">
+          <p className="text-xl text-muted-foreground font-display mb-6">
+            Stopped loading your collection
+          </p>
+          <div className="flex gap-4 justify-center">
+            <Button
+              onClick={() => refetchCollection()}
               className="gap-2"
             >
               <RefreshCw className="w-4 h-4" />
@@ -475,6 +487,8 @@ const Collection = () => {
         <div className="min-h-screen bg-background">
           <FilterHeader
             username={username}
+            collectionStatus={collectionStatus}
+            onCollectionStatusChange={setCollectionStatus}
             filters={filters}
             sortBy={sortBy}
             sortDirection={sortDirection}
@@ -505,6 +519,8 @@ const Collection = () => {
       <div className="min-h-screen bg-background">
         <FilterHeader
           username={username}
+          collectionStatus={collectionStatus}
+          onCollectionStatusChange={setCollectionStatus}
           filters={filters}
           sortBy={sortBy}
           sortDirection={sortDirection}
@@ -521,8 +537,8 @@ const Collection = () => {
               No games found in your collection
             </p>
             <p className="text-sm text-muted-foreground mb-6">
-              Make sure you have marked games as "owned" on BoardGameGeek.
-              Expansions are automatically excluded.
+              {emptyViewMessages[collectionStatus]}
+              {collectionStatus === "owned" && " Expansions are listed on their base games."}
             </p>
             <Button
               onClick={handleRefreshCollection}
@@ -542,6 +558,8 @@ const Collection = () => {
     <div className="min-h-screen bg-background flex flex-col">
       <FilterHeader
         username={username}
+        collectionStatus={collectionStatus}
+        onCollectionStatusChange={setCollectionStatus}
         filters={filters}
         sortBy={sortBy}
         sortDirection={sortDirection}
@@ -550,11 +568,28 @@ const Collection = () => {
         onSortDirectionToggle={handleSortDirectionToggle}
         totalGames={games.length}
         filteredCount={filteredAndSortedGames.length}
-        availableCategories={availableCategories}
+        filterOptions={filterOptions}
         onReshuffle={sortBy === "random" ? handleReshuffle : undefined}
         onPickRandom={handlePickRandom}
+        playsUrl={`/plays/${encodeURIComponent(username)}`}
+        statsUrl={`/stats/${encodeURIComponent(username)}`}
       />
 
+      {isLoadingGamesInfo && totalGamesInfoCount > 0 && (
+        <div className="w-full px-4 pt-4">
+          <div className="flex items-center justify-center gap-3 text-sm text-muted-foreground">
+            <RefreshCw className="w-4 h-4 text-primary animate-spin shrink-0" />
+            <span>
+              {loadedGamesInfoCount}/{totalGamesInfoCount} details loaded
+            </span>
+            <Progress
+              value={(loadedGamesInfoCount / totalGamesInfoCount) * 100}
+              className="h-1.5 max-w-xs"
+            />
+          </div>
+        </div>
+      )}
+
       <main className="w-full px-4 py-8">
         {filteredAndSortedGames.length > 0 ? (
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 2xl:grid-cols-[repeat(auto-fill,minmax(280px,1fr))] gap-6">
@@ -565,17 +600,19 @@ const Collection = () => {
                 index={index}
                 sortBy={sortBy}
                 onCategoryClick={handleCategoryClick}
-                selectedCategory={filters.category}
+                selectedCategories={filters.categories}
               />
             ))}
           </div>
         ) : (
           <div className="text-center py-16">
             <p className="text-xl text-muted-foreground font-display">
-              No games match your filters
+              {needsGamesInfo && isLoadingGamesInfo ? "Loading game details..." : "No games match your filters"}
             </p>
             <p className="text-sm text-muted-foreground mt-2">
-              Try adjusting your search criteria
+              {needsGamesInfo && isLoadingGamesInfo
+                ? "Fetching categories, mechanics and player count polls"
+                : "Try adjusting your search criteria"}
             </p>
           </div>
         )}
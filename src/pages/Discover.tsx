@@ -0,0 +1,148 @@
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { useHotGames, useUserCollection } from "@/hooks/use-bgg-api";
+import { describeBggError } from "@/lib/bgg-error-messages";
+import { mapCollectionToGames } from "@/lib/game-mapper";
+import { SimpleHeader } from "@/components/SimpleHeader";
+import { Footer } from "@/components/Footer";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Flame, RefreshCw } from "lucide-react";
+import type { CollectionStatusView } from "@/types/game";
+
+// Statuses worth pointing out on the hotness list, in the order the badges are shown
+const STATUS_BADGES: { status: CollectionStatusView; label: string; variant: "default" | "secondary" | "outline" }[] = [
+  { status: "owned", label: "Owned", variant: "default" },
+  { status: "wishlist", label: "Wishlisted", variant: "secondary" },
+  { status: "previouslyOwned", label: "Previously owned", variant: "outline" },
+];
+
+const Discover = () => {
+  const username = localStorage.getItem("bgg-username") || "";
+  const { data: hotGames, isLoading, isFetching, error, refetch } = useHotGames();
+
+  // Usually cached by the collection page, so the badges show up right away
+  const { data: collection } = useUserCollection(username, !!username);
+
+  // Collection status of each game, combined across copies (a game can be owned and previously owned)
+  const badgesById = useMemo(() => {
+    const badges = new Map<string, Set<string>>();
+    mapCollectionToGames(collection || []).forEach((game) => {
+      STATUS_BADGES.forEach(({ status, label }) => {
+        if (!game.status[status]) return;
+        if (!badges.has(game.id)) badges.set(game.id, new Set());
+        badges.get(game.id).add(label);
+      });
+    });
+    return badges;
+  }, [collection]);
+
+  const errorMessage = error ? describeBggError(error, "Failed to load the hotness list") : null;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <SimpleHeader />
+
+      <main className="container mx-auto px-4 py-8 space-y-6 animate-fade-in flex-1">
+        {username && (
+          <Link
+            to={`/collection/${encodeURIComponent(username)}`}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-secondary hover:bg-secondary/80 rounded-full text-primary font-medium transition-colors"
+          >
+            <ArrowLeft className="w-3.5 h-3.5" />
+            <span className="text-sm">Back to Collection</span>
+          </Link>
+        )}
+
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+              <Flame className="w-7 h-7 text-primary" />
+              Hot right now
+            </h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              The board games getting the most attention on BoardGameGeek
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => refetch()}
+            disabled={isFetching}
+            aria-label="Refresh the hotness list"
+          >
+            <RefreshCw className={`w-4 h-4 ${isFetching ? "animate-spin" : ""}`} />
+          </Button>
+        </div>
+
+        {isLoading && (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <RefreshCw className="w-4 h-4 animate-spin text-primary" />
+            <span className="text-sm">Loading the hotness list...</span>
+          </div>
+        )}
+
+        {errorMessage && !hotGames && (
+          <div className="bg-card rounded-xl p-5 border border-border max-w-xl">
+            <p className="font-semibold text-destructive">{errorMessage.title}</p>
+            <p className="text-sm text-muted-foreground mt-1">{errorMessage.description}</p>
+            {errorMessage.canRetry && (
+              <Button variant="outline" size="sm" className="mt-3" onClick={() => refetch()}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Try again
+              </Button>
+            )}
+          </div>
+        )}
+
+        {hotGames && (
+          <ol className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {hotGames.map((game) => (
+              <li key={game.objectid}>
+                <Link
+                  to={`/game/${game.objectid}`}
+                  className="flex items-center gap-3 h-full bg-card rounded-xl border border-border p-3 hover:bg-secondary/50 transition-colors"
+                >
+                  <span className="w-7 text-center text-sm font-semibold text-muted-foreground flex-shrink-0">
+                    {game.rank}
+                  </span>
+                  {game.thumbnail ? (
+                    <img
+                      src={game.thumbnail}
+                      alt={game.name}
+                      loading="lazy"
+                      className="w-14 h-14 rounded-lg object-cover flex-shrink-0"
+                    />
+                  ) : (
+                    <div className="w-14 h-14 rounded-lg bg-secondary flex-shrink-0" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium line-clamp-2">{game.name}</p>
+                    {game.yearpublished > 0 && (
+                      <p className="text-xs text-muted-foreground">{game.yearpublished}</p>
+                    )}
+                    {badgesById.has(game.objectid) && (
+                      <div className="flex flex-wrap gap-1 mt-1">
+                        {STATUS_BADGES.filter(({ label }) => badgesById.get(game.objectid).has(label)).map(
+                          ({ label, variant }) => (
+                            <Badge key={label} variant={variant} className="font-normal rounded-full text-xs">
+                              {label}
+                            </Badge>
+                          )
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </Link>
+              </li>
+            ))}
+          </ol>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Discover;
@@ -1,12 +1,19 @@
 import { useParams, Link, useSearchParams, useLocation } from "react-router-dom";
-import { useGameInfo, useGamePlays } from "@/hooks/use-bgg-api";
-import { gameInfoToGame } from "@/lib/game-mapper";
+import { useGameInfo, useGamePlays, useUserCollection, useUserCollections, useUserExpansions } from "@/hooks/use-bgg-api";
+import { useConsidering } from "@/hooks/use-considering";
+import { gameInfoToGame, mapCollectionToGames, mergeExpansions } from "@/lib/game-mapper";
+import { getPlayerCountsWhere, isBestAt, isRecommendedAt } from "@/lib/player-count";
+import { sortPlaysByDate } from "@/lib/play-stats";
+import { findOwners, parseUsernames } from "@/lib/game-night";
+import { describeBggError } from "@/lib/bgg-error-messages";
 import { SimpleHeader } from "@/components/SimpleHeader";
+import { PlayEntry } from "@/components/PlayEntry";
+import { SimilarGames } from "@/components/SimilarGames";
 import { Footer } from "@/components/Footer";
-import { ArrowLeft, Star, Users, Clock, BarChart3, Trophy, Calendar, Hash, RefreshCw, ExternalLink } from "lucide-react";
+import { ArrowLeft, Star, Users, Clock, BarChart3, Trophy, Calendar, Hash, RefreshCw, ExternalLink, BookmarkPlus, BookmarkCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import type { Game } from "@/types/game";
 
 const GameDetail = () => {
@@ -18,11 +25,26 @@ const GameDetail = () => {
   // Get collection game data passed via router state (for games with duplicate objectids)
   const collectionGame = location.state?.collectionGame as Game | undefined;
 
-  const { data: gameInfo, isLoading, error } = useGameInfo(id || "", !!id);
+  const { data: gameInfo, isLoading, error, refetch } = useGameInfo(id || "", !!id);
   const { data: plays } = useGamePlays(bggUsername, id || "", !!bggUsername && !!id);
+  const { data: bggExpansions } = useUserExpansions(bggUsername, !!bggUsername);
+  const considering = useConsidering();
+
+  // Friends saved for game night, to show which of them own this game
+  const friends = useMemo(
+    () =>
+      parseUsernames(localStorage.getItem("bgg-game-night-users")).filter(
+        (friend) => friend.toLowerCase() !== bggUsername.toLowerCase()
+      ),
+    [bggUsername]
+  );
+  const { data: userCollection, isLoading: isLoadingUserCollection } = useUserCollection(bggUsername, !!bggUsername);
+  // Friends' collections are only fetched on request; ones game night already loaded come from the cache
+  const [checkFriends, setCheckFriends] = useState(false);
+  const friendQueries = useUserCollections(friends, { enabled: checkFriends });
 
   // Merge game info with collection data and plays data
-  const game = useMemo(() => {
+  const mergedGame = useMemo(() => {
     // If we have collection game data and it matches this ID, use it as the base
     // This handles the case where multiple collection entries share the same BGG objectid
     if (collectionGame && collectionGame.id === id) {
@@ -71,6 +93,19 @@ const GameDetail = () => {
     };
   }, [gameInfo, plays, collectionGame, id]);
 
+  // Attach owned expansions when they weren't already merged by the collection page
+  const game = useMemo(() => {
+    if (!mergedGame || mergedGame.expansions || !bggExpansions) return mergedGame;
+
+    const withExpansionIds = mergedGame.expansionIds
+      ? mergedGame
+      : { ...mergedGame, expansionIds: gameInfo ? gameInfoToGame(gameInfo).expansionIds : undefined };
+
+    return mergeExpansions([withExpansionIds], mapCollectionToGames(bggExpansions))[0];
+  }, [mergedGame, bggExpansions, gameInfo]);
+
+  const sortedPlays = useMemo(() => (plays ? sortPlaysByDate(plays) : []), [plays]);
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -85,27 +120,76 @@ const GameDetail = () => {
   }
 
   if (error || !game) {
+    // Without an id in the URL there's nothing to load
+    const message = error
+      ? describeBggError(error, "Failed to load the game from BoardGameGeek.", "game")
+      : { title: "Game Not Found", description: "The game you're looking for doesn't exist.", canRetry: false };
     return (
       <div className="min-h-screen bg-background">
         <SimpleHeader />
         <main className="container mx-auto px-4 py-16 text-center">
           <h1 className="text-2xl font-bold text-foreground mb-4">
-            Game Not Found
+            {message.title}
           </h1>
           <p className="text-muted-foreground mb-6">
-            {error instanceof Error ? error.message : "The game you're looking for doesn't exist."}
+            {message.description}
           </p>
-          <Link to="/collection">
-            <Button>
-              <ArrowLeft className="w-4 h-4 mr-2" />
-              Back to Collection
-            </Button>
-          </Link>
+          <div className="flex justify-center gap-2">
+            {message.canRetry && (
+              <Button onClick={() => refetch()}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Try again
+              </Button>
+            )}
+            <Link to="/collection">
+              <Button variant={message.canRetry ? "outline" : "default"}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to Collection
+              </Button>
+            </Link>
+          </div>
         </main>
       </div>
     );
   }
 
+  // Who owns the game, among the collections loaded so far (the user's owned expansions count too)
+  const owners = findOwners(
+    [
+      ...(userCollection ? [{ username: bggUsername, items: [...userCollection, ...(bggExpansions ?? [])] }] : []),
+      ...friends.flatMap((username, index) => {
+        const items = friendQueries[index]?.data;
+        return items ? [{ username, items }] : [];
+      }),
+    ],
+    game.id
+  );
+  const userOwnsGame = owners.includes(bggUsername);
+  const friendOwners = owners.filter((owner) => owner !== bggUsername);
+  const isCheckingFriends = friendQueries.some((query) => query.isFetching && !query.data);
+  const failedFriendQueries = friendQueries.filter((query) => query.isError && !query.data);
+  const failedFriends = friends.filter((_, index) => failedFriendQueries.includes(friendQueries[index]));
+  const uncheckedFriends = checkFriends
+    ? 0
+    : friendQueries.filter((query) => !query.data && !query.isError).length;
+  const checkFriendsLabel =
+    uncheckedFriends === friends.length
+      ? "Check their collections"
+      : `Check ${uncheckedFriends} more ${uncheckedFriends === 1 ? "collection" : "collections"}`;
+  const isConsidered = considering.isConsidering(game.id);
+
+  const toggleConsidering = () => {
+    if (isConsidered) {
+      considering.remove(game.id);
+    } else {
+      considering.add({ id: game.id, name: game.name, yearPublished: game.yearPublished, thumbnail: game.thumbnail });
+    }
+  };
+
+  // Summarise the community player count poll
+  const bestCounts = getPlayerCountsWhere(game, isBestAt);
+  const recommendedCounts = getPlayerCountsWhere(game, isRecommendedAt);
+
   const formatPlaytime = (min: number, max: number) => {
     if (min === max) return `${min} min`;
     return `${min}-${max} min`;
@@ -191,6 +275,65 @@ const GameDetail = () => {
                 </div>
               </div>
             </div>
+
+            {/* Owners Card */}
+            {(bggUsername || friends.length > 0) && (
+              <div className="bg-card rounded-2xl p-4 border border-border">
+                <h3 className="font-semibold text-base mb-3">Who Owns It</h3>
+                <div className="space-y-3">
+                  {bggUsername && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">You</span>
+                      <span className="font-semibold text-sm">
+                        {userOwnsGame ? "In your collection" : isLoadingUserCollection ? "Checking..." : "Not owned"}
+                      </span>
+                    </div>
+                  )}
+                  {friends.length > 0 && (
+                    <div>
+                      <span className="text-muted-foreground">Friends</span>
+                      {friendOwners.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mt-2">
+                          {friendOwners.map((owner) => (
+                            <Badge key={owner} variant="secondary" className="font-normal rounded-full">
+                              {owner}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      {isCheckingFriends ? (
+                        <p className="text-sm mt-1">Checking their collections...</p>
+                      ) : uncheckedFriends > 0 ? (
+                        <Button variant="link" className="h-auto p-0 block" onClick={() => setCheckFriends(true)}>
+                          {checkFriendsLabel}
+                        </Button>
+                      ) : failedFriends.length > 0 ? (
+                        <p className="text-sm mt-1">
+                          Couldn't read {failedFriends.join(", ")}'s {failedFriends.length === 1 ? "collection" : "collections"}.{" "}
+                          <Button
+                            variant="link"
+                            className="h-auto p-0"
+                            onClick={() => failedFriendQueries.forEach((query) => query.refetch())}
+                          >
+                            Try again
+                          </Button>
+                        </p>
+                      ) : (
+                        friendOwners.length === 0 && <p className="text-sm mt-1">None of your game night friends own it</p>
+                      )}
+                    </div>
+                  )}
+                  {friends.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      <Link to="/game-night" className="text-primary hover:underline">
+                        Add friends for game night
+                      </Link>{" "}
+                      to see if they own it.
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Game Details */}
@@ -212,22 +355,32 @@ const GameDetail = () => {
                   )}
                 </p>
               </div>
-              <Button
-                variant="outline"
-                size="sm"
-                className="flex-shrink-0"
-                asChild
-              >
-                <a
-                  href={`https://boardgamegeek.com/boardgame/${game.id}`}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex items-center gap-2"
+              <div className="flex flex-col sm:flex-row gap-2 flex-shrink-0">
+                <Button
+                  variant={isConsidered ? "secondary" : "outline"}
+                  size="sm"
+                  onClick={toggleConsidering}
+                  title={isConsidered ? "Remove from the games you're considering" : "Add to the games you're considering"}
                 >
-                  <ExternalLink className="w-4 h-4" />
-                  Board Game Geek
-                </a>
-              </Button>
+                  {isConsidered ? <BookmarkCheck className="w-4 h-4 mr-2" /> : <BookmarkPlus className="w-4 h-4 mr-2" />}
+                  {isConsidered ? "Considering" : "Consider"}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  asChild
+                >
+                  <a
+                    href={`https://boardgamegeek.com/boardgame/${game.id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-2"
+                  >
+                    <ExternalLink className="w-4 h-4" />
+                    Board Game Geek
+                  </a>
+                </Button>
+              </div>
             </div>
 
             {/* Rating Section */}
@@ -258,6 +411,16 @@ const GameDetail = () => {
                 <Users className="w-6 h-6 mx-auto mb-2 text-primary" />
                 <div className="font-semibold">{formatPlayers(game.players.min, game.players.max)}</div>
                 <div className="text-xs text-muted-foreground">Players</div>
+                {bestCounts.length > 0 && (
+                  <div className="text-xs text-muted-foreground mt-1">
+                    Best with {bestCounts.join(", ")}
+                  </div>
+                )}
+                {recommendedCounts.length > 0 && (
+                  <div className="text-xs text-muted-foreground">
+                    Recommended with {recommendedCounts.join(", ")}
+                  </div>
+                )}
               </div>
               <div className="bg-card rounded-xl p-4 border border-border text-center">
                 <Clock className="w-6 h-6 mx-auto mb-2 text-primary" />
@@ -286,6 +449,53 @@ const GameDetail = () => {
               </div>
             )}
 
+            {/* Owned Expansions */}
+            {game.expansions && game.expansions.length > 0 && (
+              <div className="bg-card rounded-xl p-5 border border-border">
+                <h2 className="text-lg font-semibold mb-3">Your Expansions</h2>
+                <div className="grid sm:grid-cols-2 gap-3">
+                  {game.expansions.map((expansion) => (
+                    <div key={expansion.collectionId} className="flex items-center gap-3">
+                      {expansion.thumbnail && (
+                        <img
+                          src={expansion.thumbnail}
+                          alt={expansion.name}
+                          className="w-12 h-12 rounded-lg object-cover flex-shrink-0"
+                        />
+                      )}
+                      <div className="min-w-0">
+                        <p className="font-medium text-sm line-clamp-1">{expansion.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {expansion.players.max > 0 && formatPlayers(expansion.players.min, expansion.players.max)}
+                          {expansion.yearPublished > 0 && ` • ${expansion.yearPublished}`}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Plays */}
+            {sortedPlays.length > 0 && (
+              <div className="bg-card rounded-xl p-5 border border-border">
+                <div className="flex items-center justify-between gap-4 mb-1">
+                  <h2 className="text-lg font-semibold">Your Plays</h2>
+                  <Link
+                    to={`/plays/${encodeURIComponent(bggUsername)}`}
+                    className="text-sm text-primary hover:underline underline-offset-2"
+                  >
+                    All plays
+                  </Link>
+                </div>
+                <div className="divide-y divide-border">
+                  {sortedPlays.map((play) => (
+                    <PlayEntry key={play.id} play={play} />
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Categories & Mechanics */}
             <div className="grid sm:grid-cols-2 gap-6">
               {game.categories && game.categories.length > 0 && (
@@ -302,7 +512,7 @@ const GameDetail = () => {
                           const currentFilters = JSON.parse(localStorage.getItem('bgg-filters') || '{}');
                           localStorage.setItem('bgg-filters', JSON.stringify({
                             ...currentFilters,
-                            category: category
+                            categories: [category]
                           }));
                         }}
                       >
@@ -330,6 +540,14 @@ const GameDetail = () => {
                 </div>
               )}
             </div>
+
+            {/* Similar owned games */}
+            <SimilarGames
+              game={game}
+              bggUsername={bggUsername}
+              limit={6}
+              className="bg-card rounded-xl p-5 border border-border"
+            />
           </div>
         </div>
       </main>
@@ -0,0 +1,274 @@
+import { useState, useMemo } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { GameCard } from "@/components/GameCard";
+import { FilterHeader } from "@/components/FilterHeader";
+import { Footer } from "@/components/Footer";
+import { GameModal } from "@/components/GameModal";
+import { FilterState, SortOption, SortDirection, Game } from "@/types/game";
+import { useUserCollections, useGamesInfo, type CollectionQueryResult } from "@/hooks/use-bgg-api";
+import { mapCollectionToGames, mergeGamesInfo } from "@/lib/game-mapper";
+import { pickWeightedRandomGame } from "@/lib/weighted-random";
+import { DEFAULT_FILTERS, filterGames, getFilterOptions, toggleFilterValue } from "@/lib/game-filters";
+import { createRandomSortKeys, sortGames } from "@/lib/game-sort";
+import { mergeCollections, getGroupRatingBoost, parseUsernames, HIGH_RATING } from "@/lib/game-night";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { AlertCircle, Plus, RefreshCw, Users, X } from "lucide-react";
+
+// The collections array keeps its identity until a collection's data changes
+const combineCollections = (queries: CollectionQueryResult[]) => ({
+  queries,
+  collections: queries.map((query) => query.data),
+});
+
+const GameNight = () => {
+  const navigate = useNavigate();
+  const { usernames: urlUsernames } = useParams();
+
+  // Attendees come from the URL so a planned game night can be shared,
+  // falling back to the last game night, then to the current user
+  const attendees = useMemo(() => {
+    const fromUrl = parseUsernames(urlUsernames);
+    if (fromUrl.length > 0) return fromUrl;
+    const saved = parseUsernames(localStorage.getItem("bgg-game-night-users"));
+    if (saved.length > 0) return saved;
+    return parseUsernames(localStorage.getItem("bgg-username"));
+  }, [urlUsernames]);
+
+  const [newAttendee, setNewAttendee] = useState("");
+  const [filters, setFilters] = useState<FilterState>(DEFAULT_FILTERS);
+  const [sortBy, setSortBy] = useState<SortOption>("user-rating");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+  const [randomSeed, setRandomSeed] = useState<number>(() => Date.now());
+  const [favourGroupFavorites, setFavourGroupFavorites] = useState(true);
+  const [pickedGame, setPickedGame] = useState<Game | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const updateAttendees = (usernames: string[]) => {
+    localStorage.setItem("bgg-game-night-users", usernames.join(","));
+    navigate(`/game-night/${usernames.map(encodeURIComponent).join(",")}`, { replace: true });
+  };
+
+  const handleAddAttendee = (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = parseUsernames(newAttendee);
+    if (added.length === 0) return;
+    updateAttendees(parseUsernames([...attendees, ...added].join(",")));
+    setNewAttendee("");
+  };
+
+  const handleRemoveAttendee = (username: string) => {
+    updateAttendees(attendees.filter((u) => u !== username));
+  };
+
+  // Fetch every attendee's collection (shares the cache with the collection page)
+  const { queries: collectionQueries, collections } = useUserCollections(attendees, { combine: combineCollections });
+
+  const isLoadingCollections = collectionQueries.some((q) => q.isLoading);
+
+  const mergedGames = useMemo(() => {
+    return mergeCollections(
+      attendees
+        .map((username, i) => ({
+          username,
+          // Collections include wishlisted and previously owned games, only owned ones come to game night
+          games: collections[i]
+            ? mapCollectionToGames(collections[i]).filter((game) => game.status.owned)
+            : [],
+        }))
+        .filter((c) => c.games.length > 0)
+    );
+  }, [attendees, collections]);
+
+  // Fetch detailed game info for the merged set
+  const gameIds = useMemo(() => mergedGames.map((game) => game.id), [mergedGames]);
+  const { data: gamesInfo } = useGamesInfo(gameIds, gameIds.length > 0);
+
+  const games = useMemo(() => {
+    if (gamesInfo && gamesInfo.length > 0) {
+      return mergeGamesInfo(mergedGames, gamesInfo);
+    }
+    return mergedGames;
+  }, [mergedGames, gamesInfo]);
+
+  const randomSortKey = useMemo(
+    () => createRandomSortKeys(games, randomSeed),
+    [games, randomSeed]
+  );
+
+  const filteredAndSortedGames = useMemo(() => {
+    return sortGames(filterGames(games, filters), sortBy, sortDirection, randomSortKey);
+  }, [games, filters, sortBy, sortDirection, randomSortKey]);
+
+  // Collect the categories, mechanics and designers the filters can offer
+  const filterOptions = useMemo(() => getFilterOptions(games), [games]);
+
+  const handleCategoryClick = (category: string) => {
+    setFilters({
+      ...filters,
+      categories: toggleFilterValue(filters.categories, category),
+    });
+  };
+
+  const pickGame = (candidates: Game[]) =>
+    pickWeightedRandomGame(candidates, favourGroupFavorites ? getGroupRatingBoost : undefined);
+
+  const handlePickRandom = () => {
+    if (filteredAndSortedGames.length === 0) return;
+    setPickedGame(pickGame(filteredAndSortedGames));
+    setIsModalOpen(true);
+  };
+
+  const handlePickAnother = () => {
+    if (filteredAndSortedGames.length === 0) return;
+
+    if (filteredAndSortedGames.length === 1) {
+      setPickedGame(filteredAndSortedGames[0]);
+      return;
+    }
+
+    setPickedGame(pickGame(filteredAndSortedGames.filter((g) => g.id !== pickedGame?.id)));
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <FilterHeader
+        username={attendees.join(", ")}
+        filters={filters}
+        sortBy={sortBy}
+        sortDirection={sortDirection}
+        onFiltersChange={setFilters}
+        onSortChange={setSortBy}
+        onSortDirectionToggle={() => setSortDirection((prev) => (prev === "asc" ? "desc" : "asc"))}
+        totalGames={games.length}
+        filteredCount={filteredAndSortedGames.length}
+        filterOptions={filterOptions}
+        onReshuffle={sortBy === "random" ? () => setRandomSeed(Date.now()) : undefined}
+        onPickRandom={handlePickRandom}
+      />
+
+      {/* Attendees */}
+      <section className="w-full px-4 pt-6">
+        <div className="bg-card rounded-2xl p-4 border border-border space-y-4">
+          <div className="flex items-center gap-2">
+            <Users className="w-5 h-5 text-primary" />
+            <h1 className="text-lg font-semibold font-display">Game night</h1>
+            <span className="text-sm text-muted-foreground">
+              {attendees.length} {attendees.length === 1 ? "attendee" : "attendees"}
+            </span>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {attendees.map((username, i) => {
+              const query = collectionQueries[i];
+              return (
+                <span
+                  key={username}
+                  className="inline-flex items-center gap-1.5 pl-3 pr-1 py-1 bg-secondary text-secondary-foreground rounded-full text-sm"
+                  title={query?.error instanceof Error ? query.error.message : undefined}
+                >
+                  {query?.isLoading && <RefreshCw className="w-3.5 h-3.5 animate-spin" />}
+                  {query?.error && <AlertCircle className="w-3.5 h-3.5 text-destructive" />}
+                  {username}
+                  {query?.data && (
+                    <span className="text-xs text-muted-foreground">({query.data.length})</span>
+                  )}
+                  <button
+                    onClick={() => handleRemoveAttendee(username)}
+                    className="w-5 h-5 flex items-center justify-center rounded-full hover:bg-destructive/20 text-muted-foreground hover:text-destructive transition-colors"
+                    title={`Remove ${username}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              );
+            })}
+
+            <form onSubmit={handleAddAttendee} className="flex items-center gap-2">
+              <Input
+                value={newAttendee}
+                onChange={(e) => setNewAttendee(e.target.value)}
+                placeholder="Add BGG username"
+                className="h-8 w-44 rounded-full bg-muted/50"
+                maxLength={100}
+              />
+              <Button type="submit" size="sm" variant="outline" className="h-8 rounded-full gap-1">
+                <Plus className="w-3.5 h-3.5" />
+                Add
+              </Button>
+            </form>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Switch
+              id="favour-group-favorites"
+              checked={favourGroupFavorites}
+              onCheckedChange={setFavourGroupFavorites}
+            />
+            <label htmlFor="favour-group-favorites" className="text-sm text-muted-foreground">
+              Random pick favours games rated {HIGH_RATING}+ by several attendees
+            </label>
+          </div>
+        </div>
+      </section>
+
+      <main className="w-full px-4 py-8">
+        {attendees.length === 0 ? (
+          <div className="text-center py-16">
+            <p className="text-xl text-muted-foreground font-display">
+              Who's coming?
+            </p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Add the BoardGameGeek usernames of everyone attending
+            </p>
+          </div>
+        ) : isLoadingCollections && games.length === 0 ? (
+          <div className="text-center py-16">
+            <RefreshCw className="w-12 h-12 text-primary animate-spin mx-auto mb-4" />
+            <p className="text-xl text-muted-foreground font-display">
+              Loading collections...
+            </p>
+            <p className="text-sm text-muted-foreground mt-2">
+              This may take a moment for large collections
+            </p>
+          </div>
+        ) : filteredAndSortedGames.length > 0 ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 2xl:grid-cols-[repeat(auto-fill,minmax(280px,1fr))] gap-6">
+            {filteredAndSortedGames.map((game, index) => (
+              <GameCard
+                key={game.id}
+                game={game}
+                index={index}
+                sortBy={sortBy}
+                onCategoryClick={handleCategoryClick}
+                selectedCategories={filters.categories}
+              />
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-16">
+            <p className="text-xl text-muted-foreground font-display">
+              No games match your filters
+            </p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Try adjusting your search criteria
+            </p>
+          </div>
+        )}
+      </main>
+
+      <Footer />
+
+      <GameModal
+        game={pickedGame}
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        onPickAnother={handlePickAnother}
+        bggUsername={attendees[0] || ""}
+      />
+    </div>
+  );
+};
+
+export default GameNight;
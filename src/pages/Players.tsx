@@ -0,0 +1,283 @@
+import { useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useUserPlays } from "@/hooks/use-bgg-api";
+import {
+  addPlayerAlias,
+  getHeadToHead,
+  getPlayerStats,
+  removePlayerAlias,
+  type PlayerAliases,
+} from "@/lib/player-stats";
+import { SimpleHeader } from "@/components/SimpleHeader";
+import { Footer } from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowLeft, Link2, RefreshCw, Sparkles, Trophy, X } from "lucide-react";
+
+const ALIASES_KEY = "bgg-player-aliases";
+
+function loadAliases(): PlayerAliases {
+  try {
+    return JSON.parse(localStorage.getItem(ALIASES_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+const Players = () => {
+  const { username: urlUsername } = useParams();
+  const username = urlUsername || localStorage.getItem("bgg-username") || "";
+
+  const { data: plays, isLoading, error, refetch } = useUserPlays(username, !!username);
+
+  const [aliases, setAliases] = useState<PlayerAliases>(loadAliases);
+  const [aliasInput, setAliasInput] = useState("");
+  const [personInput, setPersonInput] = useState("");
+  const [selectedPlayer, setSelectedPlayer] = useState<string | null>(null);
+
+  const updateAliases = (updated: PlayerAliases) => {
+    localStorage.setItem(ALIASES_KEY, JSON.stringify(updated));
+    setAliases(updated);
+  };
+
+  const handleAddAlias = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!aliasInput.trim() || !personInput.trim()) return;
+    updateAliases(addPlayerAlias(aliases, aliasInput, personInput));
+    setAliasInput("");
+    setPersonInput("");
+  };
+
+  const playerStats = useMemo(() => (plays ? getPlayerStats(plays, aliases) : []), [plays, aliases]);
+
+  // Default to the most frequent player, usually the user themselves
+  const activePlayer =
+    playerStats.find((player) => player.name === selectedPlayer) ?? playerStats[0] ?? null;
+
+  const headToHead = useMemo(
+    () => (plays && activePlayer ? getHeadToHead(plays, activePlayer.name, aliases) : []),
+    [plays, activePlayer, aliases]
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="w-12 h-12 text-primary animate-spin mx-auto mb-4" />
+          <p className="text-xl text-muted-foreground font-display">
+            Loading plays...
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!username || error || !plays) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SimpleHeader />
+        <main className="container mx-auto px-4 py-16 text-center">
+          <h1 className="text-2xl font-bold text-foreground mb-4">
+            Couldn't load plays
+          </h1>
+          <p className="text-muted-foreground mb-6">
+            {error instanceof Error ? error.message : "Enter your BoardGameGeek username to see player statistics."}
+          </p>
+          {username ? (
+            <Button onClick={() => refetch()}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Try again
+            </Button>
+          ) : (
+            <Link to="/">
+              <Button>Get started</Button>
+            </Link>
+          )}
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <SimpleHeader />
+
+      <main className="container mx-auto px-4 py-8 space-y-6 animate-fade-in">
+        <Link
+          to={`/plays/${encodeURIComponent(username)}`}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-secondary hover:bg-secondary/80 rounded-full text-primary font-medium transition-colors"
+        >
+          <ArrowLeft className="w-3.5 h-3.5" />
+          <span className="text-sm">Back to Plays</span>
+        </Link>
+
+        <h1 className="text-3xl font-bold text-foreground">{username}'s players</h1>
+
+        {/* Aliases */}
+        <div className="bg-card rounded-xl p-5 border border-border space-y-3">
+          <div>
+            <h2 className="text-lg font-semibold">Same person, different names</h2>
+            <p className="text-sm text-muted-foreground">
+              Merge names and BGG usernames that refer to the same player
+            </p>
+          </div>
+
+          <form onSubmit={handleAddAlias} className="flex flex-col sm:flex-row gap-2">
+            <Input
+              value={aliasInput}
+              onChange={(e) => setAliasInput(e.target.value)}
+              placeholder="Name or username (e.g. mike_g)"
+              list="player-names"
+              maxLength={100}
+            />
+            <Input
+              value={personInput}
+              onChange={(e) => setPersonInput(e.target.value)}
+              placeholder="is the same person as (e.g. Mike)"
+              list="player-names"
+              maxLength={100}
+            />
+            <Button type="submit" variant="outline" className="gap-2 shrink-0">
+              <Link2 className="w-4 h-4" />
+              Merge
+            </Button>
+            <datalist id="player-names">
+              {playerStats.map((player) => (
+                <option key={player.name} value={player.name} />
+              ))}
+            </datalist>
+          </form>
+
+          {Object.keys(aliases).length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(aliases).map(([alias, person]) => (
+                <span
+                  key={alias}
+                  className="inline-flex items-center gap-1.5 pl-3 pr-1 py-1 bg-secondary text-secondary-foreground rounded-full text-sm"
+                >
+                  {alias} → {person}
+                  <button
+                    onClick={() => updateAliases(removePlayerAlias(aliases, alias))}
+                    className="w-5 h-5 flex items-center justify-center rounded-full hover:bg-destructive/20 text-muted-foreground hover:text-destructive transition-colors"
+                    title={`Stop merging ${alias}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {playerStats.length === 0 ? (
+          <div className="text-center py-16">
+            <p className="text-xl text-muted-foreground font-display">No players recorded</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Add players when logging plays to see win rates here
+            </p>
+          </div>
+        ) : (
+          <div className="grid lg:grid-cols-[3fr_2fr] gap-6">
+            {/* All players */}
+            <div className="bg-card rounded-xl p-5 border border-border overflow-x-auto">
+              <h2 className="text-lg font-semibold mb-3">Win rates</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground">
+                    <th className="font-normal pb-2">Player</th>
+                    <th className="font-normal pb-2 text-right">Plays</th>
+                    <th className="font-normal pb-2 text-right">Wins</th>
+                    <th className="font-normal pb-2 text-right">Win rate</th>
+                    <th className="font-normal pb-2 text-right">Avg score</th>
+                    <th className="font-normal pb-2 text-right" title="Games learned (marked as a new player)">
+                      New
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {playerStats.map((player) => (
+                    <tr
+                      key={player.name}
+                      onClick={() => setSelectedPlayer(player.name)}
+                      className={`cursor-pointer transition-colors hover:bg-muted/50 ${
+                        player.name === activePlayer?.name ? "bg-primary/10" : ""
+                      }`}
+                    >
+                      <td className="py-2 font-medium">{player.name}</td>
+                      <td className="py-2 text-right">{player.plays}</td>
+                      <td className="py-2 text-right">{player.wins}</td>
+                      <td className="py-2 text-right">{formatPercent(player.winRate)}</td>
+                      <td className="py-2 text-right">
+                        {player.averageScore !== null ? player.averageScore.toFixed(1) : "-"}
+                      </td>
+                      <td className="py-2 text-right">{player.newPlays}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Selected player */}
+            {activePlayer && (
+              <div className="space-y-6">
+                <div className="bg-card rounded-xl p-5 border border-border">
+                  <h2 className="text-lg font-semibold mb-3">{activePlayer.name} head-to-head</h2>
+                  {headToHead.length > 0 ? (
+                    <ul className="space-y-2 text-sm">
+                      {headToHead.map((record) => (
+                        <li key={record.opponent} className="flex items-center gap-3">
+                          <span className="flex-1 min-w-0 truncate">vs {record.opponent}</span>
+                          <span className="text-muted-foreground">{record.plays} plays</span>
+                          <span className="font-semibold w-16 text-right">
+                            {record.wins}-{record.losses}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No recorded opponents</p>
+                  )}
+                </div>
+
+                <div className="bg-card rounded-xl p-5 border border-border">
+                  <h2 className="text-lg font-semibold mb-3">{activePlayer.name} by game</h2>
+                  <ul className="space-y-2 text-sm">
+                    {activePlayer.games.map((game) => (
+                      <li key={game.gameId} className="flex items-center gap-3">
+                        <Link
+                          to={`/game/${game.gameId}?username=${encodeURIComponent(username)}`}
+                          className="flex-1 min-w-0 truncate hover:text-primary transition-colors"
+                        >
+                          {game.gameName}
+                        </Link>
+                        <span className="inline-flex items-center gap-1 text-muted-foreground">
+                          <Trophy className="w-3 h-3" />
+                          {game.wins}/{game.plays}
+                        </span>
+                        <span className="font-semibold w-12 text-right">
+                          {formatPercent(game.wins / game.plays)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  {activePlayer.newPlays > 0 && (
+                    <p className="flex items-center gap-1.5 text-xs text-muted-foreground mt-3">
+                      <Sparkles className="w-3 h-3 text-gold" />
+                      Learned {activePlayer.newPlays} {activePlayer.newPlays === 1 ? "game" : "games"} at these plays
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Players;
@@ -0,0 +1,240 @@
+import { useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { useUserPlays } from "@/hooks/use-bgg-api";
+import {
+  countPlays,
+  getHIndex,
+  getMilestones,
+  getPlayCountsByGame,
+  getPlaysPerMonth,
+  sortPlaysByDate,
+} from "@/lib/play-stats";
+import { SimpleHeader } from "@/components/SimpleHeader";
+import { Footer } from "@/components/Footer";
+import { PlayEntry } from "@/components/PlayEntry";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { ArrowLeft, Award, Dice6, Hash, RefreshCw, Users } from "lucide-react";
+
+// Play log entries rendered per "Show more"
+const PAGE_SIZE = 50;
+
+const chartConfig = {
+  plays: {
+    label: "Plays",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const Plays = () => {
+  const { username: urlUsername } = useParams();
+  const username = urlUsername || localStorage.getItem("bgg-username") || "";
+
+  const { data: plays, isLoading, error, refetch } = useUserPlays(username, !!username);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const stats = useMemo(() => {
+    if (!plays) return null;
+
+    const yearAgo = new Date();
+    yearAgo.setFullYear(yearAgo.getFullYear() - 1);
+
+    const gameCounts = getPlayCountsByGame(plays);
+    return {
+      sortedPlays: sortPlaysByDate(plays),
+      totalPlays: countPlays(plays),
+      gamesPlayed: gameCounts.length,
+      hIndex: getHIndex(gameCounts),
+      milestones: getMilestones(gameCounts),
+      perMonth: getPlaysPerMonth(plays),
+      topLastYear: getPlayCountsByGame(plays, yearAgo).slice(0, 10),
+    };
+  }, [plays]);
+
+  if (!username) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SimpleHeader />
+        <main className="container mx-auto px-4 py-16 text-center">
+          <p className="text-xl text-muted-foreground font-display mb-6">
+            Enter your BoardGameGeek username to see your plays
+          </p>
+          <Link to="/">
+            <Button>Get started</Button>
+          </Link>
+        </main>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="w-12 h-12 text-primary animate-spin mx-auto mb-4" />
+          <p className="text-xl text-muted-foreground font-display">
+            Loading plays...
+          </p>
+          <p className="text-sm text-muted-foreground mt-2">
+            This may take a moment for long play histories
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !stats) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SimpleHeader />
+        <main className="container mx-auto px-4 py-16 text-center">
+          <h1 className="text-2xl font-bold text-foreground mb-4">
+            Couldn't load plays
+          </h1>
+          <p className="text-muted-foreground mb-6">
+            {error instanceof Error ? error.message : "Failed to load plays from BoardGameGeek."}
+          </p>
+          <Button onClick={() => refetch()}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Try again
+          </Button>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <SimpleHeader />
+
+      <main className="container mx-auto px-4 py-8 space-y-6 animate-fade-in">
+        <Link
+          to={`/collection/${encodeURIComponent(username)}`}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-secondary hover:bg-secondary/80 rounded-full text-primary font-medium transition-colors"
+        >
+          <ArrowLeft className="w-3.5 h-3.5" />
+          <span className="text-sm">Back to Collection</span>
+        </Link>
+
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <h1 className="text-3xl font-bold text-foreground">{username}'s plays</h1>
+          {stats.totalPlays > 0 && (
+            <Button variant="outline" size="sm" asChild>
+              <Link to={`/players/${encodeURIComponent(username)}`} className="flex items-center gap-2">
+                <Users className="w-4 h-4" />
+                Players and win rates
+              </Link>
+            </Button>
+          )}
+        </div>
+
+        {stats.totalPlays === 0 ? (
+          <div className="text-center py-16">
+            <p className="text-xl text-muted-foreground font-display">No plays logged yet</p>
+            <p className="text-sm text-muted-foreground mt-2">
+              Plays logged on BoardGameGeek will show up here
+            </p>
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+              <div className="bg-card rounded-xl p-4 border border-border text-center">
+                <Dice6 className="w-6 h-6 mx-auto mb-2 text-primary" />
+                <div className="font-semibold">{stats.totalPlays.toLocaleString()}</div>
+                <div className="text-xs text-muted-foreground">Plays</div>
+              </div>
+              <div className="bg-card rounded-xl p-4 border border-border text-center">
+                <Hash className="w-6 h-6 mx-auto mb-2 text-primary" />
+                <div className="font-semibold">{stats.gamesPlayed.toLocaleString()}</div>
+                <div className="text-xs text-muted-foreground">Games played</div>
+              </div>
+              <div
+                className="bg-card rounded-xl p-4 border border-border text-center"
+                title={`${stats.hIndex} games played at least ${stats.hIndex} times each`}
+              >
+                <Award className="w-6 h-6 mx-auto mb-2 text-primary" />
+                <div className="font-semibold">{stats.hIndex}</div>
+                <div className="text-xs text-muted-foreground">H-index</div>
+              </div>
+              {stats.milestones.map((milestone) => (
+                <div
+                  key={milestone.name}
+                  className="bg-card rounded-xl p-4 border border-border text-center"
+                  title={`Games played ${milestone.plays}+ times`}
+                >
+                  <div className="text-xs text-muted-foreground mb-2">{milestone.plays}+ plays</div>
+                  <div className="font-semibold">{milestone.games.length}</div>
+                  <div className="text-xs text-muted-foreground">{milestone.name}</div>
+                </div>
+              ))}
+            </div>
+
+            {/* Plays per month */}
+            <div className="bg-card rounded-xl p-5 border border-border">
+              <h2 className="text-lg font-semibold mb-3">Plays per month</h2>
+              <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+                <BarChart data={stats.perMonth}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+                  <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="plays" fill="var(--color-plays)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            </div>
+
+            <div className="grid lg:grid-cols-[1fr_2fr] gap-6">
+              {/* Most played in the last year */}
+              <div className="bg-card rounded-xl p-5 border border-border">
+                <h2 className="text-lg font-semibold mb-3">Most played this year</h2>
+                {stats.topLastYear.length > 0 ? (
+                  <ol className="space-y-2">
+                    {stats.topLastYear.map((game, index) => (
+                      <li key={game.gameId} className="flex items-center gap-3 text-sm">
+                        <span className="w-5 text-muted-foreground text-right">{index + 1}</span>
+                        <Link
+                          to={`/game/${game.gameId}?username=${encodeURIComponent(username)}`}
+                          className="flex-1 min-w-0 truncate hover:text-primary transition-colors"
+                        >
+                          {game.gameName}
+                        </Link>
+                        <span className="font-semibold">{game.plays}</span>
+                      </li>
+                    ))}
+                  </ol>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No plays in the last 12 months</p>
+                )}
+              </div>
+
+              {/* Play log */}
+              <div className="bg-card rounded-xl p-5 border border-border">
+                <h2 className="text-lg font-semibold mb-1">Play log</h2>
+                <div className="divide-y divide-border">
+                  {stats.sortedPlays.slice(0, visibleCount).map((play) => (
+                    <PlayEntry key={play.id} play={play} username={username} showGame />
+                  ))}
+                </div>
+                {visibleCount < stats.sortedPlays.length && (
+                  <Button
+                    variant="outline"
+                    className="w-full mt-3"
+                    onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+                  >
+                    Show more ({stats.sortedPlays.length - visibleCount} remaining)
+                  </Button>
+                )}
+              </div>
+            </div>
+          </>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Plays;
@@ -0,0 +1,174 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { useGameSearch, useUserCollections } from "@/hooks/use-bgg-api";
+import { useConsidering } from "@/hooks/use-considering";
+import { describeBggError } from "@/lib/bgg-error-messages";
+import { SimpleHeader } from "@/components/SimpleHeader";
+import { Footer } from "@/components/Footer";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, BookmarkCheck, RefreshCw, Search as SearchIcon, X } from "lucide-react";
+
+// Wait for the user to stop typing before asking BGG
+const SEARCH_DELAY_MS = 400;
+
+const Search = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const urlQuery = searchParams.get("q") || "";
+  const [input, setInput] = useState(urlQuery);
+  const username = localStorage.getItem("bgg-username") || "";
+
+  // Keep the query in the URL, so going back from a game shows the same results
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const query = input.trim();
+      if (query === urlQuery) return;
+      setSearchParams(query ? { q: query } : {}, { replace: true });
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [input, urlQuery, setSearchParams]);
+
+  const { data: results, isFetching, error, refetch } = useGameSearch(urlQuery);
+  const considering = useConsidering();
+
+  // Mark the games already in the user's collection (usually cached by the collection page)
+  const [collectionQuery] = useUserCollections(username ? [username] : []);
+  const ownedIds = useMemo(
+    () => new Set(collectionQuery?.data?.filter((item) => item.status.own).map((item) => item.objectid)),
+    [collectionQuery?.data]
+  );
+
+  const errorMessage = error ? describeBggError(error, "Search failed") : null;
+  const showResults = urlQuery.length >= 2;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <SimpleHeader />
+
+      <main className="container mx-auto px-4 py-8 space-y-6 animate-fade-in flex-1">
+        {username && (
+          <Link
+            to={`/collection/${encodeURIComponent(username)}`}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-secondary hover:bg-secondary/80 rounded-full text-primary font-medium transition-colors"
+          >
+            <ArrowLeft className="w-3.5 h-3.5" />
+            <span className="text-sm">Back to Collection</span>
+          </Link>
+        )}
+
+        <div>
+          <h1 className="text-3xl font-bold text-foreground mb-4">Find a game</h1>
+          <div className="relative max-w-xl">
+            <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              type="search"
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder="Search BoardGameGeek for any game"
+              className="pl-9 h-12 text-base bg-card rounded-lg"
+              aria-label="Search BoardGameGeek"
+              autoFocus
+            />
+            {isFetching && (
+              <RefreshCw className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-primary animate-spin" />
+            )}
+          </div>
+        </div>
+
+        {showResults && errorMessage && (
+          <div className="bg-card rounded-xl p-5 border border-border max-w-xl">
+            <p className="font-semibold text-destructive">{errorMessage.title}</p>
+            <p className="text-sm text-muted-foreground mt-1">{errorMessage.description}</p>
+            {errorMessage.canRetry && (
+              <Button variant="outline" size="sm" className="mt-3" onClick={() => refetch()}>
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Try again
+              </Button>
+            )}
+          </div>
+        )}
+
+        {showResults && results && !errorMessage && (
+          <section>
+            <p className="text-sm text-muted-foreground mb-3">
+              {results.length === 0
+                ? `No games found for "${urlQuery}"`
+                : `${results.length} ${results.length === 1 ? "game" : "games"} found`}
+            </p>
+            <ul className="divide-y divide-border bg-card rounded-xl border border-border max-w-3xl">
+              {results.map((result) => (
+                <li key={result.objectid}>
+                  <Link
+                    to={`/game/${result.objectid}`}
+                    className="flex items-center justify-between gap-4 px-4 py-3 hover:bg-secondary/50 transition-colors"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium line-clamp-1">{result.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {result.yearpublished ? result.yearpublished : "Year unknown"}
+                        {result.isAlternateName && " • alternate name"}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      {result.objecttype === "boardgameexpansion" && (
+                        <Badge variant="outline" className="font-normal rounded-full">Expansion</Badge>
+                      )}
+                      {ownedIds.has(result.objectid) && (
+                        <Badge variant="secondary" className="font-normal rounded-full">Owned</Badge>
+                      )}
+                      {considering.isConsidering(result.objectid) && (
+                        <BookmarkCheck className="w-4 h-4 text-primary" aria-label="Considering" />
+                      )}
+                    </div>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {/* Considering list */}
+        <section>
+          <h2 className="text-lg font-semibold mb-3">Considering</h2>
+          {considering.games.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Games you mark with "Consider" on their page show up here.
+            </p>
+          ) : (
+            <ul className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              {considering.games.map((game) => (
+                <li key={game.id} className="flex items-center gap-3 bg-card rounded-xl border border-border p-3">
+                  {game.thumbnail && (
+                    <img
+                      src={game.thumbnail}
+                      alt={game.name}
+                      className="w-12 h-12 rounded-lg object-cover flex-shrink-0"
+                    />
+                  )}
+                  <Link to={`/game/${game.id}`} className="min-w-0 flex-1 hover:text-primary transition-colors">
+                    <p className="font-medium text-sm line-clamp-1">{game.name}</p>
+                    {game.yearPublished > 0 && (
+                      <p className="text-xs text-muted-foreground">{game.yearPublished}</p>
+                    )}
+                  </Link>
+                  <button
+                    onClick={() => considering.remove(game.id)}
+                    className="p-1.5 rounded-lg text-muted-foreground hover:text-destructive transition-colors"
+                    aria-label={`Stop considering ${game.name}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Search;
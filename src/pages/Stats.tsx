@@ -0,0 +1,332 @@
+import { useMemo } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ReferenceLine,
+  Scatter,
+  ScatterChart,
+  XAxis,
+  YAxis,
+  type TooltipContentProps,
+} from "recharts";
+import { useOwnedGames } from "@/hooks/use-owned-games";
+import { describeBggError } from "@/lib/bgg-error-messages";
+import { getFilteredCollectionUrl } from "@/lib/collection-url";
+import {
+  getAverageRatingDifference,
+  getPlayedCounts,
+  getPlayerCountCoverage,
+  getPlaytimeBands,
+  getRatingComparisons,
+  getTopCategories,
+  getTopMechanics,
+  getWeightDistribution,
+  getYearHistogram,
+  type CollectionSlice,
+  type RatingComparison,
+} from "@/lib/collection-stats";
+import { SimpleHeader } from "@/components/SimpleHeader";
+import { Footer } from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { ArrowLeft, Dice6, Ghost, Hash, RefreshCw, Star } from "lucide-react";
+
+const chartConfig = {
+  count: {
+    label: "Games",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const ratingChartConfig = {
+  rating: {
+    label: "Rating",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+/**
+ * Bar chart of collection slices; clicking a bar opens the collection filtered to it
+ * Horizontal bars suit long labels such as mechanic names
+ */
+const SliceChart = ({
+  title,
+  slices,
+  onSelect,
+  horizontal = false,
+}: {
+  title: string;
+  slices: CollectionSlice[];
+  onSelect: (slice: CollectionSlice) => void;
+  horizontal?: boolean;
+}) => (
+  <div className="bg-card rounded-xl p-5 border border-border">
+    <h2 className="text-lg font-semibold mb-3">{title}</h2>
+    {slices.length === 0 ? (
+      <p className="text-sm text-muted-foreground">No data yet</p>
+    ) : (
+      <ChartContainer
+        config={chartConfig}
+        className="aspect-auto w-full"
+        style={{ height: horizontal ? Math.max(slices.length * 28, 120) : 256 }}
+      >
+        <BarChart data={slices} layout={horizontal ? "vertical" : "horizontal"}>
+          <CartesianGrid horizontal={!horizontal} vertical={horizontal} />
+          {horizontal ? (
+            <>
+              <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+              <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={150} interval={0} />
+            </>
+          ) : (
+            <>
+              <XAxis dataKey="label" tickLine={false} axisLine={false} interval="preserveStartEnd" />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+            </>
+          )}
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar
+            dataKey="count"
+            fill="var(--color-count)"
+            radius={4}
+            className="cursor-pointer"
+            onClick={(_, index) => onSelect(slices[index])}
+          />
+        </BarChart>
+      </ChartContainer>
+    )}
+  </div>
+);
+
+const RatingTooltip = ({ active, payload }: Partial<TooltipContentProps<number, string>>) => {
+  const comparison = payload?.[0]?.payload as RatingComparison | undefined;
+  if (!active || !comparison) return null;
+
+  return (
+    <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl">
+      <p className="font-medium">{comparison.name}</p>
+      <p className="text-muted-foreground">
+        You: {comparison.userRating.toFixed(1)} • BGG: {comparison.bggRating.toFixed(1)}
+      </p>
+    </div>
+  );
+};
+
+const Stats = () => {
+  const { username: urlUsername } = useParams();
+  const username = urlUsername || localStorage.getItem("bgg-username") || "";
+  const navigate = useNavigate();
+
+  const {
+    data: games,
+    isLoading,
+    isLoadingDetails,
+    loadedCount,
+    totalCount,
+    error,
+    refetch,
+  } = useOwnedGames(username, !!username);
+
+  const stats = useMemo(() => {
+    if (!games) return null;
+
+    const ratings = getRatingComparisons(games);
+    return {
+      weight: getWeightDistribution(games),
+      years: getYearHistogram(games),
+      categories: getTopCategories(games),
+      mechanics: getTopMechanics(games),
+      playerCounts: getPlayerCountCoverage(games),
+      playtimes: getPlaytimeBands(games),
+      played: getPlayedCounts(games),
+      ratings,
+      ratingDifference: getAverageRatingDifference(ratings),
+    };
+  }, [games]);
+
+  const openSlice = (slice: CollectionSlice) => {
+    navigate(getFilteredCollectionUrl(username, slice.filters));
+  };
+
+  if (!username) {
+    return (
+      <div className="min-h-screen bg-background">
+        <SimpleHeader />
+        <main className="container mx-auto px-4 py-16 text-center">
+          <p className="text-xl text-muted-foreground font-display mb-6">
+            Enter your BoardGameGeek username to see your collection stats
+          </p>
+          <Link to="/">
+            <Button>Get started</Button>
+          </Link>
+        </main>
+      </div>
+    );
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="w-12 h-12 text-primary animate-spin mx-auto mb-4" />
+          <p className="text-xl text-muted-foreground font-display">
+            Loading collection...
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !stats) {
+    const message = describeBggError(error, "Failed to load the collection from BoardGameGeek.", "user");
+    return (
+      <div className="min-h-screen bg-background">
+        <SimpleHeader />
+        <main className="container mx-auto px-4 py-16 text-center">
+          <h1 className="text-2xl font-bold text-foreground mb-4">{message.title}</h1>
+          <p className="text-muted-foreground mb-6">{message.description}</p>
+          {message.canRetry && (
+            <Button onClick={() => refetch()}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Try again
+            </Button>
+          )}
+        </main>
+      </div>
+    );
+  }
+
+  const [played, neverPlayed] = stats.played;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <SimpleHeader />
+
+      <main className="container mx-auto px-4 py-8 space-y-6 animate-fade-in flex-1">
+        <Link
+          to={`/collection/${encodeURIComponent(username)}`}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-secondary hover:bg-secondary/80 rounded-full text-primary font-medium transition-colors"
+        >
+          <ArrowLeft className="w-3.5 h-3.5" />
+          <span className="text-sm">Back to Collection</span>
+        </Link>
+
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">{username}'s collection stats</h1>
+          <p className="text-sm text-muted-foreground mt-1">Click a bar to see those games in your collection</p>
+        </div>
+
+        {isLoadingDetails && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <RefreshCw className="w-4 h-4 animate-spin text-primary" />
+            Loading game details ({loadedCount}/{totalCount}). Weight, categories and mechanics fill in as they arrive.
+          </p>
+        )}
+
+        {/* Summary */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          <div className="bg-card rounded-xl p-4 border border-border text-center">
+            <Hash className="w-6 h-6 mx-auto mb-2 text-primary" />
+            <div className="font-semibold">{games.length.toLocaleString()}</div>
+            <div className="text-xs text-muted-foreground">Games owned</div>
+          </div>
+          <button
+            onClick={() => openSlice(played)}
+            className="bg-card rounded-xl p-4 border border-border text-center hover:bg-secondary/50 transition-colors"
+          >
+            <Dice6 className="w-6 h-6 mx-auto mb-2 text-primary" />
+            <div className="font-semibold">{played.count.toLocaleString()}</div>
+            <div className="text-xs text-muted-foreground">Played</div>
+          </button>
+          <button
+            onClick={() => openSlice(neverPlayed)}
+            className="bg-card rounded-xl p-4 border border-border text-center hover:bg-secondary/50 transition-colors"
+          >
+            <Ghost className="w-6 h-6 mx-auto mb-2 text-primary" />
+            <div className="font-semibold">{neverPlayed.count.toLocaleString()}</div>
+            <div className="text-xs text-muted-foreground">Never played</div>
+          </button>
+          <div
+            className="bg-card rounded-xl p-4 border border-border text-center"
+            title="Your rating minus the BGG average, over the games you've rated"
+          >
+            <Star className="w-6 h-6 mx-auto mb-2 text-primary" />
+            <div className="font-semibold">
+              {stats.ratingDifference === null
+                ? "-"
+                : `${stats.ratingDifference > 0 ? "+" : ""}${stats.ratingDifference.toFixed(1)}`}
+            </div>
+            <div className="text-xs text-muted-foreground">Your ratings vs BGG</div>
+          </div>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          <SliceChart title="Owned and never played" slices={stats.played} onSelect={openSlice} />
+          <SliceChart title="Player count coverage" slices={stats.playerCounts} onSelect={openSlice} />
+          <SliceChart title="Weight" slices={stats.weight} onSelect={openSlice} />
+          <SliceChart title="Playtime" slices={stats.playtimes} onSelect={openSlice} />
+          <SliceChart title="Year published" slices={stats.years} onSelect={openSlice} />
+
+          {/* Ratings */}
+          <div className="bg-card rounded-xl p-5 border border-border">
+            <h2 className="text-lg font-semibold mb-3">Your rating vs BGG average</h2>
+            {stats.ratings.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Rate games on BoardGameGeek to compare</p>
+            ) : (
+              <ChartContainer config={ratingChartConfig} className="aspect-auto h-64 w-full">
+                <ScatterChart>
+                  <CartesianGrid />
+                  <XAxis
+                    type="number"
+                    dataKey="bggRating"
+                    name="BGG average"
+                    domain={[1, 10]}
+                    ticks={[2, 4, 6, 8, 10]}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis
+                    type="number"
+                    dataKey="userRating"
+                    name="Your rating"
+                    domain={[1, 10]}
+                    ticks={[2, 4, 6, 8, 10]}
+                    tickLine={false}
+                    axisLine={false}
+                    width={32}
+                  />
+                  {/* Games above the line are ones you like more than BGG does */}
+                  <ReferenceLine
+                    segment={[
+                      { x: 1, y: 1 },
+                      { x: 10, y: 10 },
+                    ]}
+                    stroke="hsl(var(--muted-foreground))"
+                    strokeDasharray="4 4"
+                  />
+                  <ChartTooltip content={<RatingTooltip />} />
+                  <Scatter
+                    data={stats.ratings}
+                    fill="var(--color-rating)"
+                    className="cursor-pointer"
+                    onClick={(point) => navigate(`/game/${(point.payload as RatingComparison).gameId}`)}
+                  />
+                </ScatterChart>
+              </ChartContainer>
+            )}
+          </div>
+        </div>
+
+        <div className="grid lg:grid-cols-2 gap-6">
+          <SliceChart title="Top categories" slices={stats.categories} onSelect={openSlice} horizontal />
+          <SliceChart title="Top mechanics" slices={stats.mechanics} onSelect={openSlice} horizontal />
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Stats;
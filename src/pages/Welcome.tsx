@@ -1,11 +1,12 @@
-import { useState, useEffect } from "react";
-import { useNavigate, useSearchParams } from "react-router-dom";
+import { useState, useEffect, useRef } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { ArrowRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import { Footer } from "@/components/Footer";
 import { useValidateUsername } from "@/hooks/use-bgg-api";
+import { describeBggError, type BggErrorMessage } from "@/lib/bgg-error-messages";
 
 const Welcome = () => {
   const [searchParams] = useSearchParams();
@@ -15,6 +16,9 @@ const Welcome = () => {
   });
   const [submittedUsername, setSubmittedUsername] = useState("");
   const [validationError, setValidationError] = useState("");
+  // Why the last lookup failed, with the username to retry
+  const [requestError, setRequestError] = useState<{ message: BggErrorMessage; username: string } | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
 
   // Use React Query to validate username against BGG API
@@ -33,8 +37,8 @@ const Welcome = () => {
       // Reset to prevent double-navigation
       setSubmittedUsername("");
     } else if (error && submittedUsername) {
-      // Show validation error
-      setValidationError(error instanceof Error ? error.message : "Invalid username");
+      // Show what went wrong and what the user can do about it
+      setRequestError({ message: describeBggError(error, "Invalid username", "user"), username: submittedUsername });
       setSubmittedUsername("");
     }
   }, [userInfo, error, submittedUsername, navigate]);
@@ -54,9 +58,20 @@ const Welcome = () => {
     }
 
     setValidationError("");
+    setRequestError(null);
     setSubmittedUsername(trimmedUsername);
   };
 
+  const handleRetry = () => {
+    setSubmittedUsername(requestError.username);
+    setRequestError(null);
+  };
+
+  const handleEditUsername = () => {
+    setRequestError(null);
+    inputRef.current?.select();
+  };
+
   return (
     <div className="min-h-screen bg-background flex flex-col p-4 relative">
       {/* Theme Toggle */}
@@ -86,6 +101,7 @@ const Welcome = () => {
               BoardGameGeek username
             </label>
             <Input
+              ref={inputRef}
               id="username"
               type="text"
               placeholder="Enter your username"
@@ -93,6 +109,7 @@ const Welcome = () => {
               onChange={(e) => {
                 setUsername(e.target.value);
                 setValidationError("");
+                setRequestError(null);
               }}
               className="text-base h-12 bg-card rounded-lg"
               autoFocus
@@ -102,6 +119,22 @@ const Welcome = () => {
             {validationError && (
               <p className="text-destructive text-sm mt-2">{validationError}</p>
             )}
+            {requestError && (
+              <div className="text-sm mt-2" role="alert">
+                <p className="text-destructive font-medium">{requestError.message.title}</p>
+                <p className="text-muted-foreground">{requestError.message.description}</p>
+                {requestError.message.canRetry && (
+                  <Button type="button" variant="link" className="h-auto p-0" onClick={handleRetry}>
+                    Try again
+                  </Button>
+                )}
+                {requestError.message.kind === "NotFound" && (
+                  <Button type="button" variant="link" className="h-auto p-0" onClick={handleEditUsername}>
+                    Edit username
+                  </Button>
+                )}
+              </div>
+            )}
           </div>
 
           <Button
@@ -120,6 +153,13 @@ const Welcome = () => {
           </Button>
         </form>
 
+        <p className="text-center text-sm text-muted-foreground">
+          Planning a game night?{" "}
+          <Link to="/game-night" className="text-primary hover:underline font-medium">
+            Combine everyone's collections
+          </Link>
+        </p>
+
         <p className="text-center text-sm text-muted-foreground mt-8">
           Don't have a BGG account?{" "}
           <a
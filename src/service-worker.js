@@ -0,0 +1,211 @@
+/**
+ * Service worker that keeps the app usable without a network
+ * Built into /sw.js by the service worker plugin in vite.config.ts, which fills in
+ * the list of bundle files to precache and a version that changes with every build.
+ *
+ * - App shell (bundle, index.html, icons): precached on install, served cache first
+ * - BGG API responses (/api/bgg, /xmlapi2) and box art: stale-while-revalidate
+ */
+
+const PRECACHE_URLS = self.__PRECACHE_MANIFEST;
+const CACHE_VERSION = self.__CACHE_VERSION;
+
+const PRECACHE = `precache-${CACHE_VERSION}`;
+const API_CACHE = 'bgg-api';
+const IMAGE_CACHE = 'box-art';
+const MAX_CACHED_IMAGES = 500;
+
+// Stored with each cached API response, so the app can tell how old a snapshot is
+const CACHED_AT_HEADER = 'x-cached-at';
+
+// Messages posted to the page (see src/lib/service-worker.ts)
+const SNAPSHOT_MESSAGE = 'bgg-snapshot';
+const FRESH_MESSAGE = 'bgg-fresh';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(PRECACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  // Drop the app shell of older builds
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('precache-') && key !== PRECACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+function isApiRequest(url) {
+  return (
+    url.origin === self.location.origin &&
+    (url.pathname.startsWith('/api/bgg') || url.pathname.startsWith('/xmlapi2'))
+  );
+}
+
+async function notifyClient(clientId, message) {
+  if (!clientId) return;
+  const client = await self.clients.get(clientId);
+  client?.postMessage(message);
+}
+
+/**
+ * Keep at most `maxEntries` responses in a cache, dropping the oldest first
+ */
+async function trimCache(cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key)));
+}
+
+/**
+ * Copy a response with the time it was cached
+ */
+async function withCachedAt(response) {
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, String(Date.now()));
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+/**
+ * BGG API: answer from the cache when we can and refresh it in the background
+ * Only complete responses are cached (BGG answers 202 while it prepares a collection).
+ * When the refresh fails or BGG answers with anything else, the cached copy stands in
+ * and the page is told it's showing a snapshot.
+ */
+async function handleApiRequest(event) {
+  const cache = await caches.open(API_CACHE);
+  const cached = await cache.match(event.request);
+
+  const notifySnapshot = () =>
+    notifyClient(event.clientId, {
+      type: SNAPSHOT_MESSAGE,
+      cachedAt: Number(cached.headers.get(CACHED_AT_HEADER)) || null,
+    });
+
+  const network = fetch(event.request)
+    .then(async (response) => {
+      if (response.status === 200) {
+        await cache.put(event.request, await withCachedAt(response.clone()));
+        notifyClient(event.clientId, { type: FRESH_MESSAGE });
+        return response;
+      }
+      if (cached) {
+        notifySnapshot();
+        return cached;
+      }
+      return response;
+    })
+    .catch((error) => {
+      if (!cached) throw error;
+      notifySnapshot();
+      return cached;
+    });
+
+  if (cached) {
+    event.waitUntil(network);
+    return cached;
+  }
+  return network;
+}
+
+/**
+ * Box art: same strategy, but images are cross-origin so opaque responses are cached too
+ */
+async function handleImageRequest(event) {
+  const cache = await caches.open(IMAGE_CACHE);
+  const cached = await cache.match(event.request);
+
+  const network = fetch(event.request).then(async (response) => {
+    if (response.ok || response.type === 'opaque') {
+      await cache.put(event.request, response.clone());
+      await trimCache(IMAGE_CACHE, MAX_CACHED_IMAGES);
+    }
+    return response;
+  });
+
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+}
+
+/**
+ * Writes (logging a play) change plays and play counts, so drop the cached copies
+ * instead of serving them stale on the next read
+ */
+async function handleApiWrite(request) {
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(API_CACHE);
+    const keys = await cache.keys();
+    await Promise.all(
+      keys
+        .filter((key) => key.url.includes('plays') || key.url.includes('collection'))
+        .map((key) => cache.delete(key))
+    );
+  }
+  return response;
+}
+
+/**
+ * Pages: try the network, fall back to the precached app shell
+ */
+async function handleNavigation(request) {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const shell = await caches.match('/index.html', { cacheName: PRECACHE });
+    if (shell) return shell;
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method === 'POST' && isApiRequest(url)) {
+    event.respondWith(handleApiWrite(request));
+    return;
+  }
+
+  if (request.method !== 'GET') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  if (isApiRequest(url)) {
+    event.respondWith(handleApiRequest(event));
+    return;
+  }
+
+  if (request.destination === 'image' && url.origin !== self.location.origin) {
+    event.respondWith(handleImageRequest(event));
+    return;
+  }
+
+  if (url.origin === self.location.origin && PRECACHE_URLS.includes(url.pathname)) {
+    event.respondWith(
+      caches.match(request, { cacheName: PRECACHE }).then((cached) => cached || fetch(request))
+    );
+  }
+});
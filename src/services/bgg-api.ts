@@ -3,24 +3,65 @@
  * Handles all BGG API interactions with XML parsing
  */
 
+import { isBggProcessing } from "@/lib/xml-parser";
 import {
-  parseUserInfo,
-  parseCollection,
-  isBggProcessing,
-} from "@/lib/xml-parser";
-import { parseXmlToJson } from "@/lib/xml-parser";
-
-// Use Vite proxy in development, Vercel Edge Function in production
-const BGG_API_BASE = import.meta.env.DEV
-  ? "/xmlapi2"
-  : "/api/bgg?endpoint=";
+  parseCollectionResponse,
+  parseHotResponse,
+  parsePlaysResponse,
+  parseSearchResponse,
+  parseThingResponse,
+  parseUserResponse,
+} from "@/services/bgg-schemas";
+import { bggRequest, sleep, type BggEndpointParams, type RetryOptions } from "@/services/bgg-request";
+import { BggApiError, errorForStatus, toBggError, type BggError } from "@/services/bgg-errors";
 
 /**
  * BGG API response types
+ * Failures carry a BggError, so callers can branch on its kind
  */
 export type BggApiResult<T> =
   | { success: true; data: T }
-  | { success: false; error: string; retryLater?: boolean; backoff?: number };
+  | { success: false; error: BggError };
+
+/**
+ * Options for reads that can be cancelled and report progress while BGG has them queued
+ */
+export type BggReadOptions = Pick<RetryOptions, "signal" | "onStatus">;
+
+// Large collections can take BGG several minutes to prepare
+const COLLECTION_MAX_WAIT = 5 * 60 * 1000;
+
+/**
+ * Rethrow errors caused by the caller cancelling the read
+ * A cancelled read rejects instead of returning an error result, so it isn't
+ * mistaken for a failure (React Query ignores it)
+ */
+function rethrowIfAborted(error: unknown, signal?: AbortSignal): void {
+  if (signal?.aborted) throw error;
+}
+
+/**
+ * Read the XML of a BGG response
+ * Throws a BggApiError for error statuses and for requests BGG is still processing
+ */
+async function readBggXml(response: Response): Promise<string> {
+  if (response.status >= 400) {
+    throw new BggApiError(errorForStatus(response.status));
+  }
+
+  const xml = await response.text();
+
+  if (isBggProcessing(xml)) {
+    throw new BggApiError({ kind: "StillProcessing", message: "BGG API is still processing" });
+  }
+
+  return xml;
+}
+
+// A read called without a required parameter
+function missingParameter(message: string): { success: false; error: BggError } {
+  return { success: false, error: { kind: "BadRequest", message } };
+}
 
 export type UserInfo = {
   id: string;
@@ -29,6 +70,18 @@ export type UserInfo = {
   lastmodified?: string;
 };
 
+/**
+ * A game's rank in one of BGG's rankings (overall "boardgame", or a family like "strategygames")
+ */
+export type BggRank = {
+  type: string;
+  id: string;
+  name: string;
+  friendlyname: string;
+  value: string; // the rank, or "Not Ranked"
+  bayesaverage: string;
+};
+
 export type CollectionGame = {
   objectid: string;
   objecttype: string;
@@ -38,7 +91,7 @@ export type CollectionGame = {
   yearpublished?: number;
   image?: string;
   thumbnail?: string;
-  stats: {
+  stats?: {
     minplayers: number;
     maxplayers: number;
     minplaytime: number;
@@ -46,27 +99,28 @@ export type CollectionGame = {
     playingtime: number;
     numowned: number;
     rating?: {
-      value: string;
+      value: string; // the user's rating, or "N/A"
       usersrated: number;
       average: number;
       bayesaverage: number;
       stddev: number;
       median: number;
-      ranks?: any;
+      ranks: BggRank[];
     };
   };
   status: {
-    own: string;
-    prevowned: string;
-    fortrade: string;
-    want: string;
-    wanttoplay: string;
-    wanttobuy: string;
-    wishlist: string;
-    preordered: string;
+    own: boolean;
+    prevowned: boolean;
+    fortrade: boolean;
+    want: boolean;
+    wanttoplay: boolean;
+    wanttobuy: boolean;
+    wishlist: boolean;
+    wishlistpriority?: number; // only set for wishlisted items
+    preordered: boolean;
     lastmodified: string;
   };
-  numplays: number | string;
+  numplays: number;
 };
 
 export type GameInfo = {
@@ -88,11 +142,19 @@ export type GameInfo = {
     type: string;
     id: string;
     value: string;
+    inbound?: boolean; // true when the link points back at a base game
   }>;
   polls?: Array<{
     name: string;
     title: string;
-    totalvotes: string;
+    totalvotes: number;
+    results: Array<{
+      numplayers?: string;
+      result: Array<{
+        value: string;
+        numvotes: number;
+      }>;
+    }>;
   }>;
   statistics?: {
     ratings: {
@@ -101,15 +163,39 @@ export type GameInfo = {
       bayesaverage: number;
       stddev: number;
       median: number;
-      ranks?: any;
+      ranks: BggRank[];
       averageweight: number;
     };
   };
 };
 
+/**
+ * A game matching a search, with only what BGG's search endpoint returns
+ * Details come from getGameInfo
+ */
+export type SearchResult = {
+  objectid: string;
+  objecttype: string; // "boardgame" or "boardgameexpansion"
+  name: string; // the name that matched, which may be an alternate (translated) name
+  isAlternateName: boolean;
+  yearpublished?: number;
+};
+
+/**
+ * A game on BGG's hotness list (the games getting the most attention on the site)
+ */
+export type HotGame = {
+  objectid: string;
+  rank: number; // 1 is the hottest
+  name: string;
+  yearpublished?: number;
+  thumbnail?: string;
+};
+
 export type PlayInfo = {
   id: string;
   gameId: string;
+  gameName?: string;
   date: Date;
   quantity: number;
   length?: number;
@@ -122,89 +208,6 @@ export type PlayInfo = {
   }>;
 };
 
-/**
- * Retry configuration for BGG API
- * BGG often returns 202 when processing requests, requiring retries
- */
-const MAX_RETRIES = 5;
-const INITIAL_RETRY_DELAY = 2000; // 2 seconds
-
-// Token is now handled server-side by Vercel Edge Function
-
-/**
- * Sleep utility for retries
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-/**
- * Make a request to BGG API with retry logic for processing status
- * Returns Response object, or throws for non-retryable errors
- */
-async function fetchWithRetry(
-  url: string,
-  maxRetries: number = MAX_RETRIES,
-  initialDelay: number = INITIAL_RETRY_DELAY
-): Promise<Response> {
-  let attempt = 0;
-  let delay = initialDelay;
-  let lastError: Error | null = null;
-
-  while (attempt < maxRetries) {
-    try {
-      const response = await fetch(url);
-
-      // If ready, return the response
-      if (response.status === 200) {
-        return response;
-      }
-
-      // If processing (202), wait and retry
-      if (response.status === 202) {
-        attempt++;
-        if (attempt >= maxRetries) {
-          throw new Error("BGG API is still processing the request after maximum retries");
-        }
-        await sleep(delay);
-        delay *= 2; // Exponential backoff
-        continue;
-      }
-
-      // For 404 and other client errors, return the response so the caller can handle it
-      if (response.status >= 400 && response.status < 500) {
-        return response;
-      }
-
-      // Other error statuses (5xx) - retry
-      if (response.status >= 500) {
-        attempt++;
-        if (attempt >= maxRetries) {
-          throw new Error(`BGG API returned status ${response.status} after ${maxRetries} retries`);
-        }
-        await sleep(delay);
-        delay *= 2;
-        continue;
-      }
-
-      // Unknown status - throw
-      throw new Error(`BGG API returned status ${response.status}`);
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      // For fetch failures (network errors, CORS), retry
-      attempt++;
-      if (attempt >= maxRetries) {
-        throw lastError;
-      }
-      await sleep(delay);
-      delay *= 2;
-    }
-  }
-
-  throw lastError || new Error("Maximum retries exceeded");
-}
-
 /**
  * Validate BGG username
  * GET /xmlapi2/user?name={username}
@@ -212,65 +215,28 @@ async function fetchWithRetry(
  * Returns user info if valid, error if invalid
  */
 export async function validateUsername(
-  username: string
+  username: string,
+  options: BggReadOptions = {}
 ): Promise<BggApiResult<UserInfo>> {
   try {
     if (!username || username.trim().length === 0) {
-      return {
-        success: false,
-        error: "Username cannot be empty",
-      };
+      return missingParameter("Username cannot be empty");
     }
 
-    // Construct URL differently for dev vs production
-    let url: string;
-    if (import.meta.env.DEV) {
-      url = `${BGG_API_BASE}/user?name=${encodeURIComponent(username)}`;
-    } else {
-      // In production, pass endpoint and query params separately
-      const params = new URLSearchParams({
-        name: username,
-      });
-      url = `${BGG_API_BASE}user&${params.toString()}`;
-    }
+    const response = await bggRequest("user", { name: username }, options);
 
-    const response = await fetchWithRetry(url);
+    const notFound: BggError = { kind: "NotFound", message: `User "${username}" not found on BoardGameGeek` };
 
     // Handle 404 - user not found
     if (response.status === 404) {
-      return {
-        success: false,
-        error: `User "${username}" not found on BoardGameGeek`,
-      };
+      return { success: false, error: notFound };
     }
 
-    // Handle other client errors (4xx)
-    if (response.status >= 400 && response.status < 500) {
-      return {
-        success: false,
-        error: `BGG API error: ${response.statusText} (${response.status})`,
-      };
-    }
-
-    const xmlText = await response.text();
-
-    // Check if still processing (shouldn't happen with fetchWithRetry, but just in case)
-    if (isBggProcessing(xmlText)) {
-      return {
-        success: false,
-        error: "BGG API is still processing",
-        retryLater: true,
-        backoff: 2,
-      };
-    }
-
-    const userInfo = parseUserInfo(xmlText);
+    const xmlText = await readBggXml(response);
+    const userInfo = parseUserResponse(xmlText);
 
     if (!userInfo) {
-      return {
-        success: false,
-        error: `User "${username}" not found on BoardGameGeek`,
-      };
+      return { success: false, error: notFound };
     }
 
     return {
@@ -278,241 +244,160 @@ export async function validateUsername(
       data: userInfo,
     };
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : "Failed to validate username";
-
-    // Don't retry for fetch failures (CORS, network issues) - these are usually permanent
-    const isFetchFailure = errorMessage.includes("Failed to fetch") ||
-                           errorMessage.includes("fetch") ||
-                           errorMessage.includes("Network") ||
-                           errorMessage.includes("CORS");
-
-    return {
-      success: false,
-      error: errorMessage,
-      retryLater: !isFetchFailure, // Only retry if it's not a fetch/CORS error
-    };
+    rethrowIfAborted(error, options.signal);
+    return { success: false, error: toBggError(error) };
   }
 }
 
 /**
- * Get user's collection
- * GET /xmlapi2/collection?username={username}&own=1&stats=1&excludesubtype=boardgameexpansion
- *
- * Returns all games owned by the user with stats
+ * Fetch collection items matching the given status and subtype filters
+ * Shared by the base game and expansion collection requests
  */
-export async function getUserCollection(
-  username: string
+async function fetchCollection(
+  username: string,
+  filterParams: Omit<BggEndpointParams["collection"], "username">,
+  options: BggReadOptions = {}
 ): Promise<BggApiResult<CollectionGame[]>> {
   try {
     if (!username || username.trim().length === 0) {
-      return {
-        success: false,
-        error: "Username cannot be empty",
-      };
+      return missingParameter("Username cannot be empty");
     }
 
-    // Construct URL differently for dev vs production
-    // Dev: /xmlapi2/collection?username=X&own=1&stats=1...
-    // Prod: /api/bgg?endpoint=collection&username=X&own=1&stats=1...
-    let url: string;
-    if (import.meta.env.DEV) {
-      url = `${BGG_API_BASE}/collection?username=${encodeURIComponent(
-        username
-      )}&own=1&stats=1&excludesubtype=boardgameexpansion`;
-    } else {
-      // In production, pass endpoint and query params separately
-      const params = new URLSearchParams({
+    const response = await bggRequest(
+      "collection",
+      {
         username,
-        own: "1",
-        stats: "1",
-        excludesubtype: "boardgameexpansion",
-      });
-      url = `${BGG_API_BASE}collection&${params.toString()}`;
-    }
+        stats: true,
+        ...filterParams,
+      },
+      { maxWaitMs: COLLECTION_MAX_WAIT, ...options }
+    );
+    const xmlText = await readBggXml(response);
 
-    const response = await fetchWithRetry(url);
-    const xmlText = await response.text();
-
-    // Check if still processing
-    if (isBggProcessing(xmlText)) {
-      return {
-        success: false,
-        error: "BGG API is still processing",
-        retryLater: true,
-        backoff: 2,
-      };
-    }
-
-    const collection = parseCollection(xmlText);
+    const collection = parseCollectionResponse(xmlText);
 
     return {
       success: true,
       data: collection,
     };
   } catch (error) {
-    return {
-      success: false,
-      error:
-        error instanceof Error
-          ? error.message
-          : "Failed to fetch user collection",
-      retryLater: true,
-    };
+    rethrowIfAborted(error, options.signal);
+    return { success: false, error: toBggError(error) };
   }
 }
 
+/**
+ * Get user's collection
+ * GET /xmlapi2/collection?username={username}&stats=1&excludesubtype=boardgameexpansion
+ *
+ * Returns every game in the user's collection with stats, whatever its status
+ * (owned, wishlist, want to play, for trade, previously owned...)
+ * BGG queues large collections, so this can poll for several minutes
+ */
+export async function getUserCollection(
+  username: string,
+  options: BggReadOptions = {}
+): Promise<BggApiResult<CollectionGame[]>> {
+  return fetchCollection(
+    username,
+    {
+      excludesubtype: "boardgameexpansion",
+    },
+    options
+  );
+}
+
+/**
+ * Get user's owned expansions
+ * GET /xmlapi2/collection?username={username}&own=1&stats=1&subtype=boardgameexpansion
+ *
+ * Expansions are linked to their base games via the thing endpoint's
+ * boardgameexpansion links (see mergeExpansions)
+ */
+export async function getUserExpansions(
+  username: string,
+  options: BggReadOptions = {}
+): Promise<BggApiResult<CollectionGame[]>> {
+  return fetchCollection(
+    username,
+    {
+      own: true,
+      subtype: "boardgameexpansion",
+    },
+    options
+  );
+}
+
+/**
+ * Options for getGamesInfo
+ */
+export type GamesInfoOptions = BggReadOptions & {
+  // Called with each batch as soon as it is parsed, so callers can use
+  // partial results even if a later batch fails
+  onBatch?: (games: GameInfo[]) => void;
+  // Called with the ids of a batch that failed; the remaining batches are still fetched
+  onBatchError?: (gameIds: string[], error: BggError) => void;
+};
+
 /**
  * Get detailed info for multiple games
  * GET /xmlapi2/thing?id={id1,id2,id3}&stats=1
  *
  * Returns detailed information for the specified games
  * Note: BGG limits requests to ~20 IDs per request when using stats=1
+ * A failed batch doesn't stop the others: the result has the games that did load,
+ * and only fails when every batch did.
  */
 export async function getGamesInfo(
-  gameIds: string[]
+  gameIds: string[],
+  options: GamesInfoOptions = {}
 ): Promise<BggApiResult<GameInfo[]>> {
   try {
     if (!gameIds || gameIds.length === 0) {
-      return {
-        success: false,
-        error: "No game IDs provided",
-      };
+      return missingParameter("No game IDs provided");
     }
 
     // BGG limits to ~20 IDs per request when using stats=1
     const BATCH_SIZE = 20;
     const allGames: GameInfo[] = [];
+    const batchErrors: BggError[] = [];
 
     // Process in batches
     for (let i = 0; i < gameIds.length; i += BATCH_SIZE) {
       const batch = gameIds.slice(i, i + BATCH_SIZE);
-      const ids = batch.join(",");
-
-      // Construct URL differently for dev vs production
-      let url: string;
-      if (import.meta.env.DEV) {
-        url = `${BGG_API_BASE}/thing?id=${ids}&stats=1`;
-      } else {
-        // In production, pass endpoint and query params separately
-        const params = new URLSearchParams({
-          id: ids,
-          stats: "1",
-        });
-        url = `${BGG_API_BASE}thing&${params.toString()}`;
-      }
 
-      const response = await fetchWithRetry(url);
-      const xmlText = await response.text();
-
-      // Check if still processing
-      if (isBggProcessing(xmlText)) {
-        return {
-          success: false,
-          error: "BGG API is still processing",
-          retryLater: true,
-          backoff: 2,
-        };
-      }
+      try {
+        const response = await bggRequest("thing", { id: batch, stats: true }, options);
+        const xmlText = await readBggXml(response);
 
-      const json = parseXmlToJson(xmlText);
-      // The root element is <items>, so we access json.item directly (not json.items.item)
-      const items = json?.item || json?.items?.item;
+        const games = parseThingResponse(xmlText);
 
-      if (!items) {
-        continue;
+        allGames.push(...games);
+        options.onBatch?.(games);
+      } catch (error) {
+        rethrowIfAborted(error, options.signal);
+        const batchError = toBggError(error);
+        batchErrors.push(batchError);
+        options.onBatchError?.(batch, batchError);
       }
 
-      // Handle single item or array
-      const itemsArray = Array.isArray(items) ? items : [items];
-
-      // Parse each game
-      const games: GameInfo[] = itemsArray.map((item: any) => {
-        // Parse name (get primary name)
-        // Our XML parser stores attributes directly, so item.name is an object with type, value, sortindex props
-        let name = "";
-        let sortindex = undefined;
-        if (Array.isArray(item.name)) {
-          const primary = item.name.find((n: any) => n.type === "primary");
-          name = primary?.value || item.name[0]?.value || "";
-        } else if (item.name) {
-          name = item.name.value || item.name._text || item.name;
-          sortindex = item.name.sortindex;
-        }
-
-        // Parse links (categories, mechanics, etc.)
-        // Our XML parser stores attributes directly: type, id, value
-        const links = item.link
-          ? (Array.isArray(item.link)
-              ? item.link
-              : [item.link]
-            ).map((l: any) => ({
-              type: l.type,
-              id: l.id,
-              value: l.value,
-            }))
-          : undefined;
-
-        // Helper to get value from element (handles both direct value and _text)
-        const getValue = (elem: any) => elem?._text ?? elem?.value ?? elem;
-
-        return {
-          objectid: item.id,
-          objecttype: item.type,
-          name,
-          sortindex,
-          description: item.description?._text ?? item.description,
-          yearpublished: getValue(item.yearpublished),
-          image: item.image?._text ?? item.image,
-          thumbnail: item.thumbnail?._text ?? item.thumbnail,
-          minplayers: getValue(item.minplayers),
-          maxplayers: getValue(item.maxplayers),
-          playtime: getValue(item.playtime),
-          minplaytime: getValue(item.minplaytime),
-          maxplaytime: getValue(item.maxplaytime),
-          minage: getValue(item.minage),
-          links,
-          polls: item.poll
-            ? (Array.isArray(item.poll) ? item.poll : [item.poll]).map(
-                (p: any) => ({
-                  name: p.name,
-                  title: p.title,
-                  totalvotes: p.totalvotes,
-                })
-              )
-            : undefined,
-          statistics: {
-            ratings: {
-              usersrated: getValue(item.statistics?.ratings?.usersrated),
-              average: getValue(item.statistics?.ratings?.average),
-              bayesaverage: getValue(item.statistics?.ratings?.bayesaverage),
-              stddev: getValue(item.statistics?.ratings?.stddev),
-              median: getValue(item.statistics?.ratings?.median),
-              ranks: item.statistics?.ratings?.ranks?.rank,
-              averageweight: getValue(item.statistics?.ratings?.averageweight),
-            },
-          },
-        };
-      });
-
-      allGames.push(...games);
-
       // Add a small delay between batches to avoid rate limiting
       if (i + BATCH_SIZE < gameIds.length) {
-        await sleep(500);
+        await sleep(500, options.signal);
       }
     }
 
+    if (batchErrors.length === Math.ceil(gameIds.length / BATCH_SIZE)) {
+      return { success: false, error: batchErrors[0] };
+    }
+
     return {
       success: true,
       data: allGames,
     };
   } catch (error) {
-    return {
-      success: false,
-      error:
-        error instanceof Error ? error.message : "Failed to fetch game details",
-      retryLater: true,
-    };
+    rethrowIfAborted(error, options.signal);
+    return { success: false, error: toBggError(error) };
   }
 }
 
@@ -521,9 +406,10 @@ export async function getGamesInfo(
  * GET /xmlapi2/thing?id={gameId}&stats=1
  */
 export async function getGameInfo(
-  gameId: string
+  gameId: string,
+  options: BggReadOptions = {}
 ): Promise<BggApiResult<GameInfo>> {
-  const result = await getGamesInfo([gameId]);
+  const result = await getGamesInfo([gameId], options);
 
   if (!result.success) {
     return result as BggApiResult<never>;
@@ -532,7 +418,7 @@ export async function getGameInfo(
   if (result.data.length === 0) {
     return {
       success: false,
-      error: `Game with ID ${gameId} not found`,
+      error: { kind: "NotFound", message: `Game with ID ${gameId} not found` },
     };
   }
 
@@ -542,6 +428,77 @@ export async function getGameInfo(
   };
 }
 
+/**
+ * Search BGG for board games and expansions by name
+ * GET /xmlapi2/search?query={query}&type=boardgame,boardgameexpansion
+ *
+ * Returns each game once, under the name that matched
+ * @param exact Only match the whole name
+ */
+export async function searchGames(
+  query: string,
+  options: BggReadOptions & { exact?: boolean } = {}
+): Promise<BggApiResult<SearchResult[]>> {
+  try {
+    if (!query || query.trim().length === 0) {
+      return missingParameter("Search query cannot be empty");
+    }
+
+    const response = await bggRequest(
+      "search",
+      {
+        query: query.trim(),
+        type: ["boardgame", "boardgameexpansion"],
+        exact: options.exact || undefined,
+      },
+      options
+    );
+    const xmlText = await readBggXml(response);
+    const results = parseSearchResponse(xmlText);
+
+    // BGG lists each expansion twice, as a boardgame and as a boardgameexpansion
+    const byId = new Map<string, SearchResult>();
+    results.forEach((result) => {
+      const existing = byId.get(result.objectid);
+      if (!existing) {
+        byId.set(result.objectid, result);
+      } else if (result.objecttype === "boardgameexpansion") {
+        byId.set(result.objectid, { ...existing, objecttype: result.objecttype });
+      }
+    });
+
+    return {
+      success: true,
+      data: Array.from(byId.values()),
+    };
+  } catch (error) {
+    rethrowIfAborted(error, options.signal);
+    return { success: false, error: toBggError(error) };
+  }
+}
+
+/**
+ * Get the board games currently on BGG's hotness list
+ * GET /xmlapi2/hot?type=boardgame
+ *
+ * Returns about 50 games, hottest first
+ */
+export async function getHotGames(options: BggReadOptions = {}): Promise<BggApiResult<HotGame[]>> {
+  try {
+    const response = await bggRequest("hot", { type: "boardgame" }, options);
+    const xmlText = await readBggXml(response);
+    const games = parseHotResponse(xmlText);
+
+    return {
+      success: true,
+      data: [...games].sort((a, b) => a.rank - b.rank),
+    };
+  } catch (error) {
+    rethrowIfAborted(error, options.signal);
+    return { success: false, error: toBggError(error) };
+  }
+}
+
 /**
  * Get user's plays
  * GET /xmlapi2/plays?username={username}
@@ -550,109 +507,26 @@ export async function getGameInfo(
  */
 export async function getUserPlays(
   username: string,
-  page: number = 1
+  page: number = 1,
+  options: BggReadOptions = {}
 ): Promise<BggApiResult<{ plays: PlayInfo[]; totalPlays: number }>> {
-  console.log("A");
   try {
-    console.log("B");
     if (!username || username.trim().length === 0) {
-      return {
-        success: false,
-        error: "Username cannot be empty",
-      };
-    }
-
-    console.log("C");
-
-    // Construct URL differently for dev vs production
-    let url: string;
-    if (import.meta.env.DEV) {
-      url = `${BGG_API_BASE}/plays?username=${encodeURIComponent(username)}&page=${page}`;
-    } else {
-      const params = new URLSearchParams({
-        username,
-        page: String(page),
-      });
-      url = `${BGG_API_BASE}plays&${params.toString()}`;
-    }
-
-    console.log("D");
-
-    const response = await fetchWithRetry(url);
-    const xmlText = await response.text();
-
-    // Check if still processing
-    if (isBggProcessing(xmlText)) {
-      return {
-        success: false,
-        error: "BGG API is still processing",
-        retryLater: true,
-        backoff: 2,
-      };
-    }
-
-    console.log("E");
-    const json = parseXmlToJson(xmlText);
-    console.log("Parsed JSON:", JSON.stringify(json, null, 2));
-
-    // The <plays> element is the root, so json itself is the plays object
-    // Check if json has 'play' property (meaning it's already the plays object)
-    const playsElement = json?.play ? json : json?.plays;
-    console.log("F", playsElement);
-
-    if (!playsElement || !playsElement.play) {
-      console.log("H - playsElement or playsElement.play is falsy!");
-      return {
-        success: true,
-        data: { plays: [], totalPlays: 0 },
-      };
+      return missingParameter("Username cannot be empty");
     }
 
-    console.log("G");
-
-    const totalPlays = parseInt(String(playsElement.total || 0), 10);
-    const playsArray = Array.isArray(playsElement.play) ? playsElement.play : [playsElement.play].filter(Boolean);
+    const response = await bggRequest("plays", { username, page }, options);
+    const xmlText = await readBggXml(response);
 
-    console.log('🔍 BGG Plays raw data:', playsArray);
-
-    const plays: PlayInfo[] = playsArray.map((play: any) => {
-      const gameId = play.item?.objectid || play.objectid;
-      console.log('🔍 Processing play:', {
-        playId: play.id,
-        gameId,
-        date: play.date,
-        rawPlay: play
-      });
-      return {
-        id: play.id,
-        gameId: gameId,
-        date: new Date(play.date),
-        quantity: parseInt(String(play.quantity || 1), 10),
-        length: play.length ? parseInt(String(play.length), 10) : undefined,
-        players: play.players?.player
-          ? (Array.isArray(play.players.player) ? play.players.player : [play.players.player]).map((p: any) => ({
-              username: p.username,
-              name: p.name,
-              score: p.score,
-              new: p.new === "1" || p.new === 1,
-              win: p.win === "1" || p.win === 1,
-            }))
-          : undefined,
-      };
-    });
-
-    console.log('🔍 Processed plays:', plays);
+    const { plays, totalPlays } = parsePlaysResponse(xmlText);
 
     return {
       success: true,
       data: { plays, totalPlays },
     };
   } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Failed to fetch user plays",
-      retryLater: true,
-    };
+    rethrowIfAborted(error, options.signal);
+    return { success: false, error: toBggError(error) };
   }
 }
 
@@ -664,92 +538,30 @@ export async function getUserPlays(
  */
 export async function getGamePlays(
   username: string,
-  gameId: string
+  gameId: string,
+  options: BggReadOptions = {}
 ): Promise<BggApiResult<PlayInfo[]>> {
   try {
     if (!username || username.trim().length === 0) {
-      return {
-        success: false,
-        error: "Username cannot be empty",
-      };
+      return missingParameter("Username cannot be empty");
     }
 
     if (!gameId || gameId.trim().length === 0) {
-      return {
-        success: false,
-        error: "Game ID cannot be empty",
-      };
-    }
-
-    // Construct URL differently for dev vs production
-    let url: string;
-    if (import.meta.env.DEV) {
-      url = `${BGG_API_BASE}/plays?username=${encodeURIComponent(username)}&id=${gameId}`;
-    } else {
-      const params = new URLSearchParams({
-        username,
-        id: gameId,
-      });
-      url = `${BGG_API_BASE}plays&${params.toString()}`;
-    }
-
-    const response = await fetchWithRetry(url);
-    const xmlText = await response.text();
-
-    // Check if still processing
-    if (isBggProcessing(xmlText)) {
-      return {
-        success: false,
-        error: "BGG API is still processing",
-        retryLater: true,
-        backoff: 2,
-      };
-    }
-
-    const json = parseXmlToJson(xmlText);
-
-    // The <plays> element is the root, so json itself is the plays object
-    const playsElement = json?.play ? json : json?.plays;
-
-    if (!playsElement || !playsElement.play) {
-      return {
-        success: true,
-        data: [],
-      };
+      return missingParameter("Game ID cannot be empty");
     }
 
-    const playsArray = Array.isArray(playsElement.play) ? playsElement.play : [playsElement.play].filter(Boolean);
+    const response = await bggRequest("plays", { username, id: gameId }, options);
+    const xmlText = await readBggXml(response);
 
-    const plays: PlayInfo[] = playsArray.map((play: any) => {
-      const gameId = play.item?.objectid || play.objectid;
-      return {
-        id: play.id,
-        gameId: gameId,
-        date: new Date(play.date),
-        quantity: parseInt(String(play.quantity || 1), 10),
-        length: play.length ? parseInt(String(play.length), 10) : undefined,
-        players: play.players?.player
-          ? (Array.isArray(play.players.player) ? play.players.player : [play.players.player]).map((p: any) => ({
-              username: p.username,
-              name: p.name,
-              score: p.score,
-              new: p.new === "1" || p.new === 1,
-              win: p.win === "1" || p.win === 1,
-            }))
-          : undefined,
-      };
-    });
+    const { plays } = parsePlaysResponse(xmlText);
 
     return {
       success: true,
       data: plays,
     };
   } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Failed to fetch game plays",
-      retryLater: true,
-    };
+    rethrowIfAborted(error, options.signal);
+    return { success: false, error: toBggError(error) };
   }
 }
 
@@ -758,9 +570,10 @@ export async function getGamePlays(
  * Fetches all plays by paginating through results
  */
 export async function getAllUserPlays(
-  username: string
+  username: string,
+  options: BggReadOptions = {}
 ): Promise<BggApiResult<PlayInfo[]>> {
-  const firstPage = await getUserPlays(username, 1);
+  const firstPage = await getUserPlays(username, 1, options);
 
   if (!firstPage.success) {
     return firstPage as BggApiResult<never>;
@@ -779,7 +592,7 @@ export async function getAllUserPlays(
 
   // Fetch remaining pages in parallel
   const remainingPages = await Promise.all(
-    Array.from({ length: totalPages - 1 }, (_, i) => getUserPlays(username, i + 2))
+    Array.from({ length: totalPages - 1 }, (_, i) => getUserPlays(username, i + 2, options))
   );
 
   // Check if any pages failed
@@ -799,3 +612,103 @@ export async function getAllUserPlays(
   };
 }
 
+
+/**
+ * Play logging
+ * Writes always go through the /api/bgg function, which holds the user's BGG
+ * session in an HttpOnly cookie (run `vercel dev` to use them locally)
+ */
+const BGG_WRITE_URL = "/api/bgg";
+const CSRF_COOKIE = "bgg_csrf";
+const USER_COOKIE = "bgg_user";
+
+export type LogPlayInput = {
+  gameId: string;
+  gameName?: string; // Only used for the optimistic cache entry
+  date: string; // YYYY-MM-DD
+  length?: number; // minutes
+  quantity?: number;
+  comments?: string;
+  players: Array<{
+    name: string;
+    username?: string;
+    score?: string;
+    win?: boolean;
+    new?: boolean;
+  }>;
+};
+
+function getCookie(name: string): string | null {
+  const match = document.cookie
+    .split(";")
+    .map((part) => part.trim())
+    .find((part) => part.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : null;
+}
+
+/**
+ * BGG username of the current play-logging session, if any
+ */
+export function getBggSessionUsername(): string | null {
+  return getCookie(USER_COOKIE) || null;
+}
+
+async function postToBgg<T>(
+  action: string,
+  body: unknown
+): Promise<BggApiResult<T>> {
+  try {
+    const csrfToken = getCookie(CSRF_COOKIE);
+    const response = await fetch(`${BGG_WRITE_URL}?action=${action}`, {
+      method: "POST",
+      credentials: "same-origin",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Requested-With": "CardboardMaid",
+        ...(csrfToken ? { "X-CSRF-Token": csrfToken } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      return {
+        success: false,
+        error: errorForStatus(response.status, data?.error || `BGG request failed: ${response.status}`),
+      };
+    }
+
+    return { success: true, data: data as T };
+  } catch (error) {
+    return { success: false, error: toBggError(error) };
+  }
+}
+
+/**
+ * Start a BGG session for logging plays
+ * The password is only forwarded to BGG's login and never stored
+ */
+export async function loginToBgg(
+  username: string,
+  password: string
+): Promise<BggApiResult<{ username: string }>> {
+  return postToBgg("login", { username: username.trim(), password });
+}
+
+/**
+ * End the BGG session
+ */
+export async function logoutFromBgg(): Promise<BggApiResult<{ success: boolean }>> {
+  return postToBgg("logout", {});
+}
+
+/**
+ * Log a play on BGG with the user's session
+ * POST /geekplay.php (via /api/bgg?action=logplay)
+ */
+export async function logPlay(
+  play: LogPlayInput
+): Promise<BggApiResult<{ playId: string; numPlays?: number }>> {
+  return postToBgg("logplay", play);
+}
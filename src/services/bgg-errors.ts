@@ -0,0 +1,88 @@
+/**
+ * Errors from BoardGameGeek requests
+ * Services classify each failure once, where the status or exception is known,
+ * so hooks and pages can branch on `kind` instead of matching error messages.
+ */
+
+import { XmlParseError } from "@/lib/xml-parser";
+
+/**
+ * Why a BGG request failed
+ * - NotFound: no such user or game
+ * - RateLimited: BGG kept answering 429
+ * - StillProcessing: BGG was still preparing the response when we stopped waiting
+ * - Network: BGG (or our proxy) couldn't be reached
+ * - Unauthorized: BGG refused the request (missing API token, or no play-logging session)
+ * - ParseError: the response wasn't the XML or JSON we expected
+ * - Upstream5xx: BGG kept failing with a server error
+ * - BadRequest: the request itself was invalid (empty username, other 4xx)
+ */
+export type BggError =
+  | { kind: "NotFound"; message: string }
+  | { kind: "RateLimited"; message: string }
+  | { kind: "StillProcessing"; message: string }
+  | { kind: "Network"; message: string }
+  | { kind: "Unauthorized"; message: string }
+  | { kind: "ParseError"; message: string }
+  | { kind: "Upstream5xx"; message: string; status: number }
+  | { kind: "BadRequest"; message: string; status?: number };
+
+export type BggErrorKind = BggError["kind"];
+
+/**
+ * A BggError thrown as an exception
+ * Thrown by the request layer and by the React Query hooks, so retry callbacks
+ * and pages get the kind from `error.kind`
+ */
+export class BggApiError extends Error {
+  readonly kind: BggErrorKind;
+  readonly detail: BggError;
+
+  constructor(detail: BggError) {
+    super(detail.message);
+    this.name = "BggApiError";
+    this.kind = detail.kind;
+    this.detail = detail;
+  }
+}
+
+/**
+ * Check whether an error is a BGG error, optionally of one of the given kinds
+ */
+export function isBggError(error: unknown, ...kinds: BggErrorKind[]): error is BggApiError {
+  return error instanceof BggApiError && (kinds.length === 0 || kinds.includes(error.kind));
+}
+
+/**
+ * Classify an exception caught around a BGG request
+ */
+export function toBggError(error: unknown): BggError {
+  // Includes BggValidationError, thrown when a response doesn't match its schema
+  if (error instanceof BggApiError) return error.detail;
+  if (error instanceof XmlParseError || error instanceof SyntaxError) {
+    return { kind: "ParseError", message: error.message };
+  }
+  // Anything else failed on the way to BGG: fetch rejects with a TypeError when
+  // the server can't be reached or CORS blocks the response
+  return { kind: "Network", message: error instanceof Error ? error.message : String(error) };
+}
+
+/**
+ * Classify an error status from BGG or our proxy
+ * @param message Used instead of the default message for the status
+ */
+export function errorForStatus(status: number, message?: string): BggError {
+  if (status === 401 || status === 403) {
+    return { kind: "Unauthorized", message: message || `BoardGameGeek refused the request (${status})` };
+  }
+  if (status === 404) {
+    return { kind: "NotFound", message: message || "Not found on BoardGameGeek" };
+  }
+  if (status === 429) {
+    return { kind: "RateLimited", message: message || "BGG API rate limit reached" };
+  }
+  if (status >= 500) {
+    return { kind: "Upstream5xx", message: message || `BGG API returned status ${status}`, status };
+  }
+  return { kind: "BadRequest", message: message || `BGG API returned status ${status}`, status };
+}
@@ -0,0 +1,306 @@
+/**
+ * BoardGameGeek XMLAPI2 request layer
+ * Builds and sends every read: picks the base URL, encodes the parameters and
+ * retries while BGG is processing or failing.
+ *
+ * Requests go to, in order of preference:
+ * - VITE_BGG_PROXY_URL, a self-hosted proxy speaking the same protocol as api/bgg.js
+ *   (`<proxy>?endpoint=<endpoint>&<params>`)
+ * - the Vite dev server proxy in development (`/xmlapi2/<endpoint>?<params>`)
+ * - the Vercel function in production (`/api/bgg?endpoint=<endpoint>&<params>`)
+ * - BGG itself outside a Vite build (Node scripts and server-side code, where CORS doesn't apply)
+ */
+
+import { BggApiError, errorForStatus, type BggError } from "@/services/bgg-errors";
+
+type ThingType =
+  | "boardgame"
+  | "boardgameexpansion"
+  | "boardgameaccessory"
+  | "rpgitem"
+  | "rpgissue"
+  | "videogame";
+
+/**
+ * Parameters each endpoint takes (mirrors the allowlist in api/bgg.js)
+ * Booleans are sent as 1/0 and lists are comma-separated
+ */
+export type BggEndpointParams = {
+  user: {
+    name: string;
+    buddies?: boolean;
+    guilds?: boolean;
+    hot?: boolean;
+    top?: boolean;
+    page?: number;
+  };
+  collection: {
+    username: string;
+    stats?: boolean;
+    brief?: boolean;
+    subtype?: ThingType;
+    excludesubtype?: ThingType;
+    id?: string[];
+    own?: boolean;
+    wishlist?: boolean;
+    wanttoplay?: boolean;
+    trade?: boolean;
+    prevowned?: boolean;
+    played?: boolean;
+    rated?: boolean;
+    modifiedsince?: string;
+  };
+  thing: {
+    id: string[];
+    type?: ThingType[];
+    stats?: boolean;
+    versions?: boolean;
+    page?: number;
+    pagesize?: number;
+  };
+  plays: {
+    username?: string;
+    id?: string;
+    type?: "thing" | "family";
+    mindate?: string;
+    maxdate?: string;
+    page?: number;
+  };
+  search: {
+    query: string;
+    type?: ThingType[];
+    exact?: boolean;
+  };
+  hot: {
+    type?: "boardgame" | "rpg" | "videogame";
+  };
+};
+
+export type BggEndpoint = keyof BggEndpointParams;
+
+type ParamValue = string | number | boolean | string[] | undefined;
+
+/**
+ * Progress of a read that isn't answered yet
+ * - queued: BGG accepted the request (202) and is still preparing the response
+ * - retrying: the request failed (5xx, 429 or network error) and will be sent again
+ */
+export type BggRequestStatus = {
+  state: "queued" | "retrying";
+  attempt: number; // requests sent so far
+  retryInMs: number; // wait before the next attempt
+  elapsedMs: number; // time since the first attempt
+};
+
+/**
+ * Retry configuration for BGG API
+ * BGG often returns 202 when processing requests, requiring retries
+ */
+export type RetryOptions = {
+  maxRetries?: number; // attempts for failed requests
+  maxWaitMs?: number; // how long to keep polling a queued request
+  initialDelay?: number;
+  maxDelay?: number;
+  signal?: AbortSignal; // cancels the request and any wait
+  onStatus?: (status: BggRequestStatus) => void;
+};
+
+const MAX_RETRIES = 5;
+const MAX_QUEUE_WAIT = 2 * 60 * 1000; // 2 minutes
+const INITIAL_RETRY_DELAY = 2000; // 2 seconds
+const MAX_RETRY_DELAY = 30 * 1000; // 30 seconds
+
+// import.meta.env only exists in code built by Vite
+const env: Partial<ImportMetaEnv> = import.meta.env ?? {};
+
+// Self-hosted proxy, if configured (see .env.example)
+const BGG_PROXY_URL = env.VITE_BGG_PROXY_URL;
+const BGG_API_URL = "https://boardgamegeek.com/xmlapi2";
+
+/**
+ * Sleep utility for retries
+ * Rejects with the signal's reason as soon as it is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Exponential backoff with jitter
+ * Waits between half and all of initialDelay * 2^(step - 1), capped at maxDelay,
+ * so clients that were queued together don't poll BGG in lockstep
+ */
+function backoffDelay(step: number, initialDelay: number, maxDelay: number): number {
+  const delay = Math.min(maxDelay, initialDelay * 2 ** (step - 1));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+// Retry-After in milliseconds (our proxy forwards it on 202 and 429)
+function retryAfterMs(response: Response): number {
+  const seconds = Number(response.headers.get("Retry-After"));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+}
+
+function serializeParam(value: Exclude<ParamValue, undefined>): string {
+  if (Array.isArray(value)) return value.join(",");
+  if (typeof value === "boolean") return value ? "1" : "0";
+  return String(value);
+}
+
+/**
+ * Build the URL for a BGG read
+ * @param endpoint XMLAPI2 endpoint (e.g. "collection")
+ * @param params Endpoint parameters; undefined values are left out
+ */
+export function buildBggUrl<E extends BggEndpoint>(endpoint: E, params: BggEndpointParams[E]): string {
+  const query = new URLSearchParams();
+  Object.entries(params as Record<string, ParamValue>).forEach(([key, value]) => {
+    if (value !== undefined) query.set(key, serializeParam(value));
+  });
+  const queryString = query.toString();
+
+  if (BGG_PROXY_URL) {
+    const separator = BGG_PROXY_URL.includes("?") ? "&" : "?";
+    return `${BGG_PROXY_URL}${separator}endpoint=${endpoint}${queryString ? `&${queryString}` : ""}`;
+  }
+
+  // Use Vite proxy in development, Vercel Edge Function in production
+  if (env.DEV) {
+    return `/xmlapi2/${endpoint}${queryString ? `?${queryString}` : ""}`;
+  }
+  if (env.PROD) {
+    return `/api/bgg?endpoint=${endpoint}${queryString ? `&${queryString}` : ""}`;
+  }
+  return `${BGG_API_URL}/${endpoint}${queryString ? `?${queryString}` : ""}`;
+}
+
+/**
+ * Outcome of a single request
+ * - done: a response for the caller (200, or a 4xx it has to handle)
+ * - queued: BGG is still preparing the response (202)
+ * - failed: worth trying again (5xx, 429 or network error)
+ */
+type AttemptOutcome =
+  | { state: "done"; response: Response }
+  | { state: "queued"; retryAfterMs: number }
+  | { state: "failed"; error: BggError; retryAfterMs: number };
+
+async function attemptRequest(url: string, signal?: AbortSignal): Promise<AttemptOutcome> {
+  let response: Response;
+  try {
+    response = await fetch(url, { signal });
+  } catch (error) {
+    // Cancelled on purpose, don't retry
+    if (signal?.aborted) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    return { state: "failed", error: { kind: "Network", message }, retryAfterMs: 0 };
+  }
+
+  if (response.status === 202) {
+    return { state: "queued", retryAfterMs: retryAfterMs(response) };
+  }
+  if (response.status >= 500 || response.status === 429) {
+    return {
+      state: "failed",
+      error: errorForStatus(response.status),
+      retryAfterMs: retryAfterMs(response),
+    };
+  }
+  if (response.status === 200 || (response.status >= 400 && response.status < 500)) {
+    // For 404 and other client errors, return the response so the caller can handle it
+    return { state: "done", response };
+  }
+  throw new BggApiError(errorForStatus(response.status));
+}
+
+/**
+ * Make a request to BGG API, polling while BGG has it queued
+ *
+ * Queued requests (202) are polled until maxWaitMs has passed; failed requests
+ * (5xx, 429, network errors) are sent up to maxRetries times. Both back off
+ * exponentially with jitter and respect Retry-After. onStatus reports each wait.
+ *
+ * Returns the response once BGG is done processing (or a 4xx response for the
+ * caller to handle). Throws a BggApiError when BGG is still processing after
+ * maxWaitMs (StillProcessing) or when the retries run out (the kind of the last
+ * failure), or the signal's reason when it is aborted.
+ */
+export async function fetchWithRetry(url: string, options: RetryOptions = {}): Promise<Response> {
+  const {
+    maxRetries = MAX_RETRIES,
+    maxWaitMs = MAX_QUEUE_WAIT,
+    initialDelay = INITIAL_RETRY_DELAY,
+    maxDelay = MAX_RETRY_DELAY,
+    signal,
+    onStatus,
+  } = options;
+  const startedAt = Date.now();
+  let attempt = 0;
+  let queuedCount = 0;
+  let failedCount = 0;
+
+  for (;;) {
+    signal?.throwIfAborted();
+    attempt++;
+    const outcome = await attemptRequest(url, signal);
+    if (outcome.state === "done") {
+      return outcome.response;
+    }
+
+    const elapsedMs = Date.now() - startedAt;
+    let retryInMs: number;
+
+    if (outcome.state === "queued") {
+      queuedCount++;
+      const remainingMs = maxWaitMs - elapsedMs;
+      if (remainingMs <= 0) {
+        throw new BggApiError({
+          kind: "StillProcessing",
+          message: `BGG API is still processing the request after ${Math.round(maxWaitMs / 1000)}s`,
+        });
+      }
+      const delay = Math.max(backoffDelay(queuedCount, initialDelay, maxDelay), outcome.retryAfterMs);
+      retryInMs = Math.min(delay, remainingMs);
+    } else {
+      failedCount++;
+      if (failedCount >= maxRetries) {
+        throw new BggApiError({ ...outcome.error, message: `${outcome.error.message} after ${maxRetries} retries` });
+      }
+      retryInMs = Math.max(backoffDelay(failedCount, initialDelay, maxDelay), outcome.retryAfterMs);
+    }
+
+    onStatus?.({
+      state: outcome.state === "queued" ? "queued" : "retrying",
+      attempt,
+      retryInMs,
+      elapsedMs,
+    });
+    await sleep(retryInMs, signal);
+  }
+}
+
+/**
+ * Send a BGG read with retries
+ * @returns The response once BGG is done processing, or a 4xx response for the caller to handle
+ */
+export function bggRequest<E extends BggEndpoint>(
+  endpoint: E,
+  params: BggEndpointParams[E],
+  options: RetryOptions = {}
+): Promise<Response> {
+  return fetchWithRetry(buildBggUrl(endpoint, params), options);
+}
@@ -0,0 +1,404 @@
+/**
+ * Schemas for BoardGameGeek XMLAPI2 responses
+ * Validate the JSON produced by parseXmlToJson and turn it into the typed shapes
+ * the app uses (UserInfo, CollectionGame, GameInfo, PlayInfo, SearchResult, HotGame).
+ *
+ * parseXmlToJson keeps every value as a string, so numbers and flags are converted
+ * here and ids keep their exact text. Elements that BGG repeats come out as a single
+ * object when there is only one, so lists accept both.
+ *
+ * zod can't infer required fields without strictNullChecks, so the transforms
+ * assert the app types they produce.
+ */
+
+import { z } from "zod";
+import { parseXmlToJson, type XmlNode, type XmlValue } from "@/lib/xml-parser";
+import type { CollectionGame, GameInfo, HotGame, PlayInfo, SearchResult, UserInfo } from "@/services/bgg-api";
+import { BggApiError } from "@/services/bgg-errors";
+
+/**
+ * A response that didn't match its schema (a ParseError)
+ * The message names the response and the path of the first offending value
+ */
+export class BggValidationError extends BggApiError {
+  readonly path: PropertyKey[];
+  readonly issues: z.ZodError["issues"];
+
+  constructor(response: string, error: z.ZodError) {
+    const [issue] = error.issues;
+    const path = issue.path.length > 0 ? formatPath(issue.path) : "(root)";
+    super({ kind: "ParseError", message: `Unexpected BGG ${response} response at ${path}: ${issue.message}` });
+    this.name = "BggValidationError";
+    this.path = issue.path;
+    this.issues = error.issues;
+  }
+}
+
+// e.g. item[3].stats.rating.average
+function formatPath(path: PropertyKey[]): string {
+  return path
+    .map((key, index) => (typeof key === "number" ? `[${key}]` : `${index > 0 ? "." : ""}${String(key)}`))
+    .join("");
+}
+
+function isNode(value: XmlValue | undefined): value is XmlNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** An element that may appear any number of times */
+const list = <T extends z.ZodType>(schema: T) =>
+  z.preprocess((value) => (value === undefined ? [] : Array.isArray(value) ? value : [value]), z.array(schema));
+
+/** Text content: a plain string, `_text` when the element also has attributes, empty when there's none */
+const text = z.preprocess(
+  (value) => (isNode(value as XmlValue) ? (value as XmlNode)._text ?? "" : value),
+  z.string()
+);
+
+const int = z.string().regex(/^-?\d+$/, "Expected an integer").transform(Number);
+const decimal = z.string().regex(/^-?\d+(\.\d+)?$/, "Expected a number").transform(Number);
+const flag = z.enum(["0", "1"]).transform((value) => value === "1");
+
+/** `<element value="..."/>` */
+const valueOf = <T extends z.ZodType>(schema: T) =>
+  z.object({ value: schema }).transform((element: { value: z.output<T> }) => element.value);
+
+/** BGG's <errors><error><message>...</message></error></errors> */
+const errorsSchema = z.object({
+  error: list(z.object({ message: text })),
+});
+
+const rankSchema = z.object({
+  type: z.string(),
+  id: z.string(),
+  name: z.string(),
+  friendlyname: z.string(),
+  value: z.string(), // a number or "Not Ranked"
+  bayesaverage: z.string(),
+});
+
+const ranksSchema = z
+  .object({ rank: list(rankSchema) })
+  .transform((ranks) => ranks.rank)
+  .default([]);
+
+const userSchema = z
+  .object({
+    id: z.string(),
+    name: z.string(),
+    yearregistered: valueOf(z.string()).optional(),
+    lastlogin: valueOf(z.string()).optional(),
+  })
+  // BGG answers an unknown name with an empty <user id="" name="">
+  .transform((user): UserInfo | null =>
+    user.id
+      ? {
+          id: user.id,
+          name: user.name,
+          yearregistered: user.yearregistered ? Number(user.yearregistered) || undefined : undefined,
+          lastmodified: user.lastlogin || undefined,
+        }
+      : null
+  );
+
+const collectionItemSchema = z
+  .object({
+    objecttype: z.string(),
+    objectid: z.string(),
+    subtype: z.string(),
+    collid: z.string(),
+    name: text,
+    yearpublished: text.pipe(int).optional(),
+    image: text.optional(),
+    thumbnail: text.optional(),
+    stats: z
+      .object({
+        minplayers: int.default(0),
+        maxplayers: int.default(0),
+        minplaytime: int.default(0),
+        maxplaytime: int.default(0),
+        playingtime: int.default(0),
+        numowned: int.default(0),
+        rating: z
+          .object({
+            value: z.string(), // the user's rating, or "N/A"
+            usersrated: valueOf(int),
+            average: valueOf(decimal),
+            bayesaverage: valueOf(decimal),
+            stddev: valueOf(decimal),
+            median: valueOf(decimal),
+            ranks: ranksSchema,
+          })
+          .optional(),
+      })
+      .optional(),
+    status: z.object({
+      own: flag,
+      prevowned: flag,
+      fortrade: flag,
+      want: flag,
+      wanttoplay: flag,
+      wanttobuy: flag,
+      wishlist: flag,
+      wishlistpriority: int.optional(), // only set for wishlisted items
+      preordered: flag,
+      lastmodified: z.string(),
+    }),
+    numplays: text.pipe(int).default(0),
+  })
+  .transform((item) => item as CollectionGame);
+
+const collectionSchema = z.object({
+  item: list(collectionItemSchema),
+});
+
+const pollSchema = z.object({
+  name: z.string(),
+  title: z.string(),
+  totalvotes: int,
+  // Each <results> groups the votes for one option (e.g. numplayers="4")
+  results: list(
+    z.object({
+      numplayers: z.string().optional(),
+      result: list(
+        z.object({
+          value: z.string(),
+          numvotes: int,
+        })
+      ),
+    })
+  ),
+});
+
+const thingItemSchema = z
+  .object({
+    type: z.string(),
+    id: z.string(),
+    name: list(
+      z.object({
+        type: z.string(),
+        sortindex: int.optional(),
+        value: z.string(),
+      })
+    ),
+    description: text.optional(),
+    yearpublished: valueOf(int).optional(),
+    image: text.optional(),
+    thumbnail: text.optional(),
+    minplayers: valueOf(int).optional(),
+    maxplayers: valueOf(int).optional(),
+    playingtime: valueOf(int).optional(),
+    minplaytime: valueOf(int).optional(),
+    maxplaytime: valueOf(int).optional(),
+    minage: valueOf(int).optional(),
+    link: list(
+      z.object({
+        type: z.string(),
+        id: z.string(),
+        value: z.string(),
+        inbound: z.literal("true").optional(), // set when the link points back at a base game
+      })
+    ),
+    poll: list(pollSchema),
+    statistics: z
+      .object({
+        ratings: z.object({
+          usersrated: valueOf(int),
+          average: valueOf(decimal),
+          bayesaverage: valueOf(decimal),
+          stddev: valueOf(decimal),
+          median: valueOf(decimal),
+          ranks: ranksSchema,
+          averageweight: valueOf(decimal),
+        }),
+      })
+      .optional(),
+  })
+  .transform((item): GameInfo => {
+    const primaryName = item.name.find((name) => name.type === "primary") ?? item.name[0];
+    return {
+      objectid: item.id,
+      objecttype: item.type,
+      name: primaryName?.value ?? "",
+      sortindex: primaryName?.sortindex,
+      description: item.description,
+      yearpublished: item.yearpublished,
+      image: item.image,
+      thumbnail: item.thumbnail,
+      minplayers: item.minplayers,
+      maxplayers: item.maxplayers,
+      playtime: item.playingtime,
+      minplaytime: item.minplaytime,
+      maxplaytime: item.maxplaytime,
+      minage: item.minage,
+      links: item.link.map((link) => ({
+        type: link.type,
+        id: link.id,
+        value: link.value,
+        inbound: link.inbound ? true : undefined,
+      })),
+      polls: item.poll as GameInfo["polls"],
+      statistics: item.statistics as GameInfo["statistics"],
+    };
+  });
+
+const thingsSchema = z.object({
+  item: list(thingItemSchema),
+});
+
+const searchItemSchema = z
+  .object({
+    type: z.string(),
+    id: z.string(),
+    name: z.object({
+      type: z.string(), // "primary" or "alternate"
+      value: z.string(),
+    }),
+    yearpublished: valueOf(int).optional(),
+  })
+  .transform(
+    (item): SearchResult => ({
+      objectid: item.id,
+      objecttype: item.type,
+      name: item.name.value,
+      isAlternateName: item.name.type !== "primary",
+      yearpublished: item.yearpublished,
+    })
+  );
+
+const searchSchema = z.object({
+  item: list(searchItemSchema),
+});
+
+const hotItemSchema = z
+  .object({
+    id: z.string(),
+    rank: int,
+    name: valueOf(z.string()),
+    yearpublished: valueOf(int).optional(),
+    thumbnail: valueOf(z.string()).optional(),
+  })
+  .transform(
+    (item): HotGame => ({
+      objectid: item.id,
+      rank: item.rank,
+      name: item.name,
+      yearpublished: item.yearpublished,
+      thumbnail: item.thumbnail || undefined,
+    })
+  );
+
+const hotSchema = z.object({
+  item: list(hotItemSchema),
+});
+
+const playSchema = z
+  .object({
+    id: z.string(),
+    date: z.string(),
+    quantity: int.default(1),
+    length: int.default(0),
+    item: z.object({
+      name: z.string(),
+      objectid: z.string(),
+    }),
+    players: z
+      .object({
+        player: list(
+          z.object({
+            username: z.string().default(""),
+            name: z.string().default(""),
+            score: z.string().optional(),
+            new: flag.default(false),
+            win: flag.default(false),
+          })
+        ),
+      })
+      .optional(),
+  })
+  .transform((play): PlayInfo => ({
+    id: play.id,
+    gameId: play.item.objectid,
+    gameName: play.item.name,
+    date: new Date(play.date),
+    quantity: play.quantity,
+    length: play.length || undefined,
+    players: play.players?.player.map((player) => ({
+      ...player,
+      score: player.score || undefined,
+    })),
+  }));
+
+const playsSchema = z
+  .object({
+    total: int.default(0),
+    play: list(playSchema),
+  })
+  .transform((plays) => ({ plays: plays.play, totalPlays: plays.total }));
+
+/**
+ * Validate a parsed XML response against a schema
+ * Throws a BggApiError with BGG's own message when it answered with <errors>, or
+ * a BggValidationError naming the offending path when the response doesn't match
+ */
+function validateResponse<T extends z.ZodType>(schema: T, json: XmlValue, response: string): z.output<T> {
+  const errors = errorsSchema.safeParse(json);
+  if (errors.success && errors.data.error.length > 0) {
+    const message = errors.data.error[0].message || `BGG returned an error for the ${response} request`;
+    // The collection endpoint answers unknown users with "Invalid username specified"
+    const kind = /invalid username/i.test(message) ? "NotFound" : "BadRequest";
+    throw new BggApiError({ kind, message });
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    throw new BggValidationError(response, result.error);
+  }
+  return result.data;
+}
+
+/**
+ * Parse a user response (GET /xmlapi2/user?name=...)
+ * @returns The user, or null when BGG doesn't know the name
+ */
+export function parseUserResponse(xmlString: string): UserInfo | null {
+  const json = parseXmlToJson(xmlString);
+  // Unknown users come back as <user> with an empty id, or as an <error> in some cases
+  if (!isNode(json) || json.error) return null;
+  return validateResponse(userSchema, json, "user");
+}
+
+/**
+ * Parse a collection response (GET /xmlapi2/collection?username=...&stats=1)
+ */
+export function parseCollectionResponse(xmlString: string): CollectionGame[] {
+  return validateResponse(collectionSchema, parseXmlToJson(xmlString), "collection").item;
+}
+
+/**
+ * Parse a thing response (GET /xmlapi2/thing?id=...&stats=1)
+ */
+export function parseThingResponse(xmlString: string): GameInfo[] {
+  return validateResponse(thingsSchema, parseXmlToJson(xmlString), "thing").item;
+}
+
+/**
+ * Parse a search response (GET /xmlapi2/search?query=...)
+ */
+export function parseSearchResponse(xmlString: string): SearchResult[] {
+  return validateResponse(searchSchema, parseXmlToJson(xmlString), "search").item;
+}
+
+/**
+ * Parse a hotness list response (GET /xmlapi2/hot?type=boardgame)
+ */
+export function parseHotResponse(xmlString: string): HotGame[] {
+  return validateResponse(hotSchema, parseXmlToJson(xmlString), "hot").item;
+}
+
+/**
+ * Parse a plays response (GET /xmlapi2/plays?username=...)
+ */
+export function parsePlaysResponse(xmlString: string): { plays: PlayInfo[]; totalPlays: number } {
+  return validateResponse(playsSchema, parseXmlToJson(xmlString), "plays");
+}
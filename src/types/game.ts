@@ -1,3 +1,14 @@
+/**
+ * Votes from BGG's "suggested_numplayers" poll for a single player count
+ * numPlayers is the poll's label, e.g. "4" or "4+" for "more than 4"
+ */
+export interface PlayerCountVotes {
+  numPlayers: string;
+  best: number;
+  recommended: number;
+  notRecommended: number;
+}
+
 export interface Game {
   id: string;
   collectionId: string;
@@ -33,11 +44,17 @@ export interface Game {
     lastModified: string;
   };
   numPlays: number;
+  wishlistPriority?: number; // 1 (must have) to 5 (don't buy this), only for wishlisted games
   description?: string;
   weight?: number; // complexity 1-5
   categories?: string[];
   mechanics?: string[];
   designers?: string[];
+  suggestedPlayers?: PlayerCountVotes[]; // community player count poll
+  expansionIds?: string[]; // all published expansions for this game (from BGG links)
+  expansions?: Game[]; // expansions for this game that the user owns
+  owners?: string[]; // usernames owning a copy, when several collections are combined
+  ownerRatings?: Record<string, number>; // each owner's rating, keyed by username
   userRating?: number;
   lastPlayed?: Date; // Date of most recent play
 }
@@ -56,17 +73,51 @@ export type SortOption =
   | 'complexity'
   | 'plays'
   | 'last-played'
+  | 'wishlist-priority'
   | 'random';
 
 export type SortDirection = 'asc' | 'desc';
 
 // Sort options that support direction toggle (all except random)
-export type DirectionalSortOption = 'name' | 'year' | 'complexity' | 'plays' | 'last-played' | 'rating' | 'user-rating';
+export type DirectionalSortOption = 'name' | 'year' | 'complexity' | 'plays' | 'last-played' | 'rating' | 'user-rating' | 'wishlist-priority';
+
+// Which part of the collection is shown, by BGG collection status
+export type CollectionStatusView = 'owned' | 'wishlist' | 'wantToPlay' | 'forTrade' | 'previouslyOwned';
+
+// How strictly the player count filter is applied
+// supports: within the publisher's min-max range
+// recommended/best: according to the BGG community poll
+export type PlayerCountMode = 'supports' | 'recommended' | 'best';
+
+// How a list of values is matched against a game's values
+// any: at least one of them, all: every one of them
+export type MatchMode = 'any' | 'all';
+
+// Whether games need logged plays
+// played: at least one play, unplayed: none yet
+export type PlayedFilter = 'any' | 'played' | 'unplayed';
+
+// Collection status flags that can be required by the filters
+export type StatusFlag = Exclude<keyof Game['status'], 'lastModified'>;
 
 export interface FilterState {
   playerCount: number | null;
+  playerCountMode: PlayerCountMode;
   minPlaytime: number | null;
   maxPlaytime: number | null;
-  category: string | null;
+  includeExpansions: boolean; // let owned expansions widen player count and playtime ranges
+  categories: string[];
+  categoryMode: MatchMode;
+  includeMechanics: string[]; // games must have every included mechanic
+  excludeMechanics: string[]; // games with any excluded mechanic are hidden
+  includeDesigners: string[];
+  excludeDesigners: string[];
+  minWeight: number | null; // complexity 1-5
+  maxWeight: number | null;
+  minYear: number | null;
+  maxYear: number | null;
+  minRating: number | null; // BGG average rating
+  statusFlags: StatusFlag[]; // games must have every selected flag
+  played: PlayedFilter;
   searchQuery: string | null;
 }
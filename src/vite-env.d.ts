@@ -3,6 +3,9 @@
 interface ImportMetaEnv {
   // Server-side environment variables are not exposed to client
   // The BGG API token is now handled by Vercel Edge Function
+
+  /** Self-hosted BGG proxy to use instead of /api/bgg (and the dev server proxy) */
+  readonly VITE_BGG_PROXY_URL?: string;
 }
 
 interface ImportMeta {
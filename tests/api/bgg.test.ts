@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import handler from "../../api/bgg.js";
+
+// Don't space out the mocked upstream calls
+vi.hoisted(() => {
+  process.env.BGG_REQUEST_SPACING_MS = "1";
+});
+
+type MockResponse = {
+  statusCode: number;
+  headers: Record<string, string>;
+  body: unknown;
+  status: (code: number) => MockResponse;
+  setHeader: (name: string, value: string) => MockResponse;
+  send: (body: unknown) => MockResponse;
+  json: (body: unknown) => MockResponse;
+};
+
+function createResponse(): MockResponse {
+  const res: MockResponse = {
+    statusCode: 200,
+    headers: {},
+    body: undefined,
+    status: (code) => {
+      res.statusCode = code;
+      return res;
+    },
+    setHeader: (name, value) => {
+      res.headers[name] = value;
+      return res;
+    },
+    send: (body) => {
+      res.body = body;
+      return res;
+    },
+    json: (body) => {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+async function get(query: Record<string, string | string[]>) {
+  const res = createResponse();
+  await handler({ method: "GET", query, headers: {} }, res);
+  return res;
+}
+
+describe("BGG proxy allowlist", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    fetchMock.mockResolvedValue({
+      status: 200,
+      text: async () => "<items/>",
+      headers: new Headers(),
+    });
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it("forwards allowed endpoints and parameters", async () => {
+    const res = await get({ endpoint: "thing", id: "13,822", stats: "1" });
+
+    expect(res.statusCode).toBe(200);
+    expect(fetchMock).toHaveBeenCalledWith(
+      "https://boardgamegeek.com/xmlapi2/thing?id=13%2C822&stats=1",
+      expect.anything()
+    );
+  });
+
+  it("accepts plays looked up by user or by game", async () => {
+    expect((await get({ endpoint: "plays", username: "Alice", page: "2" })).statusCode).toBe(200);
+    expect((await get({ endpoint: "plays", username: "Alice", id: "13" })).statusCode).toBe(200);
+  });
+
+  it.each([
+    ["../geekplay.php"],
+    ["thing/../../login"],
+    ["..%2Fgeekplay.php"],
+    ["thing?id=1"],
+    ["forum"],
+    ["__proto__"],
+  ])("rejects the endpoint %s", async (endpoint) => {
+    const res = await get({ endpoint, id: "1" });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({ error: expect.objectContaining({ code: "unknown_endpoint", param: "endpoint" }) });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects a missing endpoint", async () => {
+    const res = await get({ username: "alice" });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({ error: expect.objectContaining({ code: "missing_parameter", param: "endpoint" }) });
+  });
+
+  it("rejects parameters the endpoint doesn't take", async () => {
+    const res = await get({ endpoint: "collection", username: "alice", password: "x" });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({ error: expect.objectContaining({ code: "unknown_parameter", param: "password" }) });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    ["id", { endpoint: "thing", id: "1&type=rpgitem" }],
+    ["id", { endpoint: "thing", id: "1,../2" }],
+    ["id", { endpoint: "thing", id: Array.from({ length: 21 }, (_, i) => i + 1).join(",") }],
+    ["username", { endpoint: "collection", username: "alice&own=0" }],
+    ["username", { endpoint: "collection", username: "../alice" }],
+    ["name", { endpoint: "user", name: "alice\r\nX-Injected: 1" }],
+    ["stats", { endpoint: "collection", username: "alice", stats: "true" }],
+    ["mindate", { endpoint: "plays", username: "alice", mindate: "yesterday" }],
+  ])("rejects an invalid %s value", async (param, query) => {
+    const res = await get(query);
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({ error: expect.objectContaining({ code: "invalid_parameter", param }) });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("rejects a parameter given more than once", async () => {
+    const res = await get({ endpoint: "collection", username: ["alice", "bob"] });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({ error: expect.objectContaining({ code: "invalid_parameter", param: "username" }) });
+  });
+
+  it("rejects a read without its required parameter", async () => {
+    const res = await get({ endpoint: "plays", page: "1" });
+
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({ error: expect.objectContaining({ code: "missing_parameter" }) });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
+
+describe("BGG proxy caching", () => {
+  const fetchMock = vi.fn();
+
+  function answer(body: string) {
+    fetchMock.mockResolvedValueOnce({ status: 200, text: async () => body, headers: new Headers() });
+  }
+
+  async function logPlay() {
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ playid: 42, numplays: 3 }) });
+    const res = createResponse();
+    await handler(
+      {
+        method: "POST",
+        query: { action: "logplay" },
+        headers: {
+          host: "cardboardmaid.app",
+          "x-requested-with": "CardboardMaid",
+          "x-csrf-token": "token",
+          cookie: "bgg_session=SessionID%3Dabc; bgg_csrf=token; bgg_user=Carol",
+        },
+        body: { gameId: 13, date: "2024-05-01", players: [{ name: "Carol" }] },
+      },
+      res
+    );
+    return res;
+  }
+
+  beforeEach(() => {
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+  });
+
+  it("lets the CDN cache game details", async () => {
+    answer("<items/>");
+    const res = await get({ endpoint: "thing", id: "174430" });
+
+    expect(res.headers["Cache-Control"]).toBe(`public, s-maxage=${24 * 60 * 60}`);
+  });
+
+  it("keeps collections and plays out of shared caches", async () => {
+    answer("<items/>");
+    answer("<plays/>");
+
+    expect((await get({ endpoint: "collection", username: "dave" })).headers["Cache-Control"]).toBe("private, no-store");
+    expect((await get({ endpoint: "plays", username: "dave" })).headers["Cache-Control"]).toBe("private, no-store");
+  });
+
+  it("reads fresh plays after a play is logged", async () => {
+    answer('<plays total="2"/>');
+    expect((await get({ endpoint: "plays", username: "carol" })).body).toBe('<plays total="2"/>');
+
+    // Served from the proxy's cache until a play is logged
+    const cached = await get({ endpoint: "plays", username: "carol" });
+    expect(cached.headers["X-Cache"]).toBe("HIT");
+    expect(cached.headers["Cache-Control"]).toBe("private, no-store");
+
+    expect((await logPlay()).statusCode).toBe(200);
+
+    answer('<plays total="3"/>');
+    const fresh = await get({ endpoint: "plays", username: "carol" });
+    expect(fresh.headers["X-Cache"]).toBe("MISS");
+    expect(fresh.body).toBe('<plays total="3"/>');
+  });
+});
+
+describe("BGG proxy writes", () => {
+  it("ignores cookies it can't decode", async () => {
+    const res = createResponse();
+    await handler(
+      {
+        method: "POST",
+        query: { action: "logout" },
+        headers: {
+          host: "cardboardmaid.app",
+          "x-requested-with": "CardboardMaid",
+          "x-csrf-token": "token",
+          cookie: "tracker=100%; bgg_csrf=token",
+        },
+      },
+      res
+    );
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toEqual({ success: true });
+  });
+});
@@ -0,0 +1,15 @@
+import { readFileSync } from "node:fs";
+
+/**
+ * Read a recorded BGG response from tests/fixtures/bgg
+ */
+export function readFixture(name: string): string {
+  return readFileSync(new URL(`../fixtures/bgg/${name}`, import.meta.url), "utf8");
+}
+
+/**
+ * A response as fetch would return it
+ */
+export function xmlResponse(status: number, body: string): Response {
+  return new Response(body, { status, headers: { "Content-Type": "text/xml; charset=utf-8" } });
+}
@@ -0,0 +1,31 @@
+import type { Game } from "@/types/game";
+
+/**
+ * A minimal Game, with the fields a test cares about overridden
+ */
+export function makeGame(overrides: Partial<Game> & { id: string }): Game {
+  return {
+    collectionId: `c${overrides.id}`,
+    name: `Game ${overrides.id}`,
+    yearPublished: 2000,
+    image: "",
+    thumbnail: "",
+    players: { min: 2, max: 4 },
+    playtime: { min: 30, max: 60 },
+    numOwned: 0,
+    rating: { average: 0, bayesAverage: 0, usersRated: 0, rank: null, strategyRank: null },
+    status: {
+      owned: true,
+      previouslyOwned: false,
+      forTrade: false,
+      want: false,
+      wantToPlay: false,
+      wantToBuy: false,
+      wishlist: false,
+      preordered: false,
+      lastModified: "",
+    },
+    numPlays: 0,
+    ...overrides,
+  };
+}
@@ -0,0 +1,15 @@
+import type { PlayInfo } from "@/services/bgg-api";
+
+/**
+ * A single logged play, with the fields a test cares about overridden
+ */
+export function makePlay(overrides: Partial<PlayInfo> & { id: string }): PlayInfo {
+  return {
+    gameId: "13",
+    gameName: "CATAN",
+    date: new Date(2024, 0, 1),
+    quantity: 1,
+    players: [],
+    ...overrides,
+  };
+}
@@ -0,0 +1,187 @@
+import { describe, expect, it } from "vitest";
+import {
+  getAverageRatingDifference,
+  getPlayedCounts,
+  getPlayerCountCoverage,
+  getPlaytimeBands,
+  getRatingComparisons,
+  getTopCategories,
+  getTopMechanics,
+  getWeightDistribution,
+  getYearHistogram,
+} from "@/lib/collection-stats";
+import { getFilteredCollectionUrl, readCollectionView } from "@/lib/collection-url";
+import { filterGames } from "@/lib/game-filters";
+import { makeGame } from "../helpers/games";
+
+const games = [
+  makeGame({
+    id: "13",
+    name: "CATAN",
+    yearPublished: 1995,
+    weight: 2.3,
+    players: { min: 3, max: 4 },
+    playtime: { min: 60, max: 120 },
+    categories: ["Negotiation", "Economic"],
+    mechanics: ["Dice Rolling", "Trading"],
+    numPlays: 12,
+    userRating: 7,
+    rating: { average: 7.1, bayesAverage: 6.9, usersRated: 125372, rank: 537, strategyRank: 398 },
+  }),
+  makeGame({
+    id: "822",
+    name: "Carcassonne",
+    yearPublished: 2000,
+    weight: 1.9,
+    players: { min: 2, max: 5 },
+    playtime: { min: 30, max: 45 },
+    categories: ["Medieval"],
+    mechanics: ["Tile Placement", "Area Majority / Influence"],
+    numPlays: 0,
+  }),
+  makeGame({
+    id: "30549",
+    name: "Pandemic",
+    yearPublished: 2008,
+    weight: 2.4,
+    players: { min: 2, max: 4 },
+    playtime: { min: 45, max: 45 },
+    categories: ["Medical"],
+    mechanics: ["Cooperative Game", "Hand Management"],
+    numPlays: 3,
+    userRating: 8.5,
+    rating: { average: 7.6, bayesAverage: 7.5, usersRated: 131948, rank: 137, strategyRank: null },
+  }),
+  makeGame({
+    id: "1406",
+    name: "Monopoly",
+    yearPublished: 1933,
+    weight: 1.6,
+    players: { min: 2, max: 8 },
+    playtime: { min: 60, max: 180 },
+    categories: ["Economic", "Negotiation"],
+    mechanics: ["Dice Rolling", "Trading", "Auction/Bidding"],
+    numPlays: 0,
+    userRating: 3,
+    rating: { average: 4.4, bayesAverage: 4.3, usersRated: 37000, rank: 21000, strategyRank: null },
+  }),
+];
+
+describe("getWeightDistribution", () => {
+  it("counts games per complexity band", () => {
+    expect(getWeightDistribution(games).map((slice) => [slice.label, slice.count])).toEqual([
+      ["Light (1-2)", 2],
+      ["Medium light (2-3)", 2],
+      ["Medium heavy (3-4)", 0],
+      ["Heavy (4-5)", 0],
+    ]);
+  });
+
+  it("counts a game on a band's edge once, in the heavier band", () => {
+    const edges = [1, 1.9999, 2, 3, 4, 5].map((weight) => makeGame({ id: String(weight), weight }));
+    const slices = getWeightDistribution(edges);
+
+    expect(slices.map((slice) => slice.count)).toEqual([2, 1, 1, 2]);
+    slices.forEach((slice) => {
+      const url = new URL(getFilteredCollectionUrl("cardboardmaid", slice.filters), "http://localhost");
+      expect(filterGames(edges, readCollectionView(url.searchParams, 0).filters)).toHaveLength(slice.count);
+    });
+  });
+});
+
+describe("getYearHistogram", () => {
+  it("groups old games and counts the rest per decade", () => {
+    expect(getYearHistogram(games, 2024).map((slice) => [slice.label, slice.count])).toEqual([
+      ["Before 1970", 1],
+      ["1970s", 0],
+      ["1980s", 0],
+      ["1990s", 1],
+      ["2000s", 2],
+      ["2010s", 0],
+      ["2020s", 0],
+    ]);
+  });
+
+  it("starts at the first decade with a game", () => {
+    expect(getYearHistogram(games.slice(0, 3), 2009).map((slice) => slice.label)).toEqual(["1990s", "2000s"]);
+  });
+
+  it("is empty without publication years", () => {
+    expect(getYearHistogram([makeGame({ id: "1", yearPublished: 0 })])).toEqual([]);
+  });
+});
+
+describe("getTopCategories and getTopMechanics", () => {
+  it("list the most common values first", () => {
+    expect(getTopCategories(games, 2)).toEqual([
+      { label: "Economic", count: 2, filters: { categories: ["Economic"] } },
+      { label: "Negotiation", count: 2, filters: { categories: ["Negotiation"] } },
+    ]);
+    expect(getTopMechanics(games, 1)).toEqual([
+      { label: "Dice Rolling", count: 2, filters: { includeMechanics: ["Dice Rolling"] } },
+    ]);
+  });
+});
+
+describe("getPlayerCountCoverage", () => {
+  it("counts the games supporting each player count", () => {
+    expect(getPlayerCountCoverage(games).map((slice) => slice.count)).toEqual([0, 3, 4, 4, 2, 1, 1, 1]);
+  });
+});
+
+describe("getPlaytimeBands", () => {
+  it("counts a game in every band its playtime overlaps", () => {
+    expect(getPlaytimeBands(games).map((slice) => [slice.label, slice.count])).toEqual([
+      ["Up to 30 min", 1],
+      ["31-60 min", 4],
+      ["1-2 hours", 2],
+      ["2-3 hours", 1],
+      ["Over 3 hours", 0],
+    ]);
+  });
+});
+
+describe("getPlayedCounts", () => {
+  it("splits played and never played games", () => {
+    expect(getPlayedCounts(games).map((slice) => [slice.label, slice.count])).toEqual([
+      ["Played", 2],
+      ["Never played", 2],
+    ]);
+  });
+});
+
+describe("rating comparisons", () => {
+  it("compare the user's ratings with the BGG average", () => {
+    const comparisons = getRatingComparisons(games);
+
+    expect(comparisons.map((comparison) => comparison.name)).toEqual(["CATAN", "Pandemic", "Monopoly"]);
+    expect(getAverageRatingDifference(comparisons)).toBeCloseTo((-0.1 + 0.9 - 1.4) / 3);
+  });
+
+  it("have no average without ratings", () => {
+    expect(getAverageRatingDifference([])).toBeNull();
+  });
+});
+
+describe("opening a slice", () => {
+  it("shows the games the bar counted", () => {
+    const slices = [
+      ...getWeightDistribution(games),
+      ...getYearHistogram(games, 2024),
+      ...getTopCategories(games),
+      ...getTopMechanics(games),
+      ...getPlayerCountCoverage(games),
+      ...getPlaytimeBands(games),
+      ...getPlayedCounts(games),
+    ];
+
+    slices.forEach((slice) => {
+      const url = new URL(getFilteredCollectionUrl("cardboardmaid", slice.filters), "http://localhost");
+      const view = readCollectionView(url.searchParams, 0);
+
+      expect(url.pathname).toBe("/collection/cardboardmaid");
+      expect(view.collectionStatus).toBe("owned");
+      expect(filterGames(games, view.filters)).toHaveLength(slice.count);
+    });
+  });
+});
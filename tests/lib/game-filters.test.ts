@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FILTERS, filterGames } from "@/lib/game-filters";
+import type { FilterState } from "@/types/game";
+import { makeGame } from "../helpers/games";
+
+const ids = (filters: Partial<FilterState>, games = weighted) =>
+  filterGames(games, { ...DEFAULT_FILTERS, ...filters }).map((game) => game.id);
+
+const weighted = [
+  makeGame({ id: "light", weight: 1.5 }),
+  makeGame({ id: "edge", weight: 3 }),
+  makeGame({ id: "heavy", weight: 3.0001 }),
+  makeGame({ id: "unrated" }),
+];
+
+describe("filterGames", () => {
+  it("keeps every game without active filters", () => {
+    expect(ids({})).toEqual(["light", "edge", "heavy", "unrated"]);
+  });
+
+  it("includes both ends of the weight range", () => {
+    expect(ids({ maxWeight: 3 })).toEqual(["light", "edge"]);
+    expect(ids({ minWeight: 3 })).toEqual(["edge", "heavy"]);
+    expect(ids({ minWeight: 3, maxWeight: 3 })).toEqual(["edge"]);
+  });
+
+  it("leaves out games without a weight once a weight range is set", () => {
+    expect(ids({ minWeight: 1 })).not.toContain("unrated");
+    expect(ids({ maxWeight: 5 })).not.toContain("unrated");
+  });
+
+  it("includes both ends of the year range and skips unknown years for a maximum", () => {
+    const games = [
+      makeGame({ id: "1995", yearPublished: 1995 }),
+      makeGame({ id: "2000", yearPublished: 2000 }),
+      makeGame({ id: "unknown", yearPublished: 0 }),
+    ];
+
+    expect(ids({ minYear: 1995, maxYear: 2000 }, games)).toEqual(["1995", "2000"]);
+    expect(ids({ maxYear: 1999 }, games)).toEqual(["1995"]);
+  });
+
+  it("splits played and unplayed games", () => {
+    const games = [makeGame({ id: "played", numPlays: 2 }), makeGame({ id: "unplayed", numPlays: 0 })];
+
+    expect(ids({ played: "played" }, games)).toEqual(["played"]);
+    expect(ids({ played: "unplayed" }, games)).toEqual(["unplayed"]);
+  });
+});
@@ -0,0 +1,159 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getGamesInfo, type GameInfo, type GamesInfoOptions } from "@/services/bgg-api";
+import { loadGameInfo } from "@/lib/game-info-loader";
+
+vi.mock("@/services/bgg-api", () => ({ getGamesInfo: vi.fn() }));
+
+const getGamesInfoMock = vi.mocked(getGamesInfo);
+
+function gameInfo(id: string): GameInfo {
+  return { objectid: id } as GameInfo;
+}
+
+/**
+ * Answer the next getGamesInfo call with these games, like getGamesInfo does batch by batch
+ */
+function answerGamesInfo(games: GameInfo[]) {
+  getGamesInfoMock.mockImplementationOnce(async (_ids, options) => {
+    options.onBatch?.(games);
+    return { success: true, data: games };
+  });
+}
+
+/**
+ * Answer the next getGamesInfo call once `release` is called, or reject when its signal aborts
+ */
+function deferGamesInfo() {
+  let release: () => void;
+  let options: GamesInfoOptions;
+  getGamesInfoMock.mockImplementationOnce((ids, callOptions) => {
+    options = callOptions;
+    return new Promise((resolve, reject) => {
+      callOptions.signal.addEventListener("abort", () => reject(callOptions.signal.reason));
+      release = () => {
+        const games = ids.map(gameInfo);
+        callOptions.onBatch?.(games);
+        resolve({ success: true, data: games });
+      };
+    });
+  });
+  return {
+    release: () => release(),
+    get signal() {
+      return options.signal;
+    },
+  };
+}
+
+// Let the scheduled flush run
+const nextTick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("loadGameInfo", () => {
+  afterEach(() => {
+    getGamesInfoMock.mockReset();
+  });
+
+  it("batches games requested in the same tick", async () => {
+    const call = deferGamesInfo();
+
+    const games = Promise.all([loadGameInfo("13"), loadGameInfo("822"), loadGameInfo("13")]);
+    await nextTick();
+    call.release();
+
+    expect(await games).toEqual([gameInfo("13"), gameInfo("822"), gameInfo("13")]);
+    expect(getGamesInfoMock).toHaveBeenCalledTimes(1);
+    expect(getGamesInfoMock).toHaveBeenCalledWith(["13", "822"], expect.anything());
+  });
+
+  it("resolves games BGG doesn't return as null", async () => {
+    answerGamesInfo([]);
+
+    expect(await loadGameInfo("999999")).toBeNull();
+  });
+
+  it("rejects every waiter when the request fails", async () => {
+    getGamesInfoMock.mockResolvedValueOnce({
+      success: false,
+      error: { kind: "Upstream5xx", message: "BGG API returned status 500", status: 500 },
+    });
+
+    await expect(loadGameInfo("13")).rejects.toMatchObject({
+      kind: "Upstream5xx",
+      message: "BGG API returned status 500",
+    });
+  });
+
+  it("rejects only the games in a failed batch", async () => {
+    getGamesInfoMock.mockImplementationOnce(async (ids, options) => {
+      const [first, second, third] = ids;
+      options.onBatch?.([gameInfo(first)]);
+      options.onBatchError?.([second], { kind: "ParseError", message: "Unexpected end of input" });
+      options.onBatch?.([gameInfo(third)]);
+      return { success: true, data: [gameInfo(first), gameInfo(third)] };
+    });
+
+    const [first, second, third] = [loadGameInfo("13"), loadGameInfo("822"), loadGameInfo("30549")];
+
+    expect(await first).toEqual(gameInfo("13"));
+    await expect(second).rejects.toMatchObject({ name: "BggApiError", kind: "ParseError" });
+    expect(await third).toEqual(gameInfo("30549"));
+  });
+
+  it("rejects every waiter when getGamesInfo throws, and keeps loading afterwards", async () => {
+    getGamesInfoMock.mockRejectedValueOnce(new TypeError("Failed to fetch"));
+
+    const requests = [loadGameInfo("13"), loadGameInfo("822")];
+    for (const request of requests) {
+      await expect(request).rejects.toMatchObject({ name: "BggApiError", kind: "Network", message: "Failed to fetch" });
+    }
+
+    answerGamesInfo([gameInfo("13")]);
+    expect(await loadGameInfo("13")).toEqual(gameInfo("13"));
+  });
+
+  it("rejects straight away when the signal is already aborted", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(loadGameInfo("13", controller.signal)).rejects.toThrow("This operation was aborted");
+    await nextTick();
+    expect(getGamesInfoMock).not.toHaveBeenCalled();
+  });
+
+  it("keeps fetching while another caller still waits", async () => {
+    const call = deferGamesInfo();
+    const controller = new AbortController();
+
+    const cancelled = loadGameInfo("13", controller.signal);
+    const kept = loadGameInfo("822");
+    await nextTick();
+    controller.abort();
+
+    await expect(cancelled).rejects.toThrow("This operation was aborted");
+    expect(call.signal.aborted).toBe(false);
+
+    call.release();
+    expect(await kept).toEqual(gameInfo("822"));
+  });
+
+  it("stops the BGG request once every caller has cancelled", async () => {
+    const call = deferGamesInfo();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const requests = [loadGameInfo("13", first.signal), loadGameInfo("822", second.signal)];
+    await nextTick();
+    first.abort();
+    expect(call.signal.aborted).toBe(false);
+    second.abort();
+
+    expect(call.signal.aborted).toBe(true);
+    for (const request of requests) {
+      await expect(request).rejects.toThrow("This operation was aborted");
+    }
+
+    // The next request starts a fresh run
+    answerGamesInfo([gameInfo("13")]);
+    expect(await loadGameInfo("13")).toEqual(gameInfo("13"));
+  });
+});
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  collectionGameToGame,
+  mapCollectionToGames,
+  mergeExpansions,
+  mergeGamesInfo,
+  mergePlays,
+} from "@/lib/game-mapper";
+import { parseCollectionResponse, parsePlaysResponse, parseThingResponse } from "@/services/bgg-schemas";
+import { readFixture } from "../helpers/fixtures";
+
+const collection = parseCollectionResponse(readFixture("collection.xml"));
+const gameInfos = [
+  ...parseThingResponse(readFixture("thing.xml")),
+  ...parseThingResponse(readFixture("thing-batch.xml")),
+];
+const plays = [
+  ...parsePlaysResponse(readFixture("plays-page-1.xml")).plays,
+  ...parsePlaysResponse(readFixture("plays-page-2.xml")).plays,
+];
+
+describe("collectionGameToGame", () => {
+  it("maps a rated, owned game", () => {
+    expect(collectionGameToGame(collection[0])).toEqual({
+      id: "13",
+      collectionId: "31415926",
+      name: "CATAN",
+      yearPublished: 1995,
+      image: expect.stringContaining("pic2419375.jpg"),
+      thumbnail: expect.stringContaining("pic2419375.jpg"),
+      players: { min: 3, max: 4 },
+      playtime: { min: 60, max: 120 },
+      numOwned: 236012,
+      rating: {
+        average: 7.09612,
+        bayesAverage: 6.92504,
+        usersRated: 125372,
+        rank: 537,
+        strategyRank: 398,
+      },
+      status: {
+        owned: true,
+        previouslyOwned: false,
+        forTrade: false,
+        want: false,
+        wantToPlay: false,
+        wantToBuy: false,
+        wishlist: false,
+        preordered: false,
+        lastModified: "2023-02-11 07:33:10",
+      },
+      numPlays: 12,
+      wishlistPriority: undefined,
+      userRating: 7,
+    });
+  });
+
+  it("leaves unrated and unranked values empty", () => {
+    const carcassonne = collectionGameToGame(collection[1]);
+    const sevenWonders = collectionGameToGame(collection[4]);
+
+    expect(carcassonne.userRating).toBeUndefined();
+    expect(carcassonne.rating.strategyRank).toBeNull();
+    expect(sevenWonders.rating.strategyRank).toBeNull(); // "Not Ranked"
+  });
+
+  it("maps every collection status", () => {
+    const [, carcassonne, pandemic, gloomhaven, sevenWonders] = mapCollectionToGames(collection);
+
+    expect(carcassonne.status.wantToPlay).toBe(true);
+    expect(pandemic.status.forTrade).toBe(true);
+    expect(gloomhaven.status).toMatchObject({ owned: false, wishlist: true });
+    expect(gloomhaven.wishlistPriority).toBe(2);
+    expect(sevenWonders.status).toMatchObject({ owned: false, previouslyOwned: true });
+  });
+});
+
+describe("mergeGamesInfo", () => {
+  it("adds details from the thing endpoint", () => {
+    const [catan] = mergeGamesInfo(mapCollectionToGames(collection), gameInfos);
+
+    expect(catan).toMatchObject({
+      weight: 2.2871,
+      categories: ["Economic", "Negotiation"],
+      mechanics: ["Dice Rolling", "Network and Route Building", "Trading"],
+      designers: ["Klaus Teuber"],
+      expansionIds: ["325", "926"],
+    });
+    expect(catan.description).toContain("dominant force on the island");
+    expect(catan.suggestedPlayers).toHaveLength(5);
+    expect(catan.suggestedPlayers?.[3]).toEqual({
+      numPlayers: "4",
+      best: 1862,
+      recommended: 381,
+      notRecommended: 25,
+    });
+  });
+
+  it("keeps games without details as they are", () => {
+    const games = mapCollectionToGames(collection);
+    const merged = mergeGamesInfo(games, gameInfos.filter((info) => info.objectid !== "822"));
+
+    expect(merged[1]).toBe(games[1]);
+  });
+
+  it("doesn't count a link back to the base game as an expansion", () => {
+    const expansions = mapCollectionToGames(parseCollectionResponse(readFixture("collection-expansions.xml")));
+    const [expansion] = mergeGamesInfo(expansions, gameInfos);
+
+    expect(expansion.expansionIds).toEqual([]);
+  });
+});
+
+describe("mergeExpansions", () => {
+  it("attaches owned expansions to their base game", () => {
+    const games = mergeGamesInfo(mapCollectionToGames(collection), gameInfos);
+    const expansions = mapCollectionToGames(parseCollectionResponse(readFixture("collection-expansions.xml")));
+
+    const [catan, carcassonne] = mergeExpansions(games, expansions);
+
+    expect(catan.expansions?.map((expansion) => expansion.name)).toEqual(["CATAN: Seafarers"]);
+    expect(carcassonne.expansions).toBeUndefined();
+  });
+});
+
+describe("mergePlays", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("sets each game's most recent play", () => {
+    const games = mergePlays(mapCollectionToGames(collection), plays);
+
+    expect(games.map((game) => game.lastPlayed)).toEqual([
+      new Date("2024-04-27"),
+      undefined,
+      new Date("2024-04-20"),
+      undefined,
+      new Date("2024-02-14"),
+    ]);
+  });
+
+  it("doesn't depend on the order of the plays", () => {
+    const games = mergePlays(mapCollectionToGames(collection), [...plays].reverse());
+
+    expect(games[0].lastPlayed).toEqual(new Date("2024-04-27"));
+  });
+});
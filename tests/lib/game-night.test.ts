@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { findOwners, parseUsernames } from "@/lib/game-night";
+import { parseCollectionResponse } from "@/services/bgg-schemas";
+import { readFixture } from "../helpers/fixtures";
+
+describe("findOwners", () => {
+  const collection = parseCollectionResponse(readFixture("collection.xml"));
+
+  it("lists the users with an owned copy", () => {
+    const collections = [
+      { username: "cardboardmaid", items: collection },
+      { username: "friend", items: collection.filter((item) => item.objectid !== "13") },
+    ];
+
+    expect(findOwners(collections, "13")).toEqual(["cardboardmaid"]);
+  });
+
+  it("ignores wishlisted and previously owned games", () => {
+    const collections = [{ username: "cardboardmaid", items: collection }];
+
+    // 174430 is on the wishlist, 68448 was previously owned
+    expect(findOwners(collections, "174430")).toEqual([]);
+    expect(findOwners(collections, "68448")).toEqual([]);
+  });
+});
+
+describe("parseUsernames", () => {
+  it("drops blanks and case-insensitive duplicates", () => {
+    expect(parseUsernames(" alice, ,Bob,ALICE,carol ")).toEqual(["alice", "Bob", "carol"]);
+    expect(parseUsernames(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { createRandomSortKeys, sortGames } from "@/lib/game-sort";
+import { makeGame } from "../helpers/games";
+
+const catan = makeGame({
+  id: "13",
+  name: "CATAN",
+  yearPublished: 1995,
+  weight: 2.3,
+  numPlays: 12,
+  userRating: 7,
+  rating: { average: 7.1, bayesAverage: 6.9, usersRated: 125372, rank: 537, strategyRank: 398 },
+  lastPlayed: new Date("2024-04-27"),
+});
+const carcassonne = makeGame({
+  id: "822",
+  name: "Carcassonne",
+  yearPublished: 2000,
+  weight: 1.9,
+  numPlays: 0,
+  rating: { average: 7.4, bayesAverage: 7.3, usersRated: 118560, rank: 216, strategyRank: null },
+});
+const pandemic = makeGame({
+  id: "30549",
+  name: "Pandemic",
+  yearPublished: 2008,
+  weight: 2.4,
+  numPlays: 3,
+  userRating: 8.5,
+  rating: { average: 7.6, bayesAverage: 7.5, usersRated: 131948, rank: 137, strategyRank: null },
+  lastPlayed: new Date("2024-04-20"),
+});
+const sevenWonders = makeGame({
+  id: "68448",
+  name: "7 Wonders",
+  yearPublished: 2010,
+  numPlays: 3,
+  userRating: 6,
+  rating: { average: 7.7, bayesAverage: 7.6, usersRated: 99201, rank: 106, strategyRank: null },
+  lastPlayed: new Date("2024-02-14"),
+});
+
+const games = [catan, carcassonne, pandemic, sevenWonders];
+const names = (sorted: typeof games) => sorted.map((game) => game.name);
+
+describe("sortGames", () => {
+  it.each([
+    ["rating", "desc", ["7 Wonders", "Pandemic", "Carcassonne", "CATAN"]],
+    ["rating", "asc", ["CATAN", "Carcassonne", "Pandemic", "7 Wonders"]],
+    ["user-rating", "desc", ["Pandemic", "CATAN", "7 Wonders", "Carcassonne"]],
+    ["name", "asc", ["7 Wonders", "Carcassonne", "CATAN", "Pandemic"]],
+    ["year", "desc", ["7 Wonders", "Pandemic", "Carcassonne", "CATAN"]],
+    ["complexity", "asc", ["7 Wonders", "Carcassonne", "CATAN", "Pandemic"]],
+    ["complexity", "desc", ["Pandemic", "CATAN", "Carcassonne", "7 Wonders"]],
+  ] as const)("sorts by %s (%s)", (sortBy, direction, expected) => {
+    expect(names(sortGames(games, sortBy, direction))).toEqual(expected);
+  });
+
+  it("breaks ties in play count by the most recent play", () => {
+    expect(names(sortGames(games, "plays", "desc"))).toEqual(["CATAN", "Pandemic", "7 Wonders", "Carcassonne"]);
+    expect(names(sortGames(games, "plays", "asc"))).toEqual(["Carcassonne", "7 Wonders", "Pandemic", "CATAN"]);
+  });
+
+  it("puts never played games last when sorting by recent plays", () => {
+    expect(names(sortGames(games, "last-played", "desc"))).toEqual(["CATAN", "Pandemic", "7 Wonders", "Carcassonne"]);
+    expect(names(sortGames(games, "last-played", "asc"))).toEqual(["Carcassonne", "7 Wonders", "Pandemic", "CATAN"]);
+  });
+
+  it("puts games without a wishlist priority last in either direction", () => {
+    const wishlist = [
+      makeGame({ id: "1", name: "Unlisted" }),
+      makeGame({ id: "2", name: "Love to have", wishlistPriority: 2 }),
+      makeGame({ id: "3", name: "Must have", wishlistPriority: 1 }),
+    ];
+
+    expect(names(sortGames(wishlist, "wishlist-priority", "asc"))).toEqual(["Must have", "Love to have", "Unlisted"]);
+    expect(names(sortGames(wishlist, "wishlist-priority", "desc"))).toEqual(["Love to have", "Must have", "Unlisted"]);
+  });
+
+  it("doesn't modify the input", () => {
+    const input = [...games];
+    sortGames(input, "name", "asc");
+
+    expect(input).toEqual(games);
+  });
+});
+
+describe("random sort", () => {
+  it("gives the same order for the same seed", () => {
+    const first = sortGames(games, "random", "desc", createRandomSortKeys(games, 42));
+    const second = sortGames([...games].reverse(), "random", "desc", createRandomSortKeys(games, 42));
+
+    expect(names(second)).toEqual(names(first));
+  });
+
+  it("shuffles differently for different seeds", () => {
+    const many = Array.from({ length: 20 }, (_, i) => makeGame({ id: String(i + 1) }));
+    const orders = new Set(
+      [1, 2, 3].map((seed) => names(sortGames(many, "random", "desc", createRandomSortKeys(many, seed))).join())
+    );
+
+    expect(orders.size).toBe(3);
+  });
+
+  it("orders copies of the same game by collection id", () => {
+    const copies = [
+      makeGame({ id: "13", collectionId: "2", name: "Second copy" }),
+      makeGame({ id: "13", collectionId: "1", name: "First copy" }),
+    ];
+
+    expect(names(sortGames(copies, "random", "desc", createRandomSortKeys(copies, 7)))).toEqual([
+      "First copy",
+      "Second copy",
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  countPlays,
+  getHIndex,
+  getMilestones,
+  getPlayCountsByGame,
+  getPlaysPerMonth,
+  sortPlaysByDate,
+} from "@/lib/play-stats";
+import { makePlay } from "../helpers/plays";
+
+const plays = [
+  makePlay({ id: "1", gameId: "13", gameName: "CATAN", date: new Date(2024, 5, 30, 23), quantity: 2 }),
+  makePlay({ id: "2", gameId: "822", gameName: "Carcassonne", date: new Date(2024, 4, 1) }),
+  makePlay({ id: "3", gameId: "13", gameName: "CATAN", date: new Date(2024, 2, 31) }),
+  makePlay({ id: "4", gameId: "30549", gameName: undefined, date: new Date(2023, 11, 24), quantity: 3 }),
+];
+
+describe("countPlays", () => {
+  it("counts each play's quantity", () => {
+    expect(countPlays(plays)).toBe(7);
+  });
+
+  it("is zero without plays", () => {
+    expect(countPlays([])).toBe(0);
+  });
+});
+
+describe("sortPlaysByDate", () => {
+  it("puts the most recent play first without changing the input", () => {
+    expect(sortPlaysByDate([plays[2], plays[0], plays[3]]).map((play) => play.id)).toEqual(["1", "3", "4"]);
+    expect(plays.map((play) => play.id)).toEqual(["1", "2", "3", "4"]);
+  });
+});
+
+describe("getPlayCountsByGame", () => {
+  it("adds up plays per game, most played first", () => {
+    expect(getPlayCountsByGame(plays)).toEqual([
+      { gameId: "13", gameName: "CATAN", plays: 3, lastPlayed: new Date(2024, 5, 30, 23) },
+      { gameId: "30549", gameName: "Game 30549", plays: 3, lastPlayed: new Date(2023, 11, 24) },
+      { gameId: "822", gameName: "Carcassonne", plays: 1, lastPlayed: new Date(2024, 4, 1) },
+    ]);
+  });
+
+  it("only counts plays on or after the start date", () => {
+    expect(getPlayCountsByGame(plays, new Date(2024, 4, 1)).map((game) => [game.gameId, game.plays])).toEqual([
+      ["13", 2],
+      ["822", 1],
+    ]);
+  });
+});
+
+describe("getPlaysPerMonth", () => {
+  it("buckets plays by calendar month, oldest first", () => {
+    const months = getPlaysPerMonth(plays, 4, new Date(2024, 5, 15));
+
+    expect(months.map((month) => [month.month, month.plays])).toEqual([
+      ["2024-03", 1],
+      ["2024-04", 0],
+      ["2024-05", 1],
+      ["2024-06", 2],
+    ]);
+  });
+
+  it("crosses year boundaries and leaves out older plays", () => {
+    const months = getPlaysPerMonth(plays, 2, new Date(2024, 0, 10));
+
+    expect(months.map((month) => [month.month, month.plays])).toEqual([
+      ["2023-12", 3],
+      ["2024-01", 0],
+    ]);
+  });
+
+  it("has a zero for every month without plays", () => {
+    expect(getPlaysPerMonth([], 3, new Date(2024, 5, 15)).map((month) => month.plays)).toEqual([0, 0, 0]);
+  });
+});
+
+describe("getHIndex", () => {
+  it("is the largest h with h games played h times each", () => {
+    const counts = [6, 4, 3, 1].map((count, index) => ({
+      gameId: String(index),
+      gameName: `Game ${index}`,
+      plays: count,
+      lastPlayed: new Date(2024, 0, 1),
+    }));
+
+    expect(getHIndex(counts)).toBe(3);
+  });
+
+  it("is zero without plays", () => {
+    expect(getHIndex([])).toBe(0);
+  });
+});
+
+describe("getMilestones", () => {
+  it("counts a game towards every milestone it has reached", () => {
+    const counts = getPlayCountsByGame([
+      makePlay({ id: "1", gameId: "13", quantity: 25 }),
+      makePlay({ id: "2", gameId: "822", quantity: 10 }),
+      makePlay({ id: "3", gameId: "30549", quantity: 4 }),
+    ]);
+
+    expect(getMilestones(counts).map((milestone) => [milestone.name, milestone.games.length])).toEqual([
+      ["Quarters", 1],
+      ["Dimes", 2],
+      ["Nickels", 2],
+    ]);
+  });
+
+  it("lists no games without plays", () => {
+    expect(getMilestones(getPlayCountsByGame([])).every((milestone) => milestone.games.length === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import {
+  addPlayerAlias,
+  getHeadToHead,
+  getPlayerStats,
+  removePlayerAlias,
+  resolvePlayer,
+} from "@/lib/player-stats";
+import { makePlay } from "../helpers/plays";
+
+const plays = [
+  makePlay({
+    id: "1",
+    gameId: "13",
+    gameName: "CATAN",
+    quantity: 2,
+    players: [
+      { username: "carol", name: "Carol", score: "10", win: true },
+      { username: "", name: "Dave", score: "8" },
+    ],
+  }),
+  makePlay({
+    id: "2",
+    gameId: "822",
+    gameName: "Carcassonne",
+    players: [
+      { username: "carol", name: "Carol", score: "90" },
+      { username: "", name: "Dave", score: "95", win: true, new: true },
+      { username: "", name: "" },
+    ],
+  }),
+  // A tie: both players are marked as winners
+  makePlay({
+    id: "3",
+    gameId: "30549",
+    gameName: "Pandemic",
+    players: [
+      { username: "carol", name: "Carol", win: true },
+      { username: "", name: "Dave", win: true },
+    ],
+  }),
+];
+
+describe("resolvePlayer", () => {
+  it("prefers an alias, then the name, then the username", () => {
+    expect(resolvePlayer({ username: "dave42", name: "Dave" }, { dave42: "David" })).toBe("David");
+    expect(resolvePlayer({ username: "dave42", name: "Dave" }, {})).toBe("Dave");
+    expect(resolvePlayer({ username: "dave42", name: "" }, {})).toBe("dave42");
+  });
+
+  it("skips players with neither a name nor a username", () => {
+    expect(resolvePlayer({ username: "", name: " " }, {})).toBeNull();
+  });
+});
+
+describe("getPlayerStats", () => {
+  it("computes win rates and average scores per player", () => {
+    const [carol, dave] = getPlayerStats(plays, {});
+
+    expect(carol).toMatchObject({ name: "Carol", plays: 4, wins: 3, winRate: 0.75, averageScore: 50, newPlays: 0 });
+    expect(dave).toMatchObject({ name: "Dave", plays: 4, wins: 2, winRate: 0.5, averageScore: 51.5, newPlays: 1 });
+    expect(dave.games).toEqual([
+      { gameId: "13", gameName: "CATAN", plays: 2, wins: 0 },
+      { gameId: "822", gameName: "Carcassonne", plays: 1, wins: 1 },
+      { gameId: "30549", gameName: "Pandemic", plays: 1, wins: 1 },
+    ]);
+  });
+
+  it("leaves out players without a name or username", () => {
+    expect(getPlayerStats(plays, {}).map((player) => player.name)).toEqual(["Carol", "Dave"]);
+  });
+
+  it("counts a person logged under two names once per play", () => {
+    const aliases = addPlayerAlias({}, "Dave", "Carol");
+
+    expect(getPlayerStats(plays, aliases)).toMatchObject([{ name: "Carol", plays: 4, wins: 4 }]);
+  });
+
+  it("has no average score without numeric scores", () => {
+    expect(getPlayerStats([plays[2]], {})[0].averageScore).toBeNull();
+  });
+
+  it("is empty without plays", () => {
+    expect(getPlayerStats([], {})).toEqual([]);
+  });
+});
+
+describe("getHeadToHead", () => {
+  it("counts wins and losses, and neither for a tie", () => {
+    expect(getHeadToHead(plays, "Carol", {})).toEqual([{ opponent: "Dave", plays: 4, wins: 2, losses: 1 }]);
+    expect(getHeadToHead(plays, "Dave", {})).toEqual([{ opponent: "Carol", plays: 4, wins: 1, losses: 2 }]);
+  });
+
+  it("is empty for someone who isn't on any play", () => {
+    expect(getHeadToHead(plays, "Erin", {})).toEqual([]);
+  });
+});
+
+describe("player aliases", () => {
+  it("repoints existing aliases when their person becomes an alias", () => {
+    const aliases = addPlayerAlias(addPlayerAlias({}, "dave42", "Dave"), "Dave", "David");
+
+    expect(aliases).toEqual({ dave42: "David", dave: "David" });
+    expect(removePlayerAlias(aliases, "Dave")).toEqual({ dave42: "David" });
+  });
+
+  it("ignores an alias for the person itself", () => {
+    const aliases = {};
+
+    expect(addPlayerAlias(aliases, "dave", "Dave")).toBe(aliases);
+  });
+});
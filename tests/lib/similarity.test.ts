@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { compareGames, describeSimilarity, findSimilarGames } from "@/lib/similarity";
+import { makeGame } from "../helpers/games";
+
+const dominion = makeGame({
+  id: "36218",
+  name: "Dominion",
+  weight: 2.4,
+  players: { min: 2, max: 4 },
+  playtime: { min: 30, max: 30 },
+  mechanics: ["Deck Building", "Hand Management", "Worker Placement"],
+  categories: ["Card Game", "Medieval"],
+  designers: ["Donald X. Vaccarino"],
+});
+const intrigue = makeGame({
+  id: "40834",
+  name: "Dominion: Intrigue",
+  weight: 2.4,
+  players: { min: 2, max: 4 },
+  playtime: { min: 30, max: 30 },
+  mechanics: ["Deck Building", "Hand Management"],
+  categories: ["Card Game", "Medieval"],
+  designers: ["Donald X. Vaccarino"],
+});
+const clank = makeGame({
+  id: "201808",
+  name: "Clank!",
+  weight: 2.2,
+  players: { min: 2, max: 4 },
+  playtime: { min: 30, max: 60 },
+  mechanics: ["Deck Building", "Worker Placement"],
+  categories: ["Adventure", "Fantasy"],
+  designers: ["Paul Dennen"],
+});
+const kingdomino = makeGame({
+  id: "204583",
+  name: "Kingdomino",
+  weight: 1.2,
+  players: { min: 2, max: 4 },
+  playtime: { min: 15, max: 15 },
+  mechanics: ["Tile Placement"],
+  categories: ["Medieval"],
+  designers: ["Bruno Cathala"],
+});
+const twilightImperium = makeGame({
+  id: "233078",
+  name: "Twilight Imperium: Fourth Edition",
+  weight: 4.3,
+  players: { min: 3, max: 6 },
+  playtime: { min: 240, max: 480 },
+  mechanics: ["Area Majority / Influence", "Trading"],
+  categories: ["Science Fiction", "Space Exploration"],
+  designers: ["Dane Beltrami"],
+});
+
+describe("compareGames", () => {
+  it("lists what the games have in common", () => {
+    expect(compareGames(dominion, clank)).toMatchObject({
+      game: clank,
+      sharedMechanics: ["Deck Building", "Worker Placement"],
+      sharedCategories: [],
+      sharedDesigners: [],
+      similarWeight: true,
+      similarLength: true,
+    });
+  });
+
+  it("calls a fixed playtime similar when it falls inside the other game's range", () => {
+    const quick = { ...clank, playtime: { min: 15, max: 15 } };
+
+    expect(compareGames(dominion, clank).similarLength).toBe(true);
+    expect(compareGames(clank, dominion).similarLength).toBe(true);
+    expect(compareGames(dominion, quick).similarLength).toBe(false);
+  });
+
+  it("returns null for games with nothing in common", () => {
+    expect(compareGames(dominion, twilightImperium)).toBeNull();
+  });
+
+  it("scores games that share more higher", () => {
+    expect(compareGames(dominion, intrigue).score).toBeGreaterThan(compareGames(dominion, clank).score);
+  });
+});
+
+describe("findSimilarGames", () => {
+  it("orders matches by score, leaving out the game itself and weak matches", () => {
+    const matches = findSimilarGames(dominion, [dominion, kingdomino, clank, twilightImperium, intrigue]);
+
+    expect(matches.map((match) => match.game.name)).toEqual(["Dominion: Intrigue", "Clank!"]);
+  });
+
+  it("suggests each game once", () => {
+    const secondCopy = { ...clank, collectionId: "c2" };
+
+    expect(findSimilarGames(dominion, [clank, secondCopy]).map((match) => match.game.collectionId)).toEqual([
+      clank.collectionId,
+    ]);
+  });
+
+  it("stops at the limit", () => {
+    expect(findSimilarGames(dominion, [intrigue, clank], 1)).toHaveLength(1);
+  });
+
+  it("finds nothing for a game without details", () => {
+    const bare = makeGame({ id: "1" });
+
+    expect(findSimilarGames(bare, [dominion, clank])).toEqual([]);
+  });
+});
+
+describe("describeSimilarity", () => {
+  it("names shared mechanics first, then the designer and closeness", () => {
+    expect(describeSimilarity(compareGames(dominion, intrigue))).toBe(
+      "shares Deck Building, Hand Management, Card Game and 1 more; same designer; similar weight; similar length"
+    );
+  });
+
+  it("describes shared mechanics without a designer", () => {
+    expect(describeSimilarity(compareGames(dominion, clank))).toBe(
+      "shares Deck Building, Worker Placement; similar weight; similar length"
+    );
+  });
+});
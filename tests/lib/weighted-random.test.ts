@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { pickWeightedRandomGame } from "@/lib/weighted-random";
+import { makeGame } from "../helpers/games";
+
+const DRAWS = 20000;
+
+// Small seeded generator (mulberry32), so the distribution checks are repeatable
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function drawCounts(games: ReturnType<typeof makeGame>[], getBoost?: Parameters<typeof pickWeightedRandomGame>[1]) {
+  const counts = new Map(games.map((game) => [game.id, 0]));
+  for (let i = 0; i < DRAWS; i++) {
+    const picked = pickWeightedRandomGame(games, getBoost);
+    counts.set(picked.id, counts.get(picked.id)! + 1);
+  }
+  return games.map((game) => counts.get(game.id)! / DRAWS);
+}
+
+describe("pickWeightedRandomGame", () => {
+  const games = Array.from({ length: 10 }, (_, i) => makeGame({ id: String(i + 1) }));
+
+  beforeEach(() => {
+    vi.spyOn(Math, "random").mockImplementation(seededRandom(1234));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("picks games in proportion to 0.85^position", () => {
+    const weights = games.map((_, index) => Math.pow(0.85, index));
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+    drawCounts(games).forEach((share, index) => {
+      expect(share).toBeCloseTo(weights[index] / total, 2);
+    });
+  });
+
+  it("favours earlier games but can pick any of them", () => {
+    const shares = drawCounts(games);
+
+    shares.forEach((share) => expect(share).toBeGreaterThan(0));
+    for (let i = 1; i < shares.length; i++) {
+      expect(shares[i]).toBeLessThan(shares[i - 1]);
+    }
+  });
+
+  it("multiplies weights by the boost", () => {
+    const pair = games.slice(0, 2);
+    // 1 * 1 vs 0.85 * 4: the second game should win about 77% of draws
+    const [first, second] = drawCounts(pair, (game) => (game.id === "2" ? 4 : 1));
+
+    expect(second).toBeCloseTo(3.4 / 4.4, 2);
+    expect(first).toBeCloseTo(1 / 4.4, 2);
+  });
+
+  it("returns the only game without drawing", () => {
+    expect(pickWeightedRandomGame([games[0]])).toBe(games[0]);
+    expect(Math.random).not.toHaveBeenCalled();
+  });
+
+  it("rejects an empty list", () => {
+    expect(() => pickWeightedRandomGame([])).toThrow("Cannot pick from empty game list");
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { isBggProcessing, parseXmlToJson } from "@/lib/xml-parser";
+import { parseCollectionResponse } from "@/services/bgg-schemas";
+import { collectionGameToGame } from "@/lib/game-mapper";
+
+// Runs in plain Node: there's no DOMParser here
+describe("parseXmlToJson", () => {
+  it("turns attributes and children into properties", () => {
+    const json = parseXmlToJson(`<?xml version="1.0" encoding="utf-8" standalone="yes"?>
+      <items totalitems="2">
+        <item objectid="007"><name sortindex="1">Catan</name></item>
+        <item objectid="13"><name sortindex="1">Carcassonne</name></item>
+      </items>`);
+
+    expect(json).toEqual({
+      totalitems: "2",
+      item: [
+        { objectid: "007", name: { sortindex: "1", _text: "Catan" } },
+        { objectid: "13", name: { sortindex: "1", _text: "Carcassonne" } },
+      ],
+    });
+  });
+
+  it("keeps a lone child as an object and text-only elements as strings", () => {
+    expect(parseXmlToJson("<items><item id='1'><image> https://example.com/a.png </image></item></items>")).toEqual({
+      item: { id: "1", image: "https://example.com/a.png" },
+    });
+  });
+
+  it("decodes entities once, like a DOM parser", () => {
+    const json = parseXmlToJson(
+      `<item name="Ticket to Ride: Europe &amp; More"><description>Line one&amp;#10;&lt;b&gt; &#233;&#x263A;</description></item>`
+    );
+
+    expect(json).toEqual({
+      name: "Ticket to Ride: Europe & More",
+      description: "Line one&#10;<b> é☺",
+    });
+  });
+
+  it("reads CDATA and skips comments and doctypes", () => {
+    const json = parseXmlToJson(`<!DOCTYPE items><!-- note --><items><note><![CDATA[a < b]]></note></items>`);
+
+    expect(json).toEqual({ note: "a < b" });
+  });
+
+  it("allows > inside quoted attribute values", () => {
+    expect(parseXmlToJson(`<item value="3 > 2" />`)).toEqual({ value: "3 > 2" });
+  });
+
+  it.each([
+    ["<items><item></items>", /unexpected closing tag <\/items>/],
+    ["<items>", /unclosed tag <items>/],
+    ["<a/><b/>", /more than one root element/],
+    ["", /no root element/],
+    ["<items attr='x'", /unterminated tag/],
+  ])("rejects malformed XML %j", (xml, message) => {
+    expect(() => parseXmlToJson(xml)).toThrow(message);
+  });
+});
+
+describe("isBggProcessing", () => {
+  it("detects the queued-request message", () => {
+    expect(
+      isBggProcessing(
+        "<message>\n\tYour request for this collection has been accepted and will be processed.  Please try again later for access.\n</message>"
+      )
+    ).toBe(true);
+  });
+
+  it("ignores regular and malformed responses", () => {
+    expect(isBggProcessing('<items totalitems="0"></items>')).toBe(false);
+    expect(isBggProcessing("<html><body>Will be processed<br></body></html>")).toBe(false);
+    expect(isBggProcessing("<html><body>Will be processed</body></html>")).toBe(false);
+  });
+});
+
+describe("server-side collection parsing", () => {
+  it("maps a collection response without a browser", () => {
+    const [item] = parseCollectionResponse(`<items totalitems="1">
+      <item objecttype="thing" objectid="007" subtype="boardgame" collid="42">
+        <name sortindex="1">Catan</name>
+        <yearpublished>1995</yearpublished>
+        <stats minplayers="3" maxplayers="4" minplaytime="60" maxplaytime="120" playingtime="120" numowned="1000">
+          <rating value="N/A">
+            <usersrated value="10"/><average value="7.1"/><bayesaverage value="6.9"/>
+            <stddev value="1.2"/><median value="0"/>
+            <ranks><rank type="subtype" id="1" name="boardgame" friendlyname="Board Game Rank" value="42" bayesaverage="6.9"/></ranks>
+          </rating>
+        </stats>
+        <status own="1" prevowned="0" fortrade="0" want="0" wanttoplay="0" wanttobuy="0" wishlist="0" preordered="0" lastmodified="2024-01-01 10:00:00"/>
+        <numplays>3</numplays>
+      </item>
+    </items>`);
+
+    expect(collectionGameToGame(item)).toMatchObject({
+      id: "007",
+      name: "Catan",
+      players: { min: 3, max: 4 },
+      rating: { rank: 42, strategyRank: null },
+      status: { owned: true, wishlist: false },
+      numPlays: 3,
+      userRating: undefined,
+    });
+  });
+});
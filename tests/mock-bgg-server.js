@@ -0,0 +1,172 @@
+/**
+ * Mock BoardGameGeek XMLAPI2 server
+ * Serves the recorded responses in tests/fixtures/bgg, so the app and the tests
+ * can run without a BGG token or network access.
+ *
+ * Run it with `npm run mock:bgg` and point the Vite proxy at it:
+ *   BGG_API_TARGET=http://localhost:8787 npm run dev
+ * Then log in as "cardboardmaid"; any other name is an unknown user.
+ *
+ * Like BGG, the first request for a collection is queued (202) and the next
+ * one returns it.
+ */
+
+import { readFileSync } from "node:fs";
+import { createServer } from "node:http";
+import { fileURLToPath, pathToFileURL } from "node:url";
+
+const FIXTURES_DIR = new URL("./fixtures/bgg/", import.meta.url);
+const KNOWN_USER = "cardboardmaid";
+const TERMS_OF_USE = "https://boardgamegeek.com/xmlapi/termsofuse";
+
+function fixture(name) {
+  return readFileSync(new URL(name, FIXTURES_DIR), "utf8");
+}
+
+// Every <item> of the thing fixtures, by id
+function loadThingItems() {
+  const items = new Map();
+  for (const name of ["thing.xml", "thing-batch.xml"]) {
+    for (const match of fixture(name).matchAll(/<item\b[^>]*\bid="(\d+)"[\s\S]*?<\/item>/g)) {
+      items.set(match[1], match[0]);
+    }
+  }
+  return items;
+}
+
+// Every <play> of the plays fixtures, in page order
+function loadPlays() {
+  const plays = [];
+  for (let page = 1; ; page++) {
+    let xml;
+    try {
+      xml = fixture(`plays-page-${page}.xml`);
+    } catch {
+      return plays;
+    }
+    for (const match of xml.matchAll(/<play\b[\s\S]*?<\/play>/g)) {
+      plays.push({ xml: match[0], gameId: match[0].match(/\bobjectid="(\d+)"/)[1] });
+    }
+  }
+}
+
+// Every <item> of the search fixture, with the name it matches on
+function loadSearchItems() {
+  return Array.from(fixture("search.xml").matchAll(/<item\b[\s\S]*?<\/item>/g), ([xml]) => ({
+    xml,
+    name: xml.match(/<name\b[^>]*\bvalue="([^"]*)"/)[1],
+  }));
+}
+
+function isKnownUser(name) {
+  return name?.toLowerCase() === KNOWN_USER;
+}
+
+function playsXml(username, plays, total, page) {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<plays username="${username}" userid="2514879" total="${total}" page="${page}" termsofuse="${TERMS_OF_USE}">
+${plays.map((play) => play.xml).join("\n")}
+</plays>`;
+}
+
+/**
+ * Create the mock server (not listening yet)
+ * @param {{ processingResponses?: number }} options
+ *   processingResponses: how many 202s each distinct collection request gets first (default 1)
+ */
+export function createMockBggServer({ processingResponses = 1 } = {}) {
+  const thingItems = loadThingItems();
+  const plays = loadPlays();
+  const searchItems = loadSearchItems();
+  const collectionRequests = new Map();
+
+  const routes = {
+    user: (params) => [200, fixture(isKnownUser(params.get("name")) ? "user.xml" : "user-unknown.xml")],
+
+    collection: (params, search) => {
+      if (!isKnownUser(params.get("username"))) return [200, fixture("collection-invalid-user.xml")];
+
+      const seen = collectionRequests.get(search) ?? 0;
+      collectionRequests.set(search, seen + 1);
+      if (seen < processingResponses) return [202, fixture("collection-processing.xml")];
+
+      const expansions = params.get("subtype") === "boardgameexpansion";
+      return [200, fixture(expansions ? "collection-expansions.xml" : "collection.xml")];
+    },
+
+    thing: (params) => {
+      const ids = (params.get("id") ?? "").split(",");
+      if (ids.length > 20) {
+        return [400, "<error><message>Cannot load more than 20 items</message></error>"];
+      }
+      const items = ids.map((id) => thingItems.get(id)).filter(Boolean);
+      return [200, `<?xml version="1.0" encoding="utf-8"?><items termsofuse="${TERMS_OF_USE}">\n${items.join("\n")}\n</items>`];
+    },
+
+    search: (params) => {
+      const query = (params.get("query") ?? "").toLowerCase();
+      const exact = params.get("exact") === "1";
+      const items = searchItems.filter(({ name }) =>
+        exact ? name.toLowerCase() === query : name.toLowerCase().includes(query)
+      );
+      return [
+        200,
+        `<?xml version="1.0" encoding="utf-8"?><items total="${items.length}" termsofuse="${TERMS_OF_USE}">\n${items
+          .map((item) => item.xml)
+          .join("\n")}\n</items>`,
+      ];
+    },
+
+    hot: (params) => {
+      const type = params.get("type") ?? "boardgame";
+      if (type !== "boardgame") {
+        return [200, `<?xml version="1.0" encoding="utf-8"?><items termsofuse="${TERMS_OF_USE}">\n</items>`];
+      }
+      return [200, fixture("hot.xml")];
+    },
+
+    plays: (params) => {
+      const username = params.get("username") ?? "";
+      if (!isKnownUser(username)) {
+        return [200, `<?xml version="1.0" encoding="utf-8"?><div class='messagebox error'>\n\t\tInvalid object or user\n\t</div>`];
+      }
+
+      const gameId = params.get("id");
+      if (gameId) {
+        const gamePlays = plays.filter((play) => play.gameId === gameId);
+        return [200, playsXml(username, gamePlays, gamePlays.length, 1)];
+      }
+
+      const page = Number(params.get("page") ?? 1);
+      try {
+        return [200, fixture(`plays-page-${page}.xml`)];
+      } catch {
+        return [200, playsXml(username, [], plays.length, page)];
+      }
+    },
+  };
+
+  return createServer((req, res) => {
+    const url = new URL(req.url, "http://localhost");
+    const [, prefix, endpoint] = url.pathname.split("/");
+    const route = prefix === "xmlapi2" && Object.hasOwn(routes, endpoint) ? routes[endpoint] : null;
+
+    if (req.method !== "GET" || !route) {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not found");
+      return;
+    }
+
+    const [status, body] = route(url.searchParams, url.search);
+    res.writeHead(status, { "Content-Type": "text/xml; charset=utf-8" });
+    res.end(body);
+  });
+}
+
+// Started directly: node tests/mock-bgg-server.js
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.BGG_MOCK_PORT) || 8787;
+  createMockBggServer().listen(port, () => {
+    console.log(`Mock BGG XMLAPI2 serving ${fileURLToPath(FIXTURES_DIR)} on http://localhost:${port}/xmlapi2`);
+  });
+}
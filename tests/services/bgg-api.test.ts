@@ -0,0 +1,243 @@
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  getAllUserPlays,
+  getGamePlays,
+  getGamesInfo,
+  getHotGames,
+  getUserCollection,
+  getUserExpansions,
+  searchGames,
+  validateUsername,
+} from "@/services/bgg-api";
+import { bggRequest } from "@/services/bgg-request";
+import { createMockBggServer } from "../mock-bgg-server.js";
+
+const realFetch = globalThis.fetch;
+
+/**
+ * Start a mock server and send the app's relative /xmlapi2 URLs to it
+ */
+async function serve(server: Server): Promise<void> {
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  vi.stubGlobal("fetch", (input: string, init?: RequestInit) =>
+    realFetch(new URL(input, `http://127.0.0.1:${port}`), init)
+  );
+}
+
+function close(server: Server): Promise<void> {
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+describe("BGG services against the mock XMLAPI2 server", () => {
+  const server = createMockBggServer({ processingResponses: 0 });
+
+  beforeAll(() => serve(server));
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    await close(server);
+  });
+
+  it("validates a known username", async () => {
+    expect(await validateUsername("cardboardmaid")).toEqual({
+      success: true,
+      data: expect.objectContaining({ id: "2514879", name: "cardboardmaid" }),
+    });
+  });
+
+  it("rejects an unknown username", async () => {
+    expect(await validateUsername("nobody")).toEqual({
+      success: false,
+      error: { kind: "NotFound", message: 'User "nobody" not found on BoardGameGeek' },
+    });
+  });
+
+  it("loads the collection and the owned expansions", async () => {
+    const collection = await getUserCollection("cardboardmaid");
+    const expansions = await getUserExpansions("cardboardmaid");
+
+    expect(collection.success && collection.data).toHaveLength(5);
+    expect(expansions.success && expansions.data.map((item) => item.objectid)).toEqual(["325"]);
+  });
+
+  it("reports an invalid collection username", async () => {
+    expect(await getUserCollection("nobody")).toEqual({
+      success: false,
+      error: { kind: "NotFound", message: "Invalid username specified" },
+    });
+  });
+
+  it("reports a missing username without a request", async () => {
+    expect(await getGamePlays(" ", "30549")).toEqual({
+      success: false,
+      error: { kind: "BadRequest", message: "Username cannot be empty" },
+    });
+  });
+
+  it("loads game details in batches", async () => {
+    const onBatch = vi.fn();
+    const result = await getGamesInfo(["13", "822", "30549", "174430", "68448", "325"], { onBatch });
+
+    expect(result.success && result.data.map((game) => game.objectid)).toEqual([
+      "13",
+      "822",
+      "30549",
+      "174430",
+      "68448",
+      "325",
+    ]);
+    expect(onBatch).toHaveBeenCalled();
+  });
+
+  it("keeps loading game details after a batch fails", async () => {
+    // Three batches of 20, with one known game in each
+    const fillers = (from: number) => Array.from({ length: 19 }, (_, i) => String(900000 + from + i));
+    const ids = ["13", ...fillers(0), "822", ...fillers(100), "30549"];
+    const serverFetch = globalThis.fetch;
+    let calls = 0;
+    vi.stubGlobal("fetch", (input: string, init?: RequestInit) => {
+      calls += 1;
+      // The second batch comes back cut off
+      return calls === 2 ? Promise.resolve(new Response("<items><item", { status: 200 })) : serverFetch(input, init);
+    });
+    const onBatchError = vi.fn();
+
+    const result = await getGamesInfo(ids, { onBatchError });
+    vi.stubGlobal("fetch", serverFetch);
+
+    expect(result.success && result.data.map((game) => game.objectid)).toEqual(["13", "30549"]);
+    expect(onBatchError).toHaveBeenCalledTimes(1);
+    expect(onBatchError).toHaveBeenCalledWith(ids.slice(20, 40), expect.objectContaining({ kind: "ParseError" }));
+  });
+
+  it("follows the pages of plays", async () => {
+    const result = await getAllUserPlays("cardboardmaid");
+
+    expect(result.success && result.data.map((play) => play.id)).toEqual([
+      "84512377",
+      "84490211",
+      "84201555",
+      "83877120",
+      "83540998",
+      "83102456",
+    ]);
+  });
+
+  it("searches games, listing each game once", async () => {
+    const result = await searchGames("catan");
+
+    expect(result.success && result.data).toEqual([
+      { objectid: "13", objecttype: "boardgame", name: "CATAN", isAlternateName: false, yearpublished: 1995 },
+      {
+        objectid: "325",
+        objecttype: "boardgameexpansion",
+        name: "CATAN: Seafarers",
+        isAlternateName: false,
+        yearpublished: 1997,
+      },
+    ]);
+  });
+
+  it("searches for an exact name", async () => {
+    const result = await searchGames("Pandemic", { exact: true });
+
+    expect(result.success && result.data.map((game) => game.objectid)).toEqual(["30549"]);
+  });
+
+  it("loads the hotness list, hottest first", async () => {
+    const result = await getHotGames();
+
+    expect(result.success && result.data.map((game) => game.name)).toEqual([
+      "Frosthaven",
+      "Pandemic",
+      "CATAN",
+      "SETI: Search for Extraterrestrial Intelligence",
+    ]);
+  });
+
+  it("loads the plays of one game", async () => {
+    const result = await getGamePlays("cardboardmaid", "30549");
+
+    expect(result.success && result.data.map((play) => play.date)).toEqual([
+      new Date("2024-04-20"),
+      new Date("2023-11-18"),
+    ]);
+  });
+});
+
+describe("cancelled reads", () => {
+  const server = createMockBggServer({ processingResponses: 0 });
+
+  beforeAll(() => serve(server));
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    await close(server);
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("rejects instead of returning an error result", async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(validateUsername("cardboardmaid", { signal: controller.signal })).rejects.toThrow(
+      "This operation was aborted"
+    );
+    await expect(getGamePlays("cardboardmaid", "30549", { signal: controller.signal })).rejects.toThrow(
+      "This operation was aborted"
+    );
+  });
+
+  it("stops between batches of game details", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    const controller = new AbortController();
+    const ids = Array.from({ length: 40 }, (_, i) => String(i + 1));
+
+    const request = getGamesInfo(ids, { signal: controller.signal, onBatch: () => controller.abort() });
+
+    await expect(request).rejects.toThrow("This operation was aborted");
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it("passes the signal to every page of plays", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+    const controller = new AbortController();
+
+    await getAllUserPlays("cardboardmaid", { signal: controller.signal });
+
+    expect(fetchSpy).toHaveBeenCalledTimes(2);
+    for (const [, init] of fetchSpy.mock.calls) {
+      expect(init).toEqual({ signal: controller.signal });
+    }
+  });
+});
+
+describe("queued collection requests", () => {
+  const server = createMockBggServer({ processingResponses: 2 });
+
+  beforeAll(() => serve(server));
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    await close(server);
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("retries until BGG has the collection ready", async () => {
+    const fetchSpy = vi.spyOn(globalThis, "fetch");
+
+    const response = await bggRequest(
+      "collection",
+      { username: "cardboardmaid", stats: true },
+      { initialDelay: 10 }
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('<items totalitems="5"');
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { BggApiError, errorForStatus, isBggError, toBggError } from "@/services/bgg-errors";
+import { parseCollectionResponse, parseThingResponse } from "@/services/bgg-schemas";
+import { describeBggError } from "@/lib/bgg-error-messages";
+import { readFixture } from "../helpers/fixtures";
+
+describe("errorForStatus", () => {
+  it.each([
+    [401, "Unauthorized"],
+    [403, "Unauthorized"],
+    [404, "NotFound"],
+    [429, "RateLimited"],
+    [500, "Upstream5xx"],
+    [503, "Upstream5xx"],
+    [400, "BadRequest"],
+  ])("classifies %i as %s", (status, kind) => {
+    expect(errorForStatus(status).kind).toBe(kind);
+  });
+
+  it("keeps a message from the server", () => {
+    expect(errorForStatus(401, "Log in to BoardGameGeek to log plays")).toEqual({
+      kind: "Unauthorized",
+      message: "Log in to BoardGameGeek to log plays",
+    });
+  });
+});
+
+describe("toBggError", () => {
+  it("keeps the kind of errors thrown by the request layer", () => {
+    const error = new BggApiError({ kind: "StillProcessing", message: "BGG API is still processing" });
+
+    expect(toBggError(error)).toBe(error.detail);
+  });
+
+  it("classifies malformed XML and unexpected responses as parse errors", () => {
+    const malformed = (() => {
+      try {
+        parseThingResponse("<items><item></items>");
+      } catch (error) {
+        return error;
+      }
+    })();
+    const unexpected = (() => {
+      try {
+        parseThingResponse('<items><item id="13"/></items>');
+      } catch (error) {
+        return error;
+      }
+    })();
+
+    expect(toBggError(malformed).kind).toBe("ParseError");
+    expect(toBggError(unexpected).kind).toBe("ParseError");
+  });
+
+  it("classifies failed fetches as network errors", () => {
+    expect(toBggError(new TypeError("Failed to fetch"))).toEqual({ kind: "Network", message: "Failed to fetch" });
+  });
+
+  it("classifies an unknown collection user as not found", () => {
+    expect(() => parseCollectionResponse(readFixture("collection-invalid-user.xml"))).toThrow(
+      expect.objectContaining({ kind: "NotFound" })
+    );
+  });
+});
+
+describe("isBggError", () => {
+  it("matches any of the given kinds", () => {
+    const error = new BggApiError({ kind: "Network", message: "fetch failed" });
+
+    expect(isBggError(error)).toBe(true);
+    expect(isBggError(error, "NotFound", "Network")).toBe(true);
+    expect(isBggError(error, "NotFound")).toBe(false);
+    expect(isBggError(new Error("fetch failed"), "Network")).toBe(false);
+  });
+});
+
+describe("describeBggError", () => {
+  it("offers a retry for transient failures only", () => {
+    const rateLimited = new BggApiError({ kind: "RateLimited", message: "BGG API rate limit reached" });
+    const unauthorized = new BggApiError({ kind: "Unauthorized", message: "BoardGameGeek refused the request (401)" });
+
+    expect(describeBggError(rateLimited, "")).toMatchObject({ kind: "RateLimited", canRetry: true });
+    expect(describeBggError(unauthorized, "")).toMatchObject({ kind: "Unauthorized", canRetry: false });
+  });
+
+  it("shows BGG's own message for rejected requests", () => {
+    const error = new BggApiError({ kind: "BadRequest", message: "Username cannot be empty" });
+
+    expect(describeBggError(error, "").description).toBe("Username cannot be empty");
+  });
+
+  it("names what wasn't found when told what was looked up", () => {
+    const error = new BggApiError({ kind: "NotFound", message: "BGG API returned status 404", status: 404 });
+
+    expect(describeBggError(error, "").title).toBe("Not found");
+    expect(describeBggError(error, "", "user").title).toBe("User not found");
+    expect(describeBggError(error, "", "game").title).toBe("Game not found");
+  });
+
+  it("falls back to the error message for other errors", () => {
+    expect(describeBggError(new Error("boom"), "fallback")).toMatchObject({ kind: null, description: "boom" });
+    expect(describeBggError("boom", "fallback").description).toBe("fallback");
+  });
+});
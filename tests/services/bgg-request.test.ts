@@ -0,0 +1,256 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { buildBggUrl, fetchWithRetry } from "@/services/bgg-request";
+import { readFixture, xmlResponse } from "../helpers/fixtures";
+
+const COLLECTION_URL = "/xmlapi2/collection?username=cardboardmaid&stats=1";
+
+describe("fetchWithRetry", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal("fetch", fetchMock);
+    // Longest jittered delay, so waits are predictable
+    vi.spyOn(Math, "random").mockReturnValue(1);
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("waits out 202 responses with exponential backoff", async () => {
+    fetchMock
+      .mockResolvedValueOnce(xmlResponse(202, readFixture("collection-processing.xml")))
+      .mockResolvedValueOnce(xmlResponse(202, readFixture("collection-processing.xml")))
+      .mockResolvedValueOnce(xmlResponse(200, readFixture("collection.xml")));
+
+    const request = fetchWithRetry(COLLECTION_URL, { initialDelay: 1000 });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    // The delay doubles
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    const response = await request;
+    expect(response.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledWith(COLLECTION_URL, expect.objectContaining({ signal: undefined }));
+  });
+
+  it("jitters each wait between half and all of the backoff", async () => {
+    vi.mocked(Math.random).mockReturnValue(0);
+    fetchMock
+      .mockResolvedValueOnce(xmlResponse(202, readFixture("collection-processing.xml")))
+      .mockResolvedValueOnce(xmlResponse(200, readFixture("collection.xml")));
+
+    const request = fetchWithRetry(COLLECTION_URL, { initialDelay: 1000 });
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await request;
+  });
+
+  it("caps the backoff at maxDelay", async () => {
+    const onStatus = vi.fn();
+    fetchMock.mockImplementation(async () => xmlResponse(202, readFixture("collection-processing.xml")));
+
+    const request = expect(
+      fetchWithRetry(COLLECTION_URL, { initialDelay: 1000, maxDelay: 3000, maxWaitMs: 10000, onStatus })
+    ).rejects.toThrow();
+    await vi.runAllTimersAsync();
+    await request;
+
+    expect(onStatus.mock.calls.map(([status]) => status.retryInMs)).toEqual([1000, 2000, 3000, 3000, 1000]);
+  });
+
+  it("waits at least as long as Retry-After", async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response("", { status: 202, headers: { "Retry-After": "5" } }))
+      .mockResolvedValueOnce(xmlResponse(200, readFixture("collection.xml")));
+
+    const request = fetchWithRetry(COLLECTION_URL, { initialDelay: 1000 });
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    await request;
+  });
+
+  it("reports each wait while the request is queued", async () => {
+    const onStatus = vi.fn();
+    fetchMock
+      .mockResolvedValueOnce(xmlResponse(202, readFixture("collection-processing.xml")))
+      .mockResolvedValueOnce(xmlResponse(503, "Service Unavailable"))
+      .mockResolvedValueOnce(xmlResponse(200, readFixture("collection.xml")));
+
+    const request = fetchWithRetry(COLLECTION_URL, { initialDelay: 1000, onStatus });
+    await vi.runAllTimersAsync();
+    await request;
+
+    expect(onStatus.mock.calls.map(([status]) => status)).toEqual([
+      { state: "queued", attempt: 1, retryInMs: 1000, elapsedMs: 0 },
+      { state: "retrying", attempt: 2, retryInMs: 1000, elapsedMs: 1000 },
+    ]);
+  });
+
+  it("gives up when BGG is still processing after the maximum wait", async () => {
+    fetchMock.mockImplementation(async () => xmlResponse(202, readFixture("collection-processing.xml")));
+
+    const request = expect(fetchWithRetry(COLLECTION_URL, { initialDelay: 1000, maxWaitMs: 5000 })).rejects.toMatchObject({
+      kind: "StillProcessing",
+      message: "BGG API is still processing the request after 5s",
+    });
+    await vi.runAllTimersAsync();
+
+    await request;
+    // Waits of 1s and 2s, then the last 2s left
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("keeps polling a queued request past maxRetries", async () => {
+    fetchMock
+      .mockResolvedValueOnce(xmlResponse(202, readFixture("collection-processing.xml")))
+      .mockResolvedValueOnce(xmlResponse(202, readFixture("collection-processing.xml")))
+      .mockResolvedValueOnce(xmlResponse(202, readFixture("collection-processing.xml")))
+      .mockResolvedValueOnce(xmlResponse(200, readFixture("collection.xml")));
+
+    const request = fetchWithRetry(COLLECTION_URL, { initialDelay: 10, maxRetries: 2 });
+    await vi.runAllTimersAsync();
+
+    expect((await request).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it("stops waiting when the signal is aborted", async () => {
+    fetchMock.mockImplementation(async () => xmlResponse(202, readFixture("collection-processing.xml")));
+    const controller = new AbortController();
+
+    const request = expect(fetchWithRetry(COLLECTION_URL, { signal: controller.signal })).rejects.toThrow(
+      "This operation was aborted"
+    );
+    await vi.advanceTimersByTimeAsync(500);
+    controller.abort();
+
+    await request;
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith(COLLECTION_URL, { signal: controller.signal });
+  });
+
+  it("doesn't retry an aborted fetch", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    fetchMock.mockRejectedValue(controller.signal.reason);
+
+    await expect(fetchWithRetry(COLLECTION_URL, { signal: controller.signal })).rejects.toThrow();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("retries server errors", async () => {
+    fetchMock
+      .mockResolvedValueOnce(xmlResponse(503, "Service Unavailable"))
+      .mockResolvedValueOnce(xmlResponse(200, readFixture("user.xml")));
+
+    const request = fetchWithRetry(COLLECTION_URL, { initialDelay: 1000 });
+    await vi.runAllTimersAsync();
+
+    expect((await request).status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it("fails after repeated server errors", async () => {
+    fetchMock.mockImplementation(async () => xmlResponse(502, "Bad Gateway"));
+
+    const request = expect(fetchWithRetry(COLLECTION_URL, { maxRetries: 2, initialDelay: 1000 })).rejects.toMatchObject({
+      kind: "Upstream5xx",
+      message: "BGG API returned status 502 after 2 retries",
+      detail: expect.objectContaining({ status: 502 }),
+    });
+    await vi.runAllTimersAsync();
+
+    await request;
+  });
+
+  it("retries rate-limited requests after Retry-After", async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response("", { status: 429, headers: { "Retry-After": "5" } }))
+      .mockResolvedValueOnce(xmlResponse(200, readFixture("user.xml")));
+
+    const request = fetchWithRetry(COLLECTION_URL, { initialDelay: 1000 });
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await request).status).toBe(200);
+  });
+
+  it("reports a rate limit that doesn't lift", async () => {
+    fetchMock.mockImplementation(async () => new Response("", { status: 429 }));
+
+    const request = expect(fetchWithRetry(COLLECTION_URL, { maxRetries: 2, initialDelay: 1000 })).rejects.toMatchObject({
+      kind: "RateLimited",
+    });
+    await vi.runAllTimersAsync();
+
+    await request;
+  });
+
+  it("reports network failures once the retries run out", async () => {
+    fetchMock.mockRejectedValue(new TypeError("fetch failed"));
+
+    const request = expect(fetchWithRetry(COLLECTION_URL, { maxRetries: 2, initialDelay: 1000 })).rejects.toMatchObject({
+      kind: "Network",
+      message: "fetch failed after 2 retries",
+    });
+    await vi.runAllTimersAsync();
+
+    await request;
+  });
+
+  it("retries network failures", async () => {
+    fetchMock
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce(xmlResponse(200, readFixture("user.xml")));
+
+    const request = fetchWithRetry(COLLECTION_URL, { initialDelay: 1000 });
+    await vi.runAllTimersAsync();
+
+    expect((await request).status).toBe(200);
+  });
+
+  it("returns client errors without retrying", async () => {
+    fetchMock.mockResolvedValueOnce(xmlResponse(404, "Not Found"));
+
+    const response = await fetchWithRetry(COLLECTION_URL, { initialDelay: 1000 });
+
+    expect(response.status).toBe(404);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("buildBggUrl", () => {
+  it("encodes booleans as flags and lists as comma-separated ids", () => {
+    expect(buildBggUrl("thing", { id: ["13", "822"], stats: true, versions: false })).toBe(
+      "/xmlapi2/thing?id=13%2C822&stats=1&versions=0"
+    );
+  });
+
+  it("leaves out undefined parameters", () => {
+    expect(buildBggUrl("plays", { username: "cardboardmaid", id: undefined, page: 2 })).toBe(
+      "/xmlapi2/plays?username=cardboardmaid&page=2"
+    );
+  });
+});
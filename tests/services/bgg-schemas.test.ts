@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import {
+  BggValidationError,
+  parseCollectionResponse,
+  parseHotResponse,
+  parsePlaysResponse,
+  parseSearchResponse,
+  parseThingResponse,
+  parseUserResponse,
+} from "@/services/bgg-schemas";
+import { readFixture } from "../helpers/fixtures";
+
+describe("parseUserResponse", () => {
+  it("reads a known user", () => {
+    expect(parseUserResponse(readFixture("user.xml"))).toEqual({
+      id: "2514879",
+      name: "cardboardmaid",
+      yearregistered: 2015,
+      lastmodified: "2024-05-01",
+    });
+  });
+
+  it("returns null for an unknown user", () => {
+    expect(parseUserResponse(readFixture("user-unknown.xml"))).toBeNull();
+  });
+});
+
+describe("parseCollectionResponse", () => {
+  it("reads every item with stats and status", () => {
+    const collection = parseCollectionResponse(readFixture("collection.xml"));
+
+    expect(collection.map((item) => item.objectid)).toEqual(["13", "822", "30549", "174430", "68448"]);
+    expect(collection[0]).toMatchObject({
+      objectid: "13",
+      collid: "31415926",
+      name: "CATAN",
+      yearpublished: 1995,
+      numplays: 12,
+      stats: {
+        minplayers: 3,
+        maxplayers: 4,
+        numowned: 236012,
+        rating: { value: "7", usersrated: 125372, average: 7.09612 },
+      },
+      status: { own: true, fortrade: false, wishlist: false },
+    });
+    expect(collection[0].stats.rating.ranks.map((rank) => rank.name)).toEqual([
+      "boardgame",
+      "strategygames",
+      "familygames",
+    ]);
+    expect(collection[3].status).toMatchObject({ own: false, wishlist: true, wishlistpriority: 2 });
+  });
+
+  it("accepts a collection with a single item", () => {
+    expect(parseCollectionResponse(readFixture("collection-expansions.xml"))).toEqual([
+      expect.objectContaining({ objectid: "325", subtype: "boardgameexpansion" }),
+    ]);
+  });
+
+  it("reports BGG's own error message", () => {
+    expect(() => parseCollectionResponse(readFixture("collection-invalid-user.xml"))).toThrow(
+      "Invalid username specified"
+    );
+  });
+
+  it("names the offending path when the response doesn't match", () => {
+    const xml = readFixture("collection.xml").replace("<numplays>3</numplays>", "<numplays>three</numplays>");
+
+    expect(() => parseCollectionResponse(xml)).toThrow(BggValidationError);
+    expect(() => parseCollectionResponse(xml)).toThrow(
+      "Unexpected BGG collection response at item[2].numplays: Expected an integer"
+    );
+  });
+});
+
+describe("parseThingResponse", () => {
+  it("reads a single item", () => {
+    const [catan] = parseThingResponse(readFixture("thing.xml"));
+
+    expect(catan).toMatchObject({
+      objectid: "13",
+      objecttype: "boardgame",
+      name: "CATAN",
+      yearpublished: 1995,
+      minplayers: 3,
+      maxplayers: 4,
+      playtime: 120,
+      minage: 10,
+      statistics: { ratings: { averageweight: 2.2871, usersrated: 125372 } },
+    });
+    // Double-encoded line breaks stay encoded, single-encoded entities are decoded
+    expect(catan.description).toContain("produces.&#10;&#10;Players build");
+    expect(catan.description).toContain("brick &amp; ore");
+    expect(catan.polls?.map((poll) => poll.name)).toEqual([
+      "suggested_numplayers",
+      "suggested_playerage",
+      "language_dependence",
+    ]);
+  });
+
+  it("reads a batch", () => {
+    const games = parseThingResponse(readFixture("thing-batch.xml"));
+
+    expect(games.map((game) => game.objectid)).toEqual(["822", "30549", "174430", "68448", "325"]);
+    expect(games[4].links).toContainEqual({ type: "boardgameexpansion", id: "13", value: "CATAN", inbound: true });
+  });
+});
+
+describe("parseSearchResponse", () => {
+  it("reads each match with its name and year", () => {
+    const results = parseSearchResponse(readFixture("search.xml"));
+
+    expect(results).toHaveLength(8);
+    expect(results[0]).toEqual({
+      objectid: "13",
+      objecttype: "boardgame",
+      name: "CATAN",
+      isAlternateName: false,
+      yearpublished: 1995,
+    });
+    expect(results[7]).toMatchObject({ objectid: "13", name: "Die Siedler von Catan", isAlternateName: true });
+  });
+
+  it("reads an empty result", () => {
+    expect(parseSearchResponse('<items total="0" termsofuse="https://boardgamegeek.com/xmlapi/termsofuse"></items>')).toEqual([]);
+  });
+});
+
+describe("parseHotResponse", () => {
+  it("reads each game with its rank", () => {
+    const games = parseHotResponse(readFixture("hot.xml"));
+
+    expect(games.map((game) => [game.rank, game.objectid])).toEqual([
+      [1, "295770"],
+      [2, "30549"],
+      [3, "13"],
+      [4, "418059"],
+    ]);
+    expect(games[1]).toEqual({
+      objectid: "30549",
+      rank: 2,
+      name: "Pandemic",
+      yearpublished: 2008,
+      thumbnail: expect.stringContaining("pic1534148.jpg"),
+    });
+  });
+
+  it("leaves out a missing year and thumbnail", () => {
+    const games = parseHotResponse(readFixture("hot.xml"));
+
+    expect(games[3]).toEqual({
+      objectid: "418059",
+      rank: 4,
+      name: "SETI: Search for Extraterrestrial Intelligence",
+      yearpublished: undefined,
+      thumbnail: undefined,
+    });
+  });
+
+  it("rejects an item without a rank", () => {
+    expect(() => parseHotResponse('<items><item id="13"><name value="CATAN"/></item></items>')).toThrow(
+      BggValidationError
+    );
+  });
+});
+
+describe("parsePlaysResponse", () => {
+  it("reads a page of plays and the total", () => {
+    const { plays, totalPlays } = parsePlaysResponse(readFixture("plays-page-1.xml"));
+
+    expect(totalPlays).toBe(6);
+    expect(plays).toHaveLength(4);
+    expect(plays[0]).toEqual({
+      id: "84512377",
+      gameId: "13",
+      gameName: "CATAN",
+      date: new Date("2024-04-27"),
+      quantity: 1,
+      length: 95,
+      players: [
+        { username: "cardboardmaid", name: "Sam", score: "10", new: false, win: true },
+        { username: "", name: "Alex", score: "8", new: false, win: false },
+        { username: "", name: "Robin", score: "6", new: true, win: false },
+      ],
+    });
+    // No players recorded, no length
+    expect(plays[2]).toMatchObject({ quantity: 2, length: undefined, players: undefined });
+  });
+});
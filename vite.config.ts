@@ -1,6 +1,47 @@
-import { defineConfig, loadEnv } from "vite";
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { readFileSync } from "fs";
+import { createHash } from "crypto";
+
+// Files from public/ the app shell needs offline (the bundle itself is added at build time)
+const PUBLIC_PRECACHE = [
+  "/",
+  "/index.html",
+  "/site.webmanifest",
+  "/logo.png",
+  "/logo-text.png",
+  "/favicon.svg",
+  "/favicon-96x96.png",
+  "/web-app-manifest-192x192.png",
+  "/web-app-manifest-512x512.png",
+];
+
+/**
+ * Build src/service-worker.js into /sw.js with the list of files to precache
+ * The cache version is a hash of that list, so every build with new bundle files
+ * installs a new service worker and drops the old app shell.
+ */
+function serviceWorker(): Plugin {
+  return {
+    name: "cardboard-maid-service-worker",
+    apply: "build",
+    enforce: "post",
+    generateBundle(_, bundle) {
+      const bundleFiles = Object.keys(bundle)
+        .filter((fileName) => !fileName.endsWith(".map"))
+        .map((fileName) => `/${fileName}`);
+      const precache = Array.from(new Set([...PUBLIC_PRECACHE, ...bundleFiles]));
+      const version = createHash("sha256").update(precache.join("\n")).digest("hex").slice(0, 12);
+
+      const source = readFileSync(path.resolve(__dirname, "src/service-worker.js"), "utf-8")
+        .replace("self.__PRECACHE_MANIFEST", JSON.stringify(precache))
+        .replace("self.__CACHE_VERSION", JSON.stringify(version));
+
+      this.emitFile({ type: "asset", fileName: "sw.js", source });
+    },
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
@@ -13,8 +54,9 @@ export default defineConfig(({ mode }) => {
       port: 8080,
       proxy: {
         // Proxy BGG XMLAPI2 requests to avoid CORS issues and add auth token
+        // Set BGG_API_TARGET=http://localhost:8787 to use the mock server (npm run mock:bgg)
         '/xmlapi2': {
-          target: 'https://boardgamegeek.com',
+          target: env.BGG_API_TARGET || 'https://boardgamegeek.com',
           changeOrigin: true,
           secure: true,
           rewrite: (path) => path,
@@ -30,7 +72,7 @@ export default defineConfig(({ mode }) => {
         },
       },
     },
-    plugins: [react()],
+    plugins: [react(), serviceWorker()],
     resolve: {
       alias: {
         "@": path.resolve(__dirname, "./src"),